@@ -1,5 +1,9 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { analyzeCSVWithAI } from './services/financial-analyzer';
+import { analyzeCSVWithAI, analyzeFilesWithAI, AnalysisOptions, ProgressCallback } from './services/financial-analyzer';
+import type { AnalysisFile } from './services/source-merge';
+import { parseAnalyzeOptions } from './services/analyze-options';
+import { UsageReport } from './services/llm-usage';
+import { CacheReport } from './services/response-cache';
 
 /**
  * CSV Analysis endpoint with Server-Sent Events for progress streaming
@@ -27,10 +31,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   // Validate request body
-  if (!req.body || !req.body.csvContent) {
+  if (!req.body || (!req.body.csvContent && !req.body.files)) {
     res.status(400).json({ 
       error: 'Bad request',
-      message: 'Missing csvContent in request body',
+      message: 'Missing csvContent (or files) in request body',
       example: {
         csvContent: 'Date,Amount,Description\\n2024-01-01,100.00,Test transaction'
       }
@@ -38,7 +42,20 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return;
   }
 
-  console.log('📊 Analysis request with SSE received, CSV size:', req.body.csvContent.length, 'characters');
+  // Validate optional analysis options
+  let options: AnalysisOptions;
+  let files: AnalysisFile[] | undefined;
+  try {
+    ({ options, files } = parseAnalyzeOptions(req.body));
+  } catch (error) {
+    res.status(400).json({
+      error: 'Bad request',
+      message: error instanceof Error ? error.message : 'Invalid analysis options'
+    });
+    return;
+  }
+
+  console.log('📊 Analysis request with SSE received,', files ? `${files.length} files` : `CSV size: ${req.body.csvContent.length} characters`);
 
   // Set up Server-Sent Events headers
   res.setHeader('Content-Type', 'text/event-stream');
@@ -60,8 +77,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     console.log('🚀 Starting CSV analysis with progress streaming...');
     
-    // Process the CSV with progress callbacks
-    const result = await analyzeCSVWithAI(req.body.csvContent, {
+    // Process the CSV (or the merged files) with progress callbacks
+    const progressCallback: ProgressCallback = {
       onBatchStart: (batchNumber: number, totalBatches: number) => {
         console.log(`📦 Batch ${batchNumber}/${totalBatches} started`);
         sendEvent('batch_start', {
@@ -71,17 +88,38 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           timestamp: new Date().toISOString()
         });
       },
-      onBatchComplete: (batchNumber: number, totalBatches: number, batchResult: any[]) => {
+      onBatchComplete: (batchNumber: number, totalBatches: number, batchResult: any[], usage?: UsageReport) => {
         console.log(`✅ Batch ${batchNumber}/${totalBatches} completed with ${batchResult.length} transactions`);
         sendEvent('batch_complete', {
           current: batchNumber,
           total: totalBatches,
           batchTransactions: batchResult.length,
+          usage, // Tokens and estimated cost of the analysis so far
           message: `Batch ${batchNumber} completed with ${batchResult.length} transactions`,
           timestamp: new Date().toISOString()
         });
+      },
+      onBatchFailed: (batchNumber: number, totalBatches: number, error: string) => {
+        console.log(`⚠️ Batch ${batchNumber}/${totalBatches} failed, its rows stay unclassified`);
+        sendEvent('batch_failed', {
+          current: batchNumber,
+          total: totalBatches,
+          error,
+          message: `Batch ${batchNumber} failed: ${error}`,
+          timestamp: new Date().toISOString()
+        });
+      },
+      onCacheStats: (cache: CacheReport) => {
+        sendEvent('cache', {
+          ...cache,
+          message: `Response cache: ${cache.classification.hits} of ${cache.classification.hits + cache.classification.misses} classification requests reused`,
+          timestamp: new Date().toISOString()
+        });
       }
-    });
+    };
+    const result = files
+      ? await analyzeFilesWithAI(files, progressCallback, options)
+      : await analyzeCSVWithAI(req.body.csvContent, progressCallback, options);
     
     console.log('✅ Analysis completed successfully');
     
@@ -1,5 +1,7 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { analyzeCSVWithAI } from './services/financial-analyzer';
+import { analyzeCSVWithAI, analyzeFilesWithAI, AnalysisOptions } from './services/financial-analyzer';
+import type { AnalysisFile } from './services/source-merge';
+import { parseAnalyzeOptions } from './services/analyze-options';
 
 /**
  * CSV Analysis endpoint
@@ -27,10 +29,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   // Validate request body
-  if (!req.body || !req.body.csvContent) {
+  if (!req.body || (!req.body.csvContent && !req.body.files)) {
     res.status(400).json({ 
       error: 'Bad request',
-      message: 'Missing csvContent in request body',
+      message: 'Missing csvContent (or files) in request body',
       example: {
         csvContent: 'Date,Amount,Description\\n2024-01-01,100.00,Test transaction'
       }
@@ -38,12 +40,27 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return;
   }
 
-  console.log('📊 Analysis request received, CSV size:', req.body.csvContent.length, 'characters');
+  // Validate optional analysis options
+  let options: AnalysisOptions;
+  let files: AnalysisFile[] | undefined;
+  try {
+    ({ options, files } = parseAnalyzeOptions(req.body));
+  } catch (error) {
+    res.status(400).json({
+      error: 'Bad request',
+      message: error instanceof Error ? error.message : 'Invalid analysis options'
+    });
+    return;
+  }
+
+  console.log('📊 Analysis request received,', files ? `${files.length} files` : `CSV size: ${req.body.csvContent.length} characters`);
 
   try {
     // Process the CSV using imported service
     console.log('🚀 Starting CSV analysis...');
-    const result = await analyzeCSVWithAI(req.body.csvContent);
+    const result = files
+      ? await analyzeFilesWithAI(files, undefined, options)
+      : await analyzeCSVWithAI(req.body.csvContent, undefined, options);
     
     console.log('✅ Analysis completed successfully');
     
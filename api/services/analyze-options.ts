@@ -0,0 +1,57 @@
+// Request body validation shared by the analysis endpoints (/api/analyze and
+// /api/analyze-stream), so both accept exactly the same options. Server only.
+
+import type { AnalysisOptions } from './financial-analyzer';
+import { parseColumnMappingInput } from './column-mapping';
+import { parseStatementTypeInput } from './statement-type';
+import { AnalysisFile, parseAnalysisFilesInput } from './source-merge';
+import { parseRulesInput } from './classification-rules';
+import { parseMerchantMemoryInput } from './merchant-memory';
+import { parseAnalysisModeInput } from './offline-analysis';
+import { parseBudgetInput } from './llm-usage';
+import { parsePromptVersionsInput } from './prompt-templates';
+import { parseTaxonomyInput } from './category-taxonomy';
+
+export interface AnalyzeRequestOptions {
+  options: AnalysisOptions;
+  files?: AnalysisFile[]; // Present when several files were sent instead of csvContent
+}
+
+/**
+ * Validate the optional analysis options of a request body. Throws with a path-style
+ * message on the first invalid option; the endpoints answer it with a 400.
+ */
+export const parseAnalyzeOptions = (body: Record<string, unknown>): AnalyzeRequestOptions => {
+  const options: AnalysisOptions = {};
+  let files: AnalysisFile[] | undefined;
+
+  if (body.files) {
+    files = parseAnalysisFilesInput(body.files);
+  }
+  if (body.columnMapping) {
+    options.columnMapping = parseColumnMappingInput(body.columnMapping);
+  }
+  if (body.statementType !== undefined) {
+    options.statementType = parseStatementTypeInput(body.statementType);
+  }
+  if (body.rules !== undefined) {
+    options.rules = parseRulesInput(body.rules);
+  }
+  if (body.merchantMemory !== undefined) {
+    options.merchantMemory = parseMerchantMemoryInput(body.merchantMemory);
+  }
+  if (body.mode !== undefined) {
+    options.mode = parseAnalysisModeInput(body.mode);
+  }
+  if (body.budgetUSD !== undefined) {
+    options.budgetUSD = parseBudgetInput(body.budgetUSD);
+  }
+  if (body.promptVersions !== undefined) {
+    options.promptVersions = parsePromptVersionsInput(body.promptVersions);
+  }
+  if (body.taxonomy !== undefined) {
+    options.taxonomy = parseTaxonomyInput(body.taxonomy);
+  }
+
+  return { options, ...(files ? { files } : {}) };
+};
@@ -0,0 +1,177 @@
+// Registry of known bank export layouts, recognised by header signature.
+// A matched preset maps columns deterministically and applies the bank's sign convention.
+
+import { normalizeHeader, parseISODate, parseValorBrasileiro } from './value-parsers';
+import { SignConvention, SourceTransaction, StatementType, tipoFromSignedValue } from './source-transactions';
+import { ColumnMapping, ColumnRole } from './column-mapping';
+import { parseInstallmentColumn } from './installments';
+
+export interface BankPreset {
+  id: string;
+  name: string;
+  statementType: StatementType;
+  signConvention: SignConvention;
+  signature: string[]; // Normalized headers that must all be present
+  columns: {
+    data: string;
+    valor: string;
+    descricao: string[]; // Joined with " - " when more than one
+    estabelecimento?: string;
+    externalId?: string;
+    parcela?: string; // Installment column ("3/10")
+  };
+  skipDescription?: RegExp; // Balance lines and similar non-transactions
+}
+
+export interface PresetMatch {
+  preset: BankPreset;
+  headerRow: number;
+}
+
+export interface PresetApplication {
+  sources: SourceTransaction[];
+  skippedRows: number;
+}
+
+const HEADER_SCAN_LIMIT = 15;
+
+export const BANK_PRESETS: BankPreset[] = [
+  {
+    id: 'nubank-cartao',
+    name: 'Nubank (cartão de crédito)',
+    statementType: 'cartao',
+    signConvention: 'positive-is-expense',
+    signature: ['date', 'title', 'amount'],
+    columns: { data: 'date', valor: 'amount', descricao: ['title'] },
+  },
+  {
+    id: 'nubank-conta',
+    name: 'Nubank (conta)',
+    statementType: 'conta',
+    signConvention: 'negative-is-expense',
+    signature: ['data', 'valor', 'identificador', 'descricao'],
+    columns: { data: 'data', valor: 'valor', descricao: ['descricao'], externalId: 'identificador' },
+  },
+  {
+    id: 'inter-conta',
+    name: 'Banco Inter (conta)',
+    statementType: 'conta',
+    signConvention: 'negative-is-expense',
+    signature: ['data lancamento', 'historico', 'descricao', 'valor', 'saldo'],
+    columns: { data: 'data lancamento', valor: 'valor', descricao: ['historico', 'descricao'] },
+  },
+  {
+    id: 'c6-cartao',
+    name: 'C6 Bank (cartão de crédito)',
+    statementType: 'cartao',
+    signConvention: 'positive-is-expense',
+    signature: ['data de compra', 'descricao', 'valor em r'],
+    columns: { data: 'data de compra', valor: 'valor em r', descricao: ['descricao'] },
+  },
+  {
+    id: 'itau-conta',
+    name: 'Itaú (conta)',
+    statementType: 'conta',
+    signConvention: 'negative-is-expense',
+    signature: ['data', 'lancamento', 'valor r'],
+    columns: { data: 'data', valor: 'valor r', descricao: ['lancamento'] },
+    skipDescription: /^saldo (do dia|anterior|total|final)/i,
+  },
+  {
+    id: 'xp-cartao',
+    name: 'XP (cartão de crédito)',
+    statementType: 'cartao',
+    signConvention: 'positive-is-expense',
+    signature: ['data', 'estabelecimento', 'portador', 'valor', 'parcela'],
+    columns: { data: 'data', valor: 'valor', descricao: ['estabelecimento'], estabelecimento: 'estabelecimento', parcela: 'parcela' },
+  },
+];
+
+/**
+ * Find the preset whose signature matches a header row within the first lines.
+ * When several match, the most specific (largest signature) wins.
+ */
+export const detectBankPreset = (rows: string[][]): PresetMatch | null => {
+  let best: PresetMatch | null = null;
+
+  rows.slice(0, HEADER_SCAN_LIMIT).forEach((row, headerRow) => {
+    const headers = new Set(row.map(normalizeHeader));
+
+    BANK_PRESETS.forEach(preset => {
+      const matches = preset.signature.every(column => headers.has(column));
+      if (matches && (!best || preset.signature.length > best.preset.signature.length)) {
+        best = { preset, headerRow };
+      }
+    });
+  });
+
+  return best;
+};
+
+/**
+ * Convert the rows below the preset's header into source transactions.
+ * Rows without a valid date or value (totals, footers, balance lines) are skipped.
+ */
+export const applyBankPreset = (rows: string[][], match: PresetMatch): PresetApplication => {
+  const { preset, headerRow } = match;
+  const headers = rows[headerRow].map(normalizeHeader);
+  const indexOf = (column: string) => headers.indexOf(column);
+
+  const dataIdx = indexOf(preset.columns.data);
+  const valorIdx = indexOf(preset.columns.valor);
+  const descricaoIdx = preset.columns.descricao.map(indexOf).filter(idx => idx !== -1);
+  const estabelecimentoIdx = preset.columns.estabelecimento ? indexOf(preset.columns.estabelecimento) : -1;
+  const externalIdIdx = preset.columns.externalId ? indexOf(preset.columns.externalId) : -1;
+  const parcelaIdx = preset.columns.parcela ? indexOf(preset.columns.parcela) : -1;
+
+  const sources: SourceTransaction[] = [];
+  let skippedRows = 0;
+
+  rows.slice(headerRow + 1).forEach(row => {
+    const data = parseISODate(row[dataIdx]);
+    const valorRaw = (row[valorIdx] || '').trim();
+    const descricao = descricaoIdx
+      .map(idx => (row[idx] || '').trim())
+      .filter((part, i, parts) => part !== '' && parts.indexOf(part) === i)
+      .join(' - ');
+
+    if (!data || valorRaw === '' || (preset.skipDescription && preset.skipDescription.test(descricao))) {
+      skippedRows++;
+      return;
+    }
+
+    const valorCentavos = parseValorBrasileiro(valorRaw);
+    const parcela = parcelaIdx !== -1 ? parseInstallmentColumn(row[parcelaIdx]) : null;
+
+    sources.push({
+      id: sources.length + 1,
+      tipo: tipoFromSignedValue(valorCentavos, preset.signConvention),
+      data,
+      valorCentavos: Math.abs(valorCentavos),
+      descricao,
+      ...(estabelecimentoIdx !== -1 && row[estabelecimentoIdx] ? { estabelecimento: row[estabelecimentoIdx].trim() } : {}),
+      ...(externalIdIdx !== -1 && row[externalIdIdx] ? { externalId: row[externalIdIdx].trim() } : {}),
+      ...(parcela ? { parcela } : {}),
+    });
+  });
+
+  return { sources, skippedRows };
+};
+
+/**
+ * Express a preset match as a column mapping (used to pre-fill the mapping preview)
+ */
+export const presetToColumnMapping = (rows: string[][], match: PresetMatch): ColumnMapping => {
+  const { preset, headerRow } = match;
+  const { columns } = preset;
+
+  const roles: ColumnRole[] = rows[headerRow].map(normalizeHeader).map(header => {
+    if (header === columns.data) return 'data';
+    if (header === columns.valor) return 'valor';
+    if (columns.descricao.includes(header)) return 'descricao';
+    if (header === columns.estabelecimento) return 'estabelecimento';
+    return 'ignorar';
+  });
+
+  return { headerRow, roles, signConvention: preset.signConvention, presetId: preset.id };
+};
@@ -0,0 +1,344 @@
+// Canonical category taxonomy: the tree of categories the classification is constrained to.
+// Free text (from the LLM, rules, memory or a manual correction) is mapped onto its nodes by
+// name, id or synonym, so "Mercado", "supermercado" and "Alimentacao > Mercado" all land on
+// "Alimentação > Supermercado" and aggregate together.
+// Shared with the browser client (taxonomy editor), so no Node-only imports.
+
+import { normalizeHeader } from './value-parsers';
+
+export interface CategoryNode {
+  id: string; // Slug, unique among its siblings; the ids from the root form categoriaPath
+  nome: string; // Display name
+  icone?: string; // Emoji; subcategories inherit it
+  cor?: string; // #rrggbb; subcategories inherit it
+  essencial?: boolean; // Essential (true) or discretionary spending; subcategories inherit it
+  sinonimos?: string[]; // Other names that map onto this node
+  subcategorias?: CategoryNode[];
+}
+
+export type CategoryTaxonomy = CategoryNode[];
+
+// Import/export format
+export interface TaxonomyFile {
+  version: 1;
+  categorias: CategoryTaxonomy;
+}
+
+export interface ResolvedCategory {
+  categoria: string; // Display path ("Alimentação > Supermercado"), or the text as given when unknown
+  categoriaPath: string[]; // Node ids ("alimentacao", "supermercado"), or slugs of the text
+  canonical: boolean; // False when no node matched
+}
+
+export interface CategoryDetails {
+  icone?: string;
+  cor?: string;
+  essencial: boolean;
+}
+
+const MAX_NODES = 500;
+const UNKNOWN_CATEGORY = 'Outros';
+
+const node = (
+  id: string,
+  nome: string,
+  details: Omit<CategoryNode, 'id' | 'nome' | 'subcategorias'>,
+  subcategorias?: CategoryNode[]
+): CategoryNode => ({ id, nome, ...details, ...(subcategorias ? { subcategorias } : {}) });
+
+const leaf = (id: string, nome: string, sinonimos: string[] = [], essencial?: boolean): CategoryNode => ({
+  id,
+  nome,
+  ...(sinonimos.length > 0 ? { sinonimos } : {}),
+  ...(essencial !== undefined ? { essencial } : {}),
+});
+
+/**
+ * Default taxonomy: every category of the offline dictionary and of the golden dataset
+ */
+export const DEFAULT_TAXONOMY: CategoryTaxonomy = [
+  node('alimentacao', 'Alimentação', { icone: '🍽️', cor: '#f97316', essencial: true, sinonimos: ['comida', 'alimentos'] }, [
+    leaf('supermercado', 'Supermercado', ['mercado', 'hortifruti', 'sacolao', 'feira', 'atacarejo', 'mercearia']),
+    leaf('restaurantes', 'Restaurantes', ['restaurante', 'lanchonete', 'padaria', 'bar', 'refeicao'], false),
+    leaf('delivery', 'Delivery', ['ifood', 'entrega', 'pedido online'], false),
+    leaf('fast-food', 'Fast Food', ['lanche', 'lanches', 'hamburgueria'], false),
+    leaf('cafeteria', 'Cafeteria', ['cafe', 'cafes'], false),
+  ]),
+  node('moradia', 'Moradia', { icone: '🏠', cor: '#0ea5e9', essencial: true, sinonimos: ['casa', 'habitacao'] }, [
+    leaf('aluguel', 'Aluguel', ['imobiliaria']),
+    leaf('condominio', 'Condomínio'),
+    leaf('energia', 'Energia', ['luz', 'energia eletrica', 'conta de luz']),
+    leaf('agua', 'Água', ['saneamento', 'conta de agua']),
+    leaf('internet-e-telefone', 'Internet e Telefone', ['internet', 'telefone', 'internet/telefone', 'celular', 'telefonia']),
+    leaf('manutencao', 'Manutenção', ['reforma', 'reparos', 'material de construcao']),
+  ]),
+  node('transporte', 'Transporte', { icone: '🚗', cor: '#6366f1', essencial: true }, [
+    node('apps', 'Apps', { sinonimos: ['aplicativos de transporte', 'taxi', 'corrida'] }, [
+      leaf('uber', 'Uber'),
+      leaf('99', '99', ['99 app', '99 pop']),
+    ]),
+    leaf('combustivel', 'Combustível', ['gasolina', 'etanol', 'posto', 'posto de combustivel']),
+    leaf('estacionamento', 'Estacionamento', ['zona azul']),
+    leaf('pedagio', 'Pedágio', ['tag de pedagio']),
+    leaf('seguro', 'Seguro', ['seguro auto', 'seguro do carro']),
+    leaf('transporte-publico', 'Transporte Público', ['metro', 'onibus', 'trem', 'bilhete unico']),
+  ]),
+  node('saude', 'Saúde', { icone: '🩺', cor: '#10b981', essencial: true }, [
+    leaf('farmacia', 'Farmácia', ['drogaria', 'remedios', 'medicamentos']),
+    leaf('plano-de-saude', 'Plano de Saúde', ['convenio', 'convenio medico']),
+    leaf('consultas-e-exames', 'Consultas e Exames', ['consulta', 'consultas', 'exame', 'exames', 'medico', 'dentista', 'laboratorio']),
+    leaf('academia', 'Academia', ['gym', 'musculacao'], false),
+  ]),
+  node('educacao', 'Educação', { icone: '📚', cor: '#8b5cf6', essencial: true }, [
+    leaf('mensalidade-escolar', 'Mensalidade Escolar', ['escola', 'faculdade', 'mensalidade']),
+    leaf('cursos', 'Cursos', ['curso', 'idiomas']),
+    leaf('livros', 'Livros', ['livro', 'livraria']),
+  ]),
+  node('lazer', 'Lazer', { icone: '🎉', cor: '#ec4899', essencial: false, sinonimos: ['entretenimento', 'diversao'] }, [
+    leaf('streaming', 'Streaming', ['netflix', 'spotify', 'musica']),
+    leaf('cinema', 'Cinema', ['ingressos']),
+    leaf('eventos', 'Eventos', ['shows', 'teatro', 'festas']),
+    leaf('jogos', 'Jogos', ['games', 'videogame']),
+  ]),
+  node('viagem', 'Viagem', { icone: '✈️', cor: '#14b8a6', essencial: false, sinonimos: ['viagens', 'turismo'] }, [
+    leaf('passagens', 'Passagens', ['passagem', 'passagem aerea', 'voo', 'companhia aerea']),
+    leaf('hospedagem', 'Hospedagem', ['hotel', 'pousada', 'airbnb']),
+  ]),
+  node('compras', 'Compras', { icone: '🛍️', cor: '#f59e0b', essencial: false }, [
+    leaf('online', 'Online', ['e commerce', 'marketplace', 'compras online']),
+    leaf('vestuario', 'Vestuário', ['roupas', 'calcados', 'moda']),
+    leaf('eletronicos', 'Eletrônicos', ['eletronico', 'informatica']),
+    leaf('papelaria', 'Papelaria', ['material escolar']),
+    leaf('casa', 'Casa', ['utilidades domesticas', 'moveis', 'decoracao']),
+  ]),
+  node('assinaturas', 'Assinaturas', { icone: '🔁', cor: '#64748b', essencial: false }, [
+    leaf('apps', 'Apps', ['aplicativos', 'software', 'armazenamento']),
+  ]),
+  node('pets', 'Pets', { icone: '🐾', cor: '#a16207', essencial: true, sinonimos: ['animais', 'pet'] }, [
+    leaf('pet-shop', 'Pet Shop', ['racao', 'petshop']),
+    leaf('veterinario', 'Veterinário', ['clinica veterinaria']),
+  ]),
+  node('cuidados-pessoais', 'Cuidados Pessoais', { icone: '💇', cor: '#db2777', essencial: false }, [
+    leaf('beleza', 'Beleza', ['salao', 'salao de beleza', 'cabeleireiro', 'barbearia', 'estetica']),
+  ]),
+  node('impostos', 'Impostos', { icone: '🏛️', cor: '#475569', essencial: true, sinonimos: ['tributos'] }, [
+    leaf('iptu', 'IPTU'),
+    leaf('ipva', 'IPVA', ['licenciamento']),
+    leaf('imposto-de-renda', 'Imposto de Renda', ['irpf', 'darf']),
+  ]),
+  node('taxas', 'Taxas', { icone: '🏦', cor: '#ef4444', essencial: false, sinonimos: ['tarifas', 'encargos'] }, [
+    leaf('iof', 'IOF'),
+    leaf('juros-e-multas', 'Juros e Multas', ['juros', 'multa', 'multas']),
+    leaf('tarifas-bancarias', 'Tarifas Bancárias', ['tarifa', 'anuidade', 'cesta de servicos']),
+  ]),
+  node('investimentos', 'Investimentos', { icone: '📈', cor: '#22c55e', essencial: false }, [
+    leaf('aplicacao', 'Aplicação', ['aporte', 'investimento', 'poupanca']),
+  ]),
+  node('doacoes', 'Doações', { icone: '🤝', cor: '#f43f5e', essencial: false, sinonimos: ['doacao', 'caridade', 'dizimo', 'vaquinha'] }),
+  node('transferencias', 'Transferências', { icone: '🔄', cor: '#94a3b8', essencial: false }, [
+    leaf('transferencias', 'Transferências', ['transferencia', 'pix', 'ted', 'doc']),
+    leaf('pagamento-de-fatura', 'Pagamento de Fatura', ['fatura', 'fatura do cartao']),
+  ]),
+  node('receitas', 'Receitas', { icone: '💰', cor: '#16a34a', sinonimos: ['renda', 'entradas'] }, [
+    leaf('salario', 'Salário', ['folha de pagamento', 'proventos']),
+    leaf('freelance', 'Freelance', ['honorarios', 'servicos prestados']),
+    leaf('rendimentos', 'Rendimentos', ['dividendos', 'juros recebidos']),
+    leaf('estornos', 'Estornos', ['estorno', 'reembolso', 'cashback', 'devolucao']),
+    leaf('outras', 'Outras', ['outras receitas']),
+  ]),
+  node('outros', UNKNOWN_CATEGORY, { icone: '📦', cor: '#9ca3af', sinonimos: ['diversos', 'sem categoria', 'nao identificado'] }),
+];
+
+// Node ids, names and synonyms are compared without case, accents or punctuation
+const keyOf = (text: string): string => normalizeHeader(text);
+
+/**
+ * Slug for a category name ("Plano de Saúde" → "plano-de-saude")
+ */
+export const categorySlug = (nome: string): string => keyOf(nome).replace(/ /g, '-');
+
+// A node with its ancestors, root first
+type NodeTrail = CategoryNode[];
+
+const walk = (taxonomy: CategoryTaxonomy, visit: (trail: NodeTrail) => void, ancestors: NodeTrail = []) => {
+  taxonomy.forEach(category => {
+    const trail = [...ancestors, category];
+    visit(trail);
+    walk(category.subcategorias || [], visit, trail);
+  });
+};
+
+const termsOf = (category: CategoryNode): string[] =>
+  [category.nome, category.id, ...(category.sinonimos || [])].map(keyOf).filter(Boolean);
+
+const resolvedFrom = (trail: NodeTrail): ResolvedCategory => ({
+  categoria: trail.map(category => category.nome).join(' > '),
+  categoriaPath: trail.map(category => category.id),
+  canonical: true,
+});
+
+// Lookups built once per taxonomy object (the default one, or the one a request brought)
+const indexes = new WeakMap<CategoryTaxonomy, { paths: Map<string, NodeTrail>; terms: Map<string, NodeTrail[]> }>();
+
+const indexOf = (taxonomy: CategoryTaxonomy) => {
+  let index = indexes.get(taxonomy);
+  if (!index) {
+    index = { paths: new Map(), terms: new Map() };
+    const { paths, terms } = index;
+    walk(taxonomy, trail => {
+      paths.set(trail.map(category => keyOf(category.nome)).join('>'), trail);
+      new Set(termsOf(trail[trail.length - 1])).forEach(term => terms.set(term, [...(terms.get(term) || []), trail]));
+    });
+    indexes.set(taxonomy, index);
+  }
+  return index;
+};
+
+/**
+ * Map a free-text category onto the taxonomy. Segments are split on ">" only, so
+ * "Internet/Telefone" stays one name. The exact path wins; otherwise the deepest segment
+ * known by name, id or synonym under an ancestor named earlier in the path ("Assinaturas >
+ * Apps" vs "Transporte > Apps"). A segment that only matches elsewhere in the tree is
+ * skipped when an earlier one is known, so "Lazer > Casa" falls back to Lazer instead of
+ * Moradia; without any known earlier segment, its first match is taken. Unknown text is
+ * kept as given.
+ */
+export const resolveCategory = (taxonomy: CategoryTaxonomy, categoria: string): ResolvedCategory => {
+  const segments = (categoria || '').split('>').map(segment => segment.trim()).filter(segment => keyOf(segment) !== '');
+  const { paths, terms } = indexOf(taxonomy);
+
+  if (segments.length === 0) {
+    const unknown = terms.get(keyOf(UNKNOWN_CATEGORY))?.[0];
+    return unknown ? resolvedFrom(unknown) : { categoria: UNKNOWN_CATEGORY, categoriaPath: ['outros'], canonical: false };
+  }
+
+  const exact = paths.get(segments.map(keyOf).join('>'));
+  if (exact) return resolvedFrom(exact);
+
+  for (let depth = segments.length - 1; depth >= 0; depth--) {
+    const candidates = terms.get(keyOf(segments[depth]));
+    if (!candidates) continue;
+
+    // Earlier segments that name one of the candidate's ancestors
+    const before = segments.slice(0, depth).map(keyOf);
+    const score = (trail: NodeTrail) => trail.slice(0, -1).filter(ancestor => termsOf(ancestor).some(term => before.includes(term))).length;
+    const best = candidates.reduce((chosen, trail) => (score(trail) > score(chosen) ? trail : chosen));
+    if (score(best) > 0 || !before.some(term => terms.has(term))) return resolvedFrom(best);
+  }
+
+  return {
+    categoria: segments.join(' > '),
+    categoriaPath: segments.map(categorySlug),
+    canonical: false,
+  };
+};
+
+/**
+ * Icon, colour and essential flag of a category path (node ids), each inherited from the
+ * nearest node that sets it
+ */
+export const categoryDetails = (taxonomy: CategoryTaxonomy, categoriaPath: string[]): CategoryDetails => {
+  const details: CategoryDetails = { essencial: false };
+  let level = taxonomy;
+  for (const id of categoriaPath) {
+    const category = level.find(candidate => candidate.id === id);
+    if (!category) break;
+    if (category.icone) details.icone = category.icone;
+    if (category.cor) details.cor = category.cor;
+    if (category.essencial !== undefined) details.essencial = category.essencial;
+    level = category.subcategorias || [];
+  }
+  return details;
+};
+
+/**
+ * Display path of every node, parents before their subcategories
+ */
+export const taxonomyPaths = (taxonomy: CategoryTaxonomy): string[] => {
+  const result: string[] = [];
+  walk(taxonomy, trail => result.push(trail.map(category => category.nome).join(' > ')));
+  return result;
+};
+
+/**
+ * The taxonomy as the classification prompt lists it: one path per line, with synonyms
+ */
+export const formatTaxonomyForPrompt = (taxonomy: CategoryTaxonomy): string => {
+  const lines: string[] = [];
+  walk(taxonomy, trail => {
+    const category = trail[trail.length - 1];
+    const sinonimos = category.sinonimos?.length ? ` (${category.sinonimos.join(', ')})` : '';
+    lines.push(`- ${trail.map(ancestor => ancestor.nome).join(' > ')}${sinonimos}`);
+  });
+  return lines.join('\n');
+};
+
+const parseNode = (input: unknown, path: string, counter: { nodes: number }): CategoryNode => {
+  const category = input as Partial<CategoryNode> | null;
+  if (!category || typeof category !== 'object' || Array.isArray(category)) {
+    throw new Error(`${path} must be an object`);
+  }
+  if (++counter.nodes > MAX_NODES) {
+    throw new Error(`At most ${MAX_NODES} categories are supported`);
+  }
+  if (typeof category.nome !== 'string' || category.nome.trim() === '' || /[>/:]/.test(category.nome)) {
+    throw new Error(`${path}.nome must be a non-empty string without ">", "/" or ":"`);
+  }
+
+  const id = typeof category.id === 'string' && category.id.trim() !== '' ? categorySlug(category.id) : categorySlug(category.nome);
+  if (!id) {
+    throw new Error(`${path}.id must have letters or digits`);
+  }
+  if (category.icone !== undefined && typeof category.icone !== 'string') {
+    throw new Error(`${path}.icone must be a string`);
+  }
+  if (category.cor !== undefined && (typeof category.cor !== 'string' || !/^#[0-9a-f]{6}$/i.test(category.cor))) {
+    throw new Error(`${path}.cor must be a #rrggbb colour`);
+  }
+  if (category.essencial !== undefined && typeof category.essencial !== 'boolean') {
+    throw new Error(`${path}.essencial must be true or false`);
+  }
+  if (category.sinonimos !== undefined && (!Array.isArray(category.sinonimos) || category.sinonimos.some(sinonimo => typeof sinonimo !== 'string'))) {
+    throw new Error(`${path}.sinonimos must be an array of strings`);
+  }
+  if (category.subcategorias !== undefined && !Array.isArray(category.subcategorias)) {
+    throw new Error(`${path}.subcategorias must be an array`);
+  }
+
+  const sinonimos = (category.sinonimos || []).map(sinonimo => sinonimo.trim()).filter(Boolean);
+  const subcategorias = category.subcategorias ? parseLevel(category.subcategorias, `${path}.subcategorias`, counter) : [];
+
+  return {
+    id,
+    nome: category.nome.trim(),
+    ...(category.icone?.trim() ? { icone: category.icone.trim() } : {}),
+    ...(category.cor ? { cor: category.cor.toLowerCase() } : {}),
+    ...(category.essencial !== undefined ? { essencial: category.essencial } : {}),
+    ...(sinonimos.length > 0 ? { sinonimos } : {}),
+    ...(subcategorias.length > 0 ? { subcategorias } : {}),
+  };
+};
+
+const parseLevel = (list: unknown[], path: string, counter: { nodes: number }): CategoryNode[] => {
+  const ids = new Set<string>();
+  return list.map((item, idx) => {
+    const category = parseNode(item, `${path}[${idx}]`, counter);
+    if (ids.has(category.id)) {
+      throw new Error(`${path}[${idx}].id "${category.id}" is duplicated among its siblings`);
+    }
+    ids.add(category.id);
+    return category;
+  });
+};
+
+/**
+ * Validate a taxonomy from a request or an imported file: an array of categories or a
+ * { "version": 1, "categorias": [...] } document. Missing ids are derived from the names.
+ */
+export const parseTaxonomyInput = (input: unknown, path = 'taxonomy'): CategoryTaxonomy => {
+  const list = Array.isArray(input) ? input : (input as Partial<TaxonomyFile> | null)?.categorias;
+  if (!Array.isArray(list) || list.length === 0) {
+    throw new Error(`${path} must be a non-empty array (or a { "version": 1, "categorias": [...] } document)`);
+  }
+  return parseLevel(list, path, { nodes: 0 });
+};
@@ -0,0 +1,161 @@
+// Classification benchmark: a labelled statement (golden dataset) is stripped of its labels,
+// pushed through the analyzer like any upload, and the result is scored against the labels,
+// per level of the category path, with a confusion matrix of the top level and the sign errors.
+
+import { parseCSV, serializeCSVRow } from './csv-parser';
+import { normalizeHeader } from './value-parsers';
+import type { TransactionData } from './financial-analyzer';
+import type { UsageReport } from './llm-usage';
+
+export interface GoldenTransaction {
+  id: number; // Position among the data rows, as the analyzer numbers them
+  data: string;
+  descricao: string;
+  estabelecimento: string;
+  valor: string; // As in a bank export: signed, Brazilian format
+  categoria: string; // Expected path ("Alimentação > Supermercado")
+  tipo: 'Entrada' | 'Saída';
+}
+
+export interface LevelAccuracy {
+  level: number; // 1 = top category
+  evaluated: number; // Rows whose expected path has this level
+  correct: number; // Rows whose path matches down to this level
+  accuracy: number; // 0–1
+}
+
+export interface BenchmarkMiss {
+  id: number;
+  descricao: string;
+  expected: string;
+  actual: string;
+}
+
+export interface BenchmarkReport {
+  total: number;
+  missing: number[]; // Golden ids the analyzer did not return
+  levels: LevelAccuracy[];
+  exact: { correct: number; accuracy: number }; // Whole path equal
+  confusion: Record<string, Record<string, number>>; // Expected top category → returned top category → rows
+  misclassified: BenchmarkMiss[];
+  signErrors: BenchmarkMiss[];
+  usage?: UsageReport;
+}
+
+const GOLDEN_COLUMNS = ['data', 'descricao', 'estabelecimento', 'valor', 'categoria esperada', 'tipo esperado'];
+
+/**
+ * Parse the golden dataset: Data, Descrição, Estabelecimento, Valor, Categoria esperada,
+ * Tipo esperado (any order, any delimiter)
+ */
+export const parseGoldenDataset = (content: string): GoldenTransaction[] => {
+  const [header = [], ...rows] = parseCSV(content).rows;
+  const columns = header.map(normalizeHeader);
+  const index = Object.fromEntries(GOLDEN_COLUMNS.map(column => [column, columns.indexOf(column)]));
+  const absent = GOLDEN_COLUMNS.filter(column => index[column] === -1);
+  if (absent.length > 0) {
+    throw new Error(`Golden dataset is missing the columns: ${absent.join(', ')}`);
+  }
+
+  return rows.map((row, position) => {
+    const line = position + 2;
+    const tipo = row[index['tipo esperado']];
+    if (tipo !== 'Entrada' && tipo !== 'Saída') {
+      throw new Error(`line ${line}: tipo esperado must be "Entrada" or "Saída"`);
+    }
+    if (!row[index['categoria esperada']]) {
+      throw new Error(`line ${line}: categoria esperada is empty`);
+    }
+
+    return {
+      id: position + 1,
+      data: row[index.data],
+      descricao: row[index.descricao],
+      estabelecimento: row[index.estabelecimento] || '',
+      valor: row[index.valor],
+      categoria: row[index['categoria esperada']],
+      tipo,
+    };
+  });
+};
+
+/**
+ * The statement the analyzer sees: the golden rows without the expected columns
+ */
+export const goldenStatementCSV = (golden: GoldenTransaction[]): string =>
+  [['Data', 'Descrição', 'Estabelecimento', 'Valor'], ...golden.map(row => [row.data, row.descricao, row.estabelecimento, row.valor])]
+    .map(row => serializeCSVRow(row, ';'))
+    .join('\n');
+
+// Paths are compared without case, accents or punctuation ("Saúde > Farmácia" = "saude > farmacia")
+const pathOf = (categoria: string): string[] =>
+  (categoria || '').split('>').map(segment => normalizeHeader(segment)).filter(Boolean);
+
+const labelOf = (row: GoldenTransaction): string => [row.descricao, row.estabelecimento].filter(Boolean).join(' · ');
+
+const sameUpTo = (expected: string[], actual: string[], level: number): boolean =>
+  expected.slice(0, level).every((segment, index) => actual[index] === segment);
+
+const accuracyOf = (level: number, evaluated: number, correct: number): LevelAccuracy => ({
+  level,
+  evaluated,
+  correct,
+  accuracy: evaluated === 0 ? 0 : correct / evaluated,
+});
+
+/**
+ * Score the analyzer's transactions against the golden dataset, joined by id.
+ * Rows the analyzer did not return count as wrong at every level.
+ */
+export const scoreClassifications = (
+  golden: GoldenTransaction[],
+  transactions: Pick<TransactionData, 'id' | 'tipo' | 'categoria'>[],
+  usage?: UsageReport
+): BenchmarkReport => {
+  const byId = new Map(transactions.map(transaction => [transaction.id, transaction]));
+  const depth = Math.max(0, ...golden.map(row => pathOf(row.categoria).length));
+  const levels = Array.from({ length: depth }, (_, index) => ({ evaluated: 0, correct: 0, level: index + 1 }));
+  const confusion: BenchmarkReport['confusion'] = {};
+  const missing: number[] = [];
+  const misclassified: BenchmarkMiss[] = [];
+  const signErrors: BenchmarkMiss[] = [];
+  let exact = 0;
+
+  golden.forEach(row => {
+    const returned = byId.get(row.id);
+    const expected = pathOf(row.categoria);
+    const actual = returned ? pathOf(returned.categoria) : [];
+    if (!returned) missing.push(row.id);
+
+    levels.slice(0, expected.length).forEach(level => {
+      level.evaluated++;
+      if (sameUpTo(expected, actual, level.level)) level.correct++;
+    });
+
+    const expectedTop = row.categoria.split('>')[0].trim();
+    const actualTop = returned ? (returned.categoria || '').split('>')[0].trim() || '(vazio)' : '(ausente)';
+    confusion[expectedTop] = confusion[expectedTop] || {};
+    confusion[expectedTop][actualTop] = (confusion[expectedTop][actualTop] || 0) + 1;
+
+    if (expected.length === actual.length && sameUpTo(expected, actual, expected.length)) {
+      exact++;
+    } else {
+      misclassified.push({ id: row.id, descricao: labelOf(row), expected: row.categoria, actual: returned?.categoria || '(ausente)' });
+    }
+
+    if (returned && returned.tipo !== row.tipo) {
+      signErrors.push({ id: row.id, descricao: labelOf(row), expected: row.tipo, actual: returned.tipo });
+    }
+  });
+
+  return {
+    total: golden.length,
+    missing,
+    levels: levels.map(level => accuracyOf(level.level, level.evaluated, level.correct)),
+    exact: { correct: exact, accuracy: golden.length === 0 ? 0 : exact / golden.length },
+    confusion,
+    misclassified,
+    signErrors,
+    ...(usage ? { usage } : {}),
+  };
+};
@@ -0,0 +1,312 @@
+// User-editable rules that classify (or drop) transactions before anything is sent to the LLM.
+// Rules are plain JSON so they can be exported, edited and imported back.
+// Shared with the browser client (rule editor), so no Node-only imports.
+
+import { normalizeHeader } from './value-parsers';
+import { SourceTransaction } from './source-transactions';
+
+export type RuleCondition =
+  | { type: 'contains'; value: string } // Description or merchant contains the text (accents and case ignored)
+  | { type: 'regex'; pattern: string; flags?: string } // Tested against description and merchant
+  | { type: 'merchant-equals'; value: string }
+  | { type: 'amount-range'; minCentavos?: number; maxCentavos?: number }; // Absolute value, inclusive
+
+export interface RuleAction {
+  categoria?: string; // "Transporte > Apps > Uber"; classifies without the LLM
+  empresa?: string;
+  tipo?: 'Entrada' | 'Saída'; // Overrides the sign-based tipo
+  ignore?: boolean; // Drops the transaction (bill payments, transfers between own accounts)
+}
+
+export interface ClassificationRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  conditions: RuleCondition[]; // All must match
+  action: RuleAction;
+}
+
+export interface RuleSetFile {
+  version: 1;
+  rules: ClassificationRule[];
+}
+
+export interface RuleHit {
+  ruleId: string;
+  name: string;
+  hits: number;
+}
+
+export interface RuleStats {
+  classifiedByRules: number;
+  ignored: number;
+  sentToLLM: number;
+  hits: RuleHit[]; // One entry per rule, including those that matched nothing
+}
+
+export interface RuleClassification {
+  source: SourceTransaction;
+  rule: ClassificationRule;
+}
+
+export interface RuleApplication {
+  classified: RuleClassification[]; // Categorised by a rule
+  remaining: SourceTransaction[]; // Still need the LLM (tipo overrides already applied)
+  stats: RuleStats;
+}
+
+export const RULE_CONDITION_TYPES: RuleCondition['type'][] = ['contains', 'regex', 'merchant-equals', 'amount-range'];
+
+export const MAX_RULES = 500;
+
+// Patterns are user input run on the server: long ones are refused
+export const MAX_REGEX_LENGTH = 200;
+
+const REGEX_FLAGS = /^[imsu]*$/;
+
+// Only this much of a description is handed to a rule regex
+export const MAX_REGEX_INPUT_LENGTH = 200;
+
+const REPEAT = /^(?:[*+]|\{\d+,\d*\})/;
+
+/**
+ * Whether a pattern repeats a group that itself holds a repetition, like (a+)+ or (\w*x)*.
+ * Those backtrack exponentially on a near miss, whatever the pattern length.
+ */
+export const hasNestedQuantifier = (pattern: string): boolean => {
+  const groups: boolean[] = []; // Per open group: does it contain a quantifier?
+  let quantified = false;
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index];
+    if (char === '\\') {
+      index++;
+    } else if (char === '[') {
+      while (index < pattern.length && pattern[index] !== ']') {
+        index += pattern[index] === '\\' ? 2 : 1;
+      }
+    } else if (char === '(') {
+      groups.push(quantified);
+      quantified = false;
+    } else if (char === ')') {
+      const inner = quantified;
+      quantified = (groups.pop() ?? false) || inner;
+      if (inner && REPEAT.test(pattern.slice(index + 1))) return true;
+    } else if (REPEAT.test(pattern.slice(index))) {
+      quantified = true;
+    }
+  }
+  return false;
+};
+
+// Rules stay plain JSON, so each regex condition is compiled once and looked up here
+const compiledRegexes = new WeakMap<RuleCondition, RegExp>();
+
+const compiledRegex = (condition: Extract<RuleCondition, { type: 'regex' }>): RegExp => {
+  let regex = compiledRegexes.get(condition);
+  if (!regex) {
+    regex = new RegExp(condition.pattern, condition.flags ?? 'i');
+    compiledRegexes.set(condition, regex);
+  }
+  return regex;
+};
+
+/**
+ * Check whether one condition holds for a transaction
+ */
+const matchesCondition = (condition: RuleCondition, source: SourceTransaction): boolean => {
+  const merchant = source.estabelecimento || source.descricao;
+
+  switch (condition.type) {
+    case 'contains': {
+      const needle = normalizeHeader(condition.value);
+      return needle !== '' && normalizeHeader(`${source.descricao} ${source.estabelecimento || ''}`).includes(needle);
+    }
+    case 'regex': {
+      const regex = compiledRegex(condition);
+      const test = (text: string) => regex.test(text.slice(0, MAX_REGEX_INPUT_LENGTH));
+      return test(source.descricao) || (!!source.estabelecimento && test(source.estabelecimento));
+    }
+    case 'merchant-equals':
+      return normalizeHeader(merchant) === normalizeHeader(condition.value);
+    case 'amount-range':
+      return (condition.minCentavos === undefined || source.valorCentavos >= condition.minCentavos) &&
+        (condition.maxCentavos === undefined || source.valorCentavos <= condition.maxCentavos);
+  }
+};
+
+/**
+ * First enabled rule whose conditions all match the transaction
+ */
+export const findMatchingRule = (
+  rules: ClassificationRule[],
+  source: SourceTransaction
+): ClassificationRule | undefined =>
+  rules.find(rule => rule.enabled && rule.conditions.length > 0 &&
+    rule.conditions.every(condition => matchesCondition(condition, source)));
+
+/**
+ * Run the rules over locally read transactions. The first matching rule wins:
+ * "ignore" drops the row, "categoria" classifies it, and a bare "tipo" override
+ * only fixes the sign before the row goes to the LLM.
+ */
+export const applyRules = (sources: SourceTransaction[], rules: ClassificationRule[]): RuleApplication => {
+  const hits = new Map(rules.map(rule => [rule.id, 0]));
+  const classified: RuleClassification[] = [];
+  const remaining: SourceTransaction[] = [];
+  let ignored = 0;
+
+  sources.forEach(source => {
+    const rule = findMatchingRule(rules, source);
+    if (!rule) {
+      remaining.push(source);
+      return;
+    }
+
+    hits.set(rule.id, (hits.get(rule.id) || 0) + 1);
+    const overridden = rule.action.tipo ? { ...source, tipo: rule.action.tipo } : source;
+
+    if (rule.action.ignore) {
+      ignored++;
+    } else if (rule.action.categoria) {
+      classified.push({ source: overridden, rule });
+    } else {
+      remaining.push(overridden);
+    }
+  });
+
+  return {
+    classified,
+    remaining,
+    stats: {
+      classifiedByRules: classified.length,
+      ignored,
+      sentToLLM: remaining.length,
+      hits: rules.map(rule => ({ ruleId: rule.id, name: rule.name, hits: hits.get(rule.id) || 0 })),
+    },
+  };
+};
+
+/**
+ * Validate a single condition
+ */
+const parseCondition = (input: unknown, path: string): RuleCondition => {
+  const condition = input as Record<string, unknown> | null;
+  if (!condition || typeof condition !== 'object') {
+    throw new Error(`${path} must be an object`);
+  }
+
+  switch (condition.type) {
+    case 'contains':
+    case 'merchant-equals':
+      if (typeof condition.value !== 'string' || condition.value.trim() === '') {
+        throw new Error(`${path}.value must be a non-empty string`);
+      }
+      return { type: condition.type, value: condition.value };
+    case 'regex': {
+      if (typeof condition.pattern !== 'string' || condition.pattern === '') {
+        throw new Error(`${path}.pattern must be a non-empty string`);
+      }
+      if (condition.pattern.length > MAX_REGEX_LENGTH) {
+        throw new Error(`${path}.pattern must have at most ${MAX_REGEX_LENGTH} characters`);
+      }
+      if (hasNestedQuantifier(condition.pattern)) {
+        throw new Error(`${path}.pattern must not repeat a group that already repeats, like (a+)+`);
+      }
+      const flags = condition.flags === undefined ? undefined : String(condition.flags);
+      if (flags !== undefined && !REGEX_FLAGS.test(flags)) {
+        throw new Error(`${path}.flags may only contain i, m, s or u`);
+      }
+      const parsed: RuleCondition = { type: 'regex', pattern: condition.pattern, ...(flags !== undefined ? { flags } : {}) };
+      try {
+        compiledRegex(parsed);
+      } catch (error) {
+        throw new Error(`${path}.pattern is not a valid regular expression: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      return parsed;
+    }
+    case 'amount-range': {
+      const bound = (key: 'minCentavos' | 'maxCentavos') => {
+        const value = condition[key];
+        if (value === undefined || value === null) return undefined;
+        if (!Number.isInteger(value) || (value as number) < 0) {
+          throw new Error(`${path}.${key} must be a non-negative integer (centavos)`);
+        }
+        return value as number;
+      };
+      const minCentavos = bound('minCentavos');
+      const maxCentavos = bound('maxCentavos');
+      if (minCentavos === undefined && maxCentavos === undefined) {
+        throw new Error(`${path} needs minCentavos and/or maxCentavos`);
+      }
+      return {
+        type: 'amount-range',
+        ...(minCentavos !== undefined ? { minCentavos } : {}),
+        ...(maxCentavos !== undefined ? { maxCentavos } : {}),
+      };
+    }
+    default:
+      throw new Error(`${path}.type must be one of: ${RULE_CONDITION_TYPES.join(', ')}`);
+  }
+};
+
+/**
+ * Validate rules received in a request body or imported from a file.
+ * Accepts either a bare array or the exported { version, rules } document.
+ */
+export const parseRulesInput = (input: unknown): ClassificationRule[] => {
+  const list = Array.isArray(input) ? input : (input as Partial<RuleSetFile> | null)?.rules;
+  if (!Array.isArray(list)) {
+    throw new Error('rules must be an array (or a { "version": 1, "rules": [...] } document)');
+  }
+  if (list.length > MAX_RULES) {
+    throw new Error(`At most ${MAX_RULES} rules are supported`);
+  }
+
+  const ids = new Set<string>();
+
+  return list.map((item, idx) => {
+    const rule = item as Partial<ClassificationRule> | null;
+    const path = `rules[${idx}]`;
+    if (!rule || typeof rule !== 'object') {
+      throw new Error(`${path} must be an object`);
+    }
+
+    const id = typeof rule.id === 'string' && rule.id.trim() !== '' ? rule.id.trim() : `rule-${idx + 1}`;
+    if (ids.has(id)) {
+      throw new Error(`${path}.id "${id}" is duplicated`);
+    }
+    ids.add(id);
+
+    if (!Array.isArray(rule.conditions) || rule.conditions.length === 0) {
+      throw new Error(`${path}.conditions must be a non-empty array`);
+    }
+    const conditions = rule.conditions.map((condition, cIdx) => parseCondition(condition, `${path}.conditions[${cIdx}]`));
+
+    const action = rule.action as RuleAction | undefined;
+    if (!action || typeof action !== 'object') {
+      throw new Error(`${path}.action must be an object`);
+    }
+    if (action.tipo !== undefined && action.tipo !== 'Entrada' && action.tipo !== 'Saída') {
+      throw new Error(`${path}.action.tipo must be "Entrada" or "Saída"`);
+    }
+    if (action.categoria !== undefined && (typeof action.categoria !== 'string' || action.categoria.trim() === '')) {
+      throw new Error(`${path}.action.categoria must be a non-empty string`);
+    }
+    if (!action.categoria && !action.tipo && !action.ignore) {
+      throw new Error(`${path}.action needs a categoria, a tipo or ignore: true`);
+    }
+
+    return {
+      id,
+      name: typeof rule.name === 'string' && rule.name.trim() !== '' ? rule.name.trim() : id,
+      enabled: rule.enabled !== false,
+      conditions,
+      action: {
+        ...(action.categoria ? { categoria: action.categoria.trim() } : {}),
+        ...(typeof action.empresa === 'string' && action.empresa.trim() !== '' ? { empresa: action.empresa.trim() } : {}),
+        ...(action.tipo ? { tipo: action.tipo } : {}),
+        ...(action.ignore ? { ignore: true } : {}),
+      },
+    };
+  });
+};
@@ -0,0 +1,238 @@
+// Local column detection for generic CSVs: finds the date, amount (or debit/credit),
+// description and merchant columns so values and dates are parsed here, never copied by the LLM.
+// Shared with the browser client (column-mapping preview), so no Node-only imports.
+
+import { looksLikeValor, normalizeHeader, parseISODate, parseValorBrasileiro } from './value-parsers';
+import { SignConvention, SourceTransaction, tipoFromSignedValue } from './source-transactions';
+
+export type ColumnRole = 'data' | 'valor' | 'debito' | 'credito' | 'descricao' | 'estabelecimento' | 'ignorar';
+
+export interface ColumnMapping {
+  headerRow: number;
+  roles: ColumnRole[]; // One role per column of the header row
+  signConvention: SignConvention; // Only used for the "valor" column; debit/credit columns are unambiguous
+  presetId?: string; // Set when the mapping is an unchanged bank preset
+}
+
+export const COLUMN_ROLES: ColumnRole[] = ['data', 'valor', 'debito', 'credito', 'descricao', 'estabelecimento', 'ignorar'];
+
+export interface MappingApplication {
+  sources: SourceTransaction[];
+  skippedRows: number;
+}
+
+const HEADER_SCAN_LIMIT = 15;
+const SAMPLE_ROWS = 50;
+const MIN_MATCH_RATIO = 0.8;
+
+const HEADER_PATTERNS: Record<Exclude<ColumnRole, 'ignorar'>, RegExp> = {
+  data: /^(data|date|dt|dia)\b/,
+  valor: /\b(valor|amount|quantia|montante|importe)\b/,
+  debito: /\b(debito|debit|saida|saidas|saque)\b/,
+  credito: /\b(credito|credit|entrada|entradas|deposito)\b/,
+  descricao: /\b(descricao|description|historico|title|titulo|memo|detalhe|detalhes|lancamento)\b/,
+  estabelecimento: /\b(estabelecimento|merchant|loja|favorecido|beneficiario|empresa|payee|origem destino)\b/,
+};
+
+const IGNORED_HEADER = /\b(saldo|balance|cotacao|us|usd|dolar)\b/;
+
+const ratio = (values: string[], predicate: (value: string) => boolean): number => {
+  const filled = values.filter(value => value !== '');
+  return filled.length === 0 ? 0 : filled.filter(predicate).length / filled.length;
+};
+
+/**
+ * Find the header row: a row without dates followed by a row that has a date cell
+ */
+const findHeaderRow = (rows: string[][]): number => {
+  const limit = Math.min(rows.length - 1, HEADER_SCAN_LIMIT);
+  for (let i = 0; i < limit; i++) {
+    const filled = rows[i].filter(cell => cell !== '');
+    const isHeader = filled.length >= 2 && filled.every(cell => !parseISODate(cell));
+    if (isHeader && rows[i + 1].some(cell => parseISODate(cell))) {
+      return i;
+    }
+  }
+  return -1;
+};
+
+/**
+ * Detect the role of each column from header names and cell contents.
+ * Returns null when no date, amount or description column can be identified,
+ * in which case the caller should fall back to letting the LLM read the CSV.
+ */
+export const detectColumnMapping = (
+  rows: string[][],
+  signConvention: SignConvention = 'positive-is-expense'
+): ColumnMapping | null => {
+  const headerRow = findHeaderRow(rows);
+  if (headerRow === -1) return null;
+
+  const headers = rows[headerRow].map(normalizeHeader);
+  const sample = rows.slice(headerRow + 1, headerRow + 1 + SAMPLE_ROWS);
+  const columnValues = headers.map((_, idx) => sample.map(row => (row[idx] || '').trim()));
+
+  const roles: ColumnRole[] = headers.map(() => 'ignorar');
+  const taken = (role: ColumnRole) => roles.includes(role);
+
+  const isDateColumn = (idx: number) => ratio(columnValues[idx], value => !!parseISODate(value)) >= MIN_MATCH_RATIO;
+  const isValorColumn = (idx: number) =>
+    ratio(columnValues[idx], value => looksLikeValor(value) && !parseISODate(value)) >= MIN_MATCH_RATIO;
+  const isTextColumn = (idx: number) =>
+    ratio(columnValues[idx], value => !looksLikeValor(value) && !parseISODate(value)) >= MIN_MATCH_RATIO;
+
+  // 1. Roles by header name, confirmed by contents
+  headers.forEach((header, idx) => {
+    if (IGNORED_HEADER.test(header) && !HEADER_PATTERNS.data.test(header)) return;
+
+    if (!taken('data') && HEADER_PATTERNS.data.test(header) && isDateColumn(idx)) {
+      roles[idx] = 'data';
+    } else if (!taken('debito') && HEADER_PATTERNS.debito.test(header) && isValorColumn(idx)) {
+      roles[idx] = 'debito';
+    } else if (!taken('credito') && HEADER_PATTERNS.credito.test(header) && isValorColumn(idx)) {
+      roles[idx] = 'credito';
+    } else if (!taken('valor') && HEADER_PATTERNS.valor.test(header) && isValorColumn(idx)) {
+      roles[idx] = 'valor';
+    } else if (!taken('estabelecimento') && HEADER_PATTERNS.estabelecimento.test(header) && isTextColumn(idx)) {
+      roles[idx] = 'estabelecimento';
+    } else if (!taken('descricao') && HEADER_PATTERNS.descricao.test(header) && isTextColumn(idx)) {
+      roles[idx] = 'descricao';
+    }
+  });
+
+  // 2. Fallback by contents for whatever is still missing
+  if (!taken('data')) {
+    const idx = headers.findIndex((_, i) => roles[i] === 'ignorar' && isDateColumn(i));
+    if (idx !== -1) roles[idx] = 'data';
+  }
+
+  if (!taken('valor') && !(taken('debito') || taken('credito'))) {
+    const idx = headers.findIndex((header, i) => roles[i] === 'ignorar' && !IGNORED_HEADER.test(header) && isValorColumn(i));
+    if (idx !== -1) roles[idx] = 'valor';
+  }
+
+  if (!taken('descricao')) {
+    // The free-text column with the longest average content
+    const averageLength = (idx: number) =>
+      columnValues[idx].reduce((sum, value) => sum + value.length, 0) / Math.max(columnValues[idx].length, 1);
+    const candidates = headers
+      .map((_, idx) => idx)
+      .filter(idx => roles[idx] === 'ignorar' && isTextColumn(idx))
+      .sort((a, b) => averageLength(b) - averageLength(a));
+
+    if (candidates.length > 0) {
+      roles[candidates[0]] = 'descricao';
+    } else {
+      const estabelecimentoIdx = roles.indexOf('estabelecimento');
+      if (estabelecimentoIdx !== -1) roles[estabelecimentoIdx] = 'descricao';
+    }
+  }
+
+  const mapping: ColumnMapping = { headerRow, roles, signConvention };
+  return isCompleteMapping(mapping) ? mapping : null;
+};
+
+/**
+ * Check that a mapping has the roles needed to read transactions
+ */
+export const isCompleteMapping = (mapping: ColumnMapping): boolean => {
+  const has = (role: ColumnRole) => mapping.roles.includes(role);
+  return has('data') && has('descricao') && (has('valor') || has('debito') || has('credito'));
+};
+
+/**
+ * Validate a mapping received in a request body
+ */
+export const parseColumnMappingInput = (input: unknown): ColumnMapping => {
+  const mapping = input as Partial<ColumnMapping> | null;
+
+  if (!mapping || typeof mapping !== 'object') {
+    throw new Error('columnMapping must be an object');
+  }
+  if (!Number.isInteger(mapping.headerRow) || mapping.headerRow < 0) {
+    throw new Error('columnMapping.headerRow must be a non-negative integer');
+  }
+  if (!Array.isArray(mapping.roles) || mapping.roles.some(role => !COLUMN_ROLES.includes(role))) {
+    throw new Error(`columnMapping.roles must only contain: ${COLUMN_ROLES.join(', ')}`);
+  }
+  if (mapping.signConvention !== 'positive-is-expense' && mapping.signConvention !== 'negative-is-expense') {
+    throw new Error('columnMapping.signConvention must be "positive-is-expense" or "negative-is-expense"');
+  }
+
+  const parsed: ColumnMapping = {
+    headerRow: mapping.headerRow,
+    roles: mapping.roles,
+    signConvention: mapping.signConvention,
+    ...(typeof mapping.presetId === 'string' ? { presetId: mapping.presetId } : {}),
+  };
+
+  if (!isCompleteMapping(parsed)) {
+    throw new Error('columnMapping needs a "data" column, a "descricao" column and a "valor" (or "debito"/"credito") column');
+  }
+
+  return parsed;
+};
+
+/**
+ * Convert the rows below the header into source transactions using the mapping.
+ * Rows without a valid date or any value (totals, footers) are skipped.
+ */
+export const applyColumnMapping = (rows: string[][], mapping: ColumnMapping): MappingApplication => {
+  const { headerRow, roles, signConvention } = mapping;
+  const indexesOf = (role: ColumnRole) => roles.map((r, idx) => (r === role ? idx : -1)).filter(idx => idx !== -1);
+
+  const [dataIdx] = indexesOf('data');
+  const [valorIdx] = indexesOf('valor');
+  const [debitoIdx] = indexesOf('debito');
+  const [creditoIdx] = indexesOf('credito');
+  const descricaoIdx = indexesOf('descricao');
+  const [estabelecimentoIdx] = indexesOf('estabelecimento');
+
+  const cell = (row: string[], idx: number | undefined) => (idx === undefined ? '' : (row[idx] || '').trim());
+
+  const sources: SourceTransaction[] = [];
+  let skippedRows = 0;
+
+  rows.slice(headerRow + 1).forEach(row => {
+    const data = parseISODate(cell(row, dataIdx));
+    const valor = cell(row, valorIdx);
+    const debito = cell(row, debitoIdx);
+    const credito = cell(row, creditoIdx);
+    const descricao = descricaoIdx.map(idx => cell(row, idx)).filter(part => part !== '').join(' - ');
+    const estabelecimento = cell(row, estabelecimentoIdx);
+
+    let tipo: 'Entrada' | 'Saída';
+    let valorCentavos: number;
+
+    if (valor !== '') {
+      const signed = parseValorBrasileiro(valor);
+      tipo = tipoFromSignedValue(signed, signConvention);
+      valorCentavos = Math.abs(signed);
+    } else if (debito !== '' && parseValorBrasileiro(debito) !== 0) {
+      tipo = 'Saída';
+      valorCentavos = Math.abs(parseValorBrasileiro(debito));
+    } else if (credito !== '' && parseValorBrasileiro(credito) !== 0) {
+      tipo = 'Entrada';
+      valorCentavos = Math.abs(parseValorBrasileiro(credito));
+    } else {
+      skippedRows++;
+      return;
+    }
+
+    if (!data) {
+      skippedRows++;
+      return;
+    }
+
+    sources.push({
+      id: sources.length + 1,
+      tipo,
+      data,
+      valorCentavos,
+      descricao: descricao || estabelecimento,
+      ...(estabelecimento ? { estabelecimento } : {}),
+    });
+  });
+
+  return { sources, skippedRows };
+};
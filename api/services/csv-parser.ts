@@ -0,0 +1,169 @@
+// RFC 4180 CSV tokenizer shared by the API and the browser client.
+// Keep this module free of Node-only imports: the frontend imports it through the @api alias.
+
+export type CSVDelimiter = ',' | ';' | '\t' | '|';
+
+export type TextEncodingName = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export interface ParsedCSV {
+  rows: string[][];
+  delimiter: CSVDelimiter;
+  hadBOM: boolean;
+}
+
+export interface DecodedText {
+  text: string;
+  encoding: TextEncodingName;
+}
+
+const CANDIDATE_DELIMITERS: CSVDelimiter[] = [',', ';', '\t', '|'];
+const DELIMITER_SAMPLE_LINES = 20;
+
+/**
+ * Tokenize CSV content with the given delimiter.
+ * Handles quoted fields, escaped quotes (""), quoted newlines and CRLF/CR/LF line endings.
+ * Blank lines are skipped and every field is trimmed.
+ */
+export const tokenizeCSV = (content: string, delimiter: CSVDelimiter): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const pushField = () => {
+    row.push(field.trim());
+    field = '';
+  };
+
+  const pushRow = () => {
+    pushField();
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (content[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field.trim() === '') {
+      field = '';
+      inQuotes = true;
+    } else if (char === delimiter) {
+      pushField();
+    } else if (char === '\r') {
+      if (content[i + 1] === '\n') i++;
+      pushRow();
+    } else if (char === '\n') {
+      pushRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    pushRow();
+  }
+
+  return rows;
+};
+
+/**
+ * Detect the delimiter by picking the candidate that splits the most sample lines into the
+ * same number of columns (preamble lines like "Extrato Conta Corrente" are tolerated)
+ */
+export const detectDelimiter = (content: string): CSVDelimiter => {
+  // Only look at the first lines, cutting at a line break so quoted fields stay intact in most cases
+  const sample = content.split(/\r?\n/).slice(0, DELIMITER_SAMPLE_LINES).join('\n');
+
+  let best: { delimiter: CSVDelimiter; consistentRows: number; columns: number } = {
+    delimiter: ',',
+    consistentRows: 0,
+    columns: 1,
+  };
+
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    // Most frequent column count (at least 2 columns) across the sample
+    const counts = new Map<number, number>();
+    tokenizeCSV(sample, delimiter)
+      .filter(row => row.length >= 2)
+      .forEach(row => counts.set(row.length, (counts.get(row.length) || 0) + 1));
+
+    counts.forEach((consistentRows, columns) => {
+      if (
+        consistentRows > best.consistentRows ||
+        (consistentRows === best.consistentRows && columns > best.columns)
+      ) {
+        best = { delimiter, consistentRows, columns };
+      }
+    });
+  }
+
+  return best.delimiter;
+};
+
+/**
+ * Parse CSV content: strips the BOM, detects the delimiter (unless given) and tokenizes
+ */
+export const parseCSV = (content: string, delimiter?: CSVDelimiter): ParsedCSV => {
+  const hadBOM = content.charCodeAt(0) === 0xfeff;
+  const text = hadBOM ? content.slice(1) : content;
+  const detected = delimiter || detectDelimiter(text);
+
+  return {
+    rows: tokenizeCSV(text, detected),
+    delimiter: detected,
+    hadBOM,
+  };
+};
+
+/**
+ * Serialize a row back to CSV, quoting fields only when needed
+ */
+export const serializeCSVRow = (row: string[], delimiter: CSVDelimiter = ','): string =>
+  row
+    .map(field => {
+      const value = field ?? '';
+      return value.includes(delimiter) || /["\r\n]/.test(value)
+        ? `"${value.replace(/"/g, '""')}"`
+        : value;
+    })
+    .join(delimiter);
+
+/**
+ * Decode raw file bytes, detecting UTF-8/UTF-16 by BOM and falling back to
+ * Windows-1252 (a superset of Latin-1) when the bytes are not valid UTF-8
+ */
+export const decodeTextBuffer = (buffer: ArrayBuffer | Uint8Array): DecodedText => {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { text: new TextDecoder('utf-8').decode(bytes.subarray(3)), encoding: 'utf-8' };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { text: new TextDecoder('utf-16le').decode(bytes.subarray(2)), encoding: 'utf-16le' };
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { text: new TextDecoder('utf-16be').decode(bytes.subarray(2)), encoding: 'utf-16be' };
+  }
+
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'utf-8' };
+  } catch {
+    return { text: new TextDecoder('windows-1252').decode(bytes), encoding: 'windows-1252' };
+  }
+};
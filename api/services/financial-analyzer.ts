@@ -1,9 +1,27 @@
-import OpenAI from 'openai';
+import { parseCSV, serializeCSVRow } from './csv-parser';
+import { isOFXContent, parseOFX, describeOFXTransaction } from './ofx-parser';
+import { detectBankPreset, applyBankPreset } from './bank-presets';
+import { detectColumnMapping, applyColumnMapping, ColumnMapping, ColumnRole } from './column-mapping';
+import { CLASSIFICATION_TEXT_COLUMNS, SignConvention, SourceTransaction, StatementType, buildClassificationRows, tipoFromSignedValue, withInstallments } from './source-transactions';
+import { StatementTypeOption, detectStatementType, signConventionFor, statementTypeFor } from './statement-type';
+import { parseValorBrasileiro } from './value-parsers';
+import { AnalysisFile, DuplicateTransaction, mergeSourceGroups } from './source-merge';
+import { parseInstallment } from './installments';
+import { ClassificationRule, RuleStats, applyRules, findMatchingRule } from './classification-rules';
+import { MerchantMemoryEntry, MerchantMemoryStats, merchantKeyOf } from './merchant-memory';
+import { LLMProvider, OutputCoercion, ValidatedOutput, chatWithSchema, getLLMProvider, meterProvider } from './llm-provider';
+import { BatchClassificationOutput, batchClassificationSchemas, generalAnalysisSchemas } from './llm-schemas';
+import { runPool } from './worker-pool';
+import { CacheReport, CacheStats, emptyCacheReport, hashKey } from './response-cache';
+import { UsageMeter, UsageReport, createUsageMeter } from './llm-usage';
+import { RedactionReport, addRedactionReport, emptyRedactionReport, redactRows, restoreText } from './pii-redaction';
+import { RowReconciliation, batchRowIds, emptyReconciliation, reconcileBatch, withRowIds } from './row-reconciliation';
+import { AnalysisMode, OFFLINE_DICTIONARY, OFFLINE_FALLBACK_CATEGORIES, buildOfflineGeneralAnalysis, classifyOffline, matchOfflineDictionary } from './offline-analysis';
+import { ANALYSIS_PROMPTS, CLASSIFICATION_PROMPTS, PromptVersions, renderPrompt } from './prompt-templates';
+import { CategoryTaxonomy, DEFAULT_TAXONOMY, formatTaxonomyForPrompt, resolveCategory } from './category-taxonomy';
 
-// Initialize OpenAI client with proper server-side configuration
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY, // Server-side environment variable
-});
+// Who decided a transaction's category; 'usuario' is a correction or confirmation in the app
+export type ClassificationSource = 'regra' | 'memoria' | 'ia' | 'dicionario' | 'usuario';
 
 // Types for financial data (moved from src/types to avoid import issues)
 export interface TransactionData {
@@ -15,6 +33,18 @@ export interface TransactionData {
   empresa: string;
   descricao: string;
   data: Date;
+  externalId?: string; // Stable id from the source file (e.g. OFX FITID)
+  origem?: string; // Uploaded file, when several files are analysed together
+  merchantKey?: string; // Merchant memory key of the source row, so user corrections can be remembered
+  parcela?: {
+    atual: number;
+    total: number;
+    valorOriginalCentavos: number; // Whole purchase: installment value × total
+  };
+  confianca?: number; // 0–1, how sure the classifier is of the category (absent: not reported)
+  motivo?: string; // Why this category: the LLM's rationale, or the rule/entry that matched
+  classificadoPor?: ClassificationSource;
+  conflito?: string; // Category a matching rule or dictionary entry suggests instead
 }
 
 export interface FinancialInsights {
@@ -65,44 +95,80 @@ export interface GeneralAnalysis {
   com_isso_voce_podia: string[];
 }
 
+// How the uploaded content was read
+export interface ImportInfo {
+  format: 'csv' | 'ofx' | 'multi';
+  delimiter?: string;
+  statementType?: StatementType;
+  statementTypeSource?: 'user' | 'preset' | 'ofx' | 'detected';
+  statementTypeReason?: string; // Why auto-detection picked the statement type, in Portuguese
+  preset?: {
+    id: string;
+    name: string;
+  };
+  columns?: Array<{
+    header: string;
+    role: ColumnRole;
+  }>;
+  skippedRows?: number;
+  files?: Array<ImportInfo & { // Per-file details when several files were merged
+    name: string;
+    transactionCount: number;
+  }>;
+  duplicates?: DuplicateTransaction[]; // Copies dropped while merging files or repeated within an OFX file
+}
+
 export interface CSVAnalysisResult {
   transactions: TransactionData[];
   insights: FinancialInsights;
   generalAnalysis: GeneralAnalysis;
   summary: string;
+  importInfo: ImportInfo;
+  ruleStats?: RuleStats; // Present when rules were sent with the request
+  merchantMemory?: MerchantMemoryStats; // Present when a merchant memory was sent with the request
+  analysisMode: 'llm' | 'offline'; // offline: dictionary classification and templated general analysis
+  validation?: OutputValidationReport; // Present when the LLM was used
+  reconciliation?: RowReconciliation; // Rows sent to the LLM vs rows it returned (LLM only)
+  cache?: CacheReport; // Response cache hits per stage (LLM only)
+  redaction?: RedactionReport; // Personal data masked before the batches were sent (LLM with redaction on)
+  usage?: UsageReport; // Tokens and estimated cost of the LLM calls (LLM only)
+  promptVersions?: PromptVersions; // Prompt template versions used (LLM only)
 }
 
-// Interface for batch classification results
-interface BatchClassificationResult {
-  transactions: {
-    id: number;
-    tipo: 'Entrada' | 'Saída';
-    valorOriginal: string;
-    categoria: string;
-    empresa: string;
-    descricao: string;
-    data: string;
-  }[];
-  batch_summary: string;
+// What it took to get schema-valid output from the LLM
+export interface OutputValidationReport {
+  repairs: number; // Repair prompts sent, all stages together
+  coercions: OutputCoercion[]; // Fields coerced or defaulted once the repairs ran out
+}
+
+// Batch classification results, as validated by the schema
+// (valorOriginal, data and tipo only come back when the LLM reads the raw CSV)
+type BatchClassificationResult = BatchClassificationOutput;
+
+// Options chosen by the user for a single analysis
+export interface AnalysisOptions {
+  columnMapping?: ColumnMapping; // Confirmed in the upload preview; skips local column detection
+  statementType?: StatementTypeOption; // Drives how signs map to Entrada/Saída; defaults to 'auto'
+  rules?: ClassificationRule[]; // Evaluated before the LLM; matched rows are never sent to it
+  merchantMemory?: MerchantMemoryEntry[]; // Known merchants, consulted after the rules
+  mode?: AnalysisMode; // Defaults to 'auto': the LLM when one is configured, else offline
+  budgetUSD?: number; // Stop calling the LLM once this much is spent (capped by LLM_BUDGET_USD)
+  promptVersions?: Partial<PromptVersions>; // Override the configured prompt versions (A/B comparisons)
+  taxonomy?: CategoryTaxonomy; // Categories every classification is mapped onto; defaults to DEFAULT_TAXONOMY
 }
 
-// Progress callback interface
+// Options that apply to the whole analysis, whatever the number of files
+type LocalClassificationOptions = Pick<AnalysisOptions, 'rules' | 'merchantMemory' | 'mode' | 'budgetUSD' | 'promptVersions' | 'taxonomy'>;
+
+// Progress callback interface. Batches run concurrently, so events arrive in any order:
+// count completions instead of relying on batchNumber
 export interface ProgressCallback {
   onBatchStart?: (batchNumber: number, totalBatches: number) => void;
-  onBatchComplete?: (batchNumber: number, totalBatches: number, batchResult: TransactionData[]) => void;
+  onBatchComplete?: (batchNumber: number, totalBatches: number, batchResult: TransactionData[], usage?: UsageReport) => void; // usage: analysis so far
+  onBatchFailed?: (batchNumber: number, totalBatches: number, error: string) => void; // Rows left unclassified
+  onCacheStats?: (cache: CacheReport) => void; // Once the LLM stages are done
 }
 
-/**
- * Parse CSV content into array of rows
- */
-const parseCSVContent = (csvContent: string): string[][] => {
-  const lines = csvContent.trim().split('\n');
-  return lines.map(line => {
-    // Simple CSV parsing - can be improved to handle commas inside quotes
-    return line.split(',').map(cell => cell.trim().replace(/^"|"$/g, ''));
-  });
-};
-
 /**
  * Create batches from CSV rows
  */
@@ -119,27 +185,175 @@ const createBatches = (rows: string[][], batchSize: number = 30): string[][][] =
   return batches;
 };
 
+// Rows sent to the LLM plus everything read locally from the upload
+interface AnalysisInput {
+  rows: string[][];
+  sources?: SourceTransaction[];
+  signConvention: SignConvention;
+  importInfo: ImportInfo;
+}
+
 /**
- * Parse Brazilian currency format to cents
+ * Read the uploaded content. OFX statements and CSVs from known bank presets become
+ * source transactions (value, date and sign parsed locally); other CSVs are sent as-is.
  */
-const parseValorBrasileiro = (valor: string): number => {
-  if (!valor || typeof valor !== 'string') return 0;
-  
-  // Remove any currency symbols and spaces
-  let cleanValue = valor.replace(/[R$\s]/g, '');
-  
-  // Handle different decimal formats
-  if (cleanValue.includes(',') && cleanValue.includes('.')) {
-    // Format: 1.234,56 (thousands separator . and decimal ,)
-    cleanValue = cleanValue.replace(/\./g, '').replace(',', '.');
-  } else if (cleanValue.includes(',')) {
-    // Format: 1234,56 or 12,34 (decimal comma)
-    cleanValue = cleanValue.replace(',', '.');
+const readInput = (content: string, options: AnalysisOptions): AnalysisInput => {
+  if (isOFXContent(content)) {
+    const statement = parseOFX(content);
+    console.log(`🏦 OFX ${statement.version}.x statement (${statement.accountType}) with ${statement.transactions.length} transactions, ${statement.duplicates.length} repeated blocks dropped`);
+
+    // OFX amounts are from the account holder's perspective: negative = debit
+    const sources = withInstallments(statement.transactions.map((transaction, index) => ({
+      id: index + 1,
+      tipo: tipoFromSignedValue(transaction.valorCentavos, 'negative-is-expense'),
+      data: transaction.data,
+      valorCentavos: Math.abs(transaction.valorCentavos),
+      descricao: describeOFXTransaction(transaction),
+      externalId: transaction.fitId,
+    })), statement.accountType);
+
+    return {
+      rows: buildClassificationRows(sources),
+      sources,
+      signConvention: 'negative-is-expense',
+      importInfo: {
+        format: 'ofx',
+        statementType: statement.accountType,
+        statementTypeSource: 'ofx',
+        // Repeated within the file: the file name is filled in when files are merged
+        duplicates: statement.duplicates.map(transaction => ({
+          origem: '',
+          duplicateOf: '',
+          reason: 'externalId' as const,
+          tipo: tipoFromSignedValue(transaction.valorCentavos, 'negative-is-expense'),
+          data: transaction.data,
+          valorCentavos: Math.abs(transaction.valorCentavos),
+          descricao: describeOFXTransaction(transaction),
+        })),
+      },
+    };
   }
-  // Format: 1234.56 (decimal point) - no change needed
-  
-  const numValue = parseFloat(cleanValue);
-  return Math.round(numValue * 100); // Convert to cents
+
+  const { rows, delimiter } = parseCSV(content);
+  console.log('🔎 Detected delimiter:', JSON.stringify(delimiter));
+
+  // An explicit statement type always wins over presets and detection
+  const { columnMapping, statementType = 'auto' } = options;
+  const chosenType = statementType === 'auto' ? undefined : statementType;
+
+  // A preset is used unless the user confirmed a different mapping in the preview
+  const presetMatch = detectBankPreset(rows);
+  if (presetMatch && (!columnMapping || columnMapping.presetId === presetMatch.preset.id)) {
+    const preset = chosenType
+      ? { ...presetMatch.preset, statementType: chosenType, signConvention: signConventionFor(chosenType) }
+      : presetMatch.preset;
+    const applied = applyBankPreset(rows, { ...presetMatch, preset });
+    const sources = withInstallments(applied.sources, preset.statementType);
+    const { skippedRows } = applied;
+    console.log(`🏦 Bank preset "${preset.name}" applied: ${sources.length} transactions, ${skippedRows} rows skipped`);
+
+    return {
+      rows: buildClassificationRows(sources),
+      sources,
+      signConvention: preset.signConvention,
+      importInfo: {
+        format: 'csv',
+        delimiter,
+        statementType: preset.statementType,
+        statementTypeSource: chosenType ? 'user' : 'preset',
+        preset: { id: preset.id, name: preset.name },
+        skippedRows,
+      },
+    };
+  }
+
+  const detectedMapping = columnMapping ? null : detectColumnMapping(rows);
+  if (columnMapping || detectedMapping) {
+    let mapping = (columnMapping || detectedMapping) as ColumnMapping;
+    if (mapping.headerRow >= rows.length) {
+      throw new Error(`Header row ${mapping.headerRow + 1} does not exist in the CSV`);
+    }
+
+    // A mapping confirmed in the preview already carries the user's sign convention
+    const valorIdx = mapping.roles.indexOf('valor');
+    const detection = !chosenType && detectedMapping
+      ? detectStatementType(rows, mapping.headerRow, valorIdx === -1 ? undefined : valorIdx)
+      : null;
+    const resolvedType = chosenType || detection?.statementType || statementTypeFor(mapping.signConvention);
+    mapping = { ...mapping, signConvention: signConventionFor(resolvedType) };
+
+    const applied = applyColumnMapping(rows, mapping);
+    const sources = withInstallments(applied.sources, resolvedType);
+    const { skippedRows } = applied;
+    console.log(`🧭 Columns ${columnMapping ? 'mapped by the user' : 'detected locally'}: ${sources.length} transactions, ${skippedRows} rows skipped`);
+    console.log(`💳 Statement type: ${resolvedType}${detection ? ` (${detection.reason})` : ''}`);
+
+    return {
+      rows: buildClassificationRows(sources),
+      sources,
+      signConvention: mapping.signConvention,
+      importInfo: {
+        format: 'csv',
+        delimiter,
+        statementType: resolvedType,
+        statementTypeSource: detection ? 'detected' : 'user',
+        ...(detection ? { statementTypeReason: detection.reason } : {}),
+        columns: rows[mapping.headerRow].map((header, idx) => ({ header, role: mapping.roles[idx] })),
+        skippedRows,
+      },
+    };
+  }
+
+  const detection = chosenType ? null : detectStatementType(rows);
+  const resolvedType = chosenType || detection?.statementType || 'cartao';
+  console.log('⚠️ Columns not recognised locally, the LLM will read values and dates');
+  console.log(`💳 Statement type: ${resolvedType}${detection ? ` (${detection.reason})` : ''}`);
+
+  return {
+    rows,
+    signConvention: signConventionFor(resolvedType),
+    importInfo: {
+      format: 'csv',
+      delimiter,
+      statementType: resolvedType,
+      statementTypeSource: detection ? 'detected' : 'user',
+      ...(detection ? { statementTypeReason: detection.reason } : {}),
+    },
+  };
+};
+
+/**
+ * Read several files and merge them into one list of source transactions.
+ * Every file must be readable locally: the LLM cannot merge or de-duplicate raw CSVs.
+ */
+const readFiles = (files: AnalysisFile[]): AnalysisInput => {
+  const groups = files.map(file => {
+    const input = readInput(file.content, { columnMapping: file.columnMapping, statementType: file.statementType });
+    if (!input.sources) {
+      throw new Error(`Columns of "${file.name}" were not recognised; confirm the column mapping before combining files`);
+    }
+    return { origem: file.name, sources: input.sources, importInfo: input.importInfo };
+  });
+
+  const merged = mergeSourceGroups(groups);
+  const sources = merged.sources;
+  const duplicates = [
+    ...groups.flatMap(group => (group.importInfo.duplicates || []).map(duplicate => ({ ...duplicate, origem: group.origem, duplicateOf: group.origem }))),
+    ...merged.duplicates,
+  ];
+  console.log(`🔗 ${files.length} files merged: ${sources.length} transactions, ${duplicates.length} duplicates dropped`);
+
+  return {
+    rows: buildClassificationRows(sources),
+    sources,
+    signConvention: 'positive-is-expense', // Unused: every source already carries its tipo
+    importInfo: {
+      format: 'multi',
+      files: groups.map(({ importInfo: { duplicates: _, ...importInfo }, origem, sources: groupSources }) =>
+        ({ ...importInfo, name: origem, transactionCount: groupSources.length })),
+      duplicates,
+    },
+  };
 };
 
 /**
@@ -169,98 +383,92 @@ const parseDateBrasileira = (dateStr: string): Date => {
   return new Date(dateStr);
 };
 
-/**
- * Parse category path from string
- */
-const parseCategoriaPath = (categoria: string): string[] => {
-  if (!categoria) return ['Outros'];
-  return categoria.split(' > ').map(cat => cat.trim());
-};
+// Ceiling for LLM categories that match nothing in the taxonomy
+const UNCANONICAL_CONFIDENCE = 0.4;
+
+const PLACEHOLDER_RULE = 'Marcadores como [NOME_1], [CPF_1] ou [EMAIL_1] substituem dados pessoais: mantenha-os exatamente como estão em empresa e descricao.';
+
+// Categories offered by the prompts that list them: the offline dictionary's, one per line
+const SUGGESTED_CATEGORIES = Array.from(new Set([
+  ...OFFLINE_DICTIONARY.map(rule => rule.action.categoria),
+  ...Object.values(OFFLINE_FALLBACK_CATEGORIES),
+])).map(categoria => `- ${categoria}`).join('\n');
 
 /**
- * Process a single batch with OpenAI (ONLY CLASSIFICATION)
+ * Process a single batch with the LLM (ONLY CLASSIFICATION)
  */
 const processBatch = async (
+  provider: LLMProvider,
   batchRows: string[][], 
   batchNumber: number,
-  totalBatches: number
-): Promise<BatchClassificationResult> => {
-  const batchCSV = batchRows.map(row => row.join(',')).join('\n');
+  totalBatches: number,
+  withSources: boolean = false,
+  signConvention: SignConvention = 'positive-is-expense',
+  taxonomy: CategoryTaxonomy = DEFAULT_TAXONOMY
+): Promise<ValidatedOutput<BatchClassificationResult> & { redaction: RedactionReport }> => {
+  // Personal data is masked before the prompt is built; the placeholders are restored below
+  const redaction = provider.config.redactPII
+    ? redactRows(batchRows, withSources ? CLASSIFICATION_TEXT_COLUMNS : undefined)
+    : undefined;
+  const sentRows = redaction ? redaction.rows : batchRows;
+  const batchCSV = sentRows.map(row => serializeCSVRow(row)).join('\n');
+  const placeholderRule = redaction ? `${PLACEHOLDER_RULE}\n` : '';
+  const signRule = signConvention === 'positive-is-expense'
+    ? 'valores positivos = gastos = Saída; valores negativos = estornos/reembolsos = Entrada'
+    : 'valores negativos = gastos = Saída; valores positivos = receitas/créditos = Entrada';
   
-  const prompt = `
-Você está classificando transações financeiras. Este é o lote ${batchNumber} de ${totalBatches}.
-
-DADOS DO LOTE:
-${batchCSV}
-
-INSTRUÇÕES:
-1. Processe TODAS as linhas de dados (ignorando header se repetido)
-2. Para cada linha, classifique a transação com:
-   - id: número sequencial (começando em ${(batchNumber - 1) * 30 + 1})
-   - tipo: "Entrada" ou "Saída" (IMPORTANTE: valores positivos = gastos = Saída; valores negativos = estornos/reembolsos = Entrada)
-   - valorOriginal: valor EXATO como aparece no CSV
-   - categoria: use categorização precisa baseada no estabelecimento/descrição
-   - empresa: nome da empresa/estabelecimento
-   - descricao: descrição limpa em português
-   - data: converta para formato YYYY-MM-DD
-
-NÃO CALCULE TOTAIS - apenas classifique!
-
-RETORNE APENAS JSON:
-{
-  "transactions": [
-    {
-      "id": 1, 
-      "tipo": "Saída", 
-      "valorOriginal": "69.99", 
-      "categoria": "Lazer > Streaming", 
-      "empresa": "LinkedIn", 
-      "descricao": "Assinatura LinkedIn", 
-      "data": "2025-08-03"
-    }
-  ],
-  "batch_summary": "Classificadas X transações"
-}`.trim();
+  const promptVersion = provider.config.prompts.classification;
+  const template = CLASSIFICATION_PROMPTS[promptVersion];
+  const promptTemplate = withSources ? template.sources : template.raw;
+  // Only versions that list the taxonomy depend on it (and key the cache on it)
+  const taxonomyList = promptTemplate.includes('{{taxonomy}}') ? formatTaxonomyForPrompt(taxonomy) : '';
+  const prompt = renderPrompt(promptTemplate, {
+    batchNumber,
+    totalBatches,
+    batchCSV,
+    placeholderRule,
+    signRule,
+    suggestedCategories: SUGGESTED_CATEGORIES,
+    taxonomy: taxonomyList,
+  });
 
   console.log(`Processing batch ${batchNumber}/${totalBatches} with ${batchRows.length - 1} rows...`);
   
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4-turbo-preview",
-      messages: [
-        {
-          role: "system",
-          content: "You are a financial transaction classifier. Respond ONLY with valid JSON. Do NOT calculate totals - only classify!"
-        },
-        {
-          role: "user", 
-          content: prompt
-        }
-      ],
+    // Validated against the schema, with repair prompts and coercion as a last resort
+    const batchResult = await chatWithSchema(provider, {
+      stage: 'classification',
+      system: template.system,
+      user: prompt,
       temperature: 0.1,
-      max_tokens: 3000,
-      response_format: { 
-        type: "json_object"
-      },
+      maxTokens: 3000,
+    }, batchClassificationSchemas(withSources), {
+      batch: batchNumber,
+      // The rows, not the batch number: the same rows hit the cache whatever batch they land in
+      // Redacted rows: cached outputs hold placeholders, never the personal data
+      cacheKey: hashKey(promptVersion, provider.config.models.classification, withSources, signConvention, taxonomyList, sentRows),
     });
 
-    const aiResponse = response.choices[0]?.message?.content;
-    
-    if (!aiResponse) {
-      throw new Error(`Empty response from OpenAI for batch ${batchNumber}`);
-    }
+    console.log(`Response for batch ${batchNumber}: ${batchResult.value.transactions.length} transactions, ${batchResult.cached ? 'cached' : `${batchResult.repairs} repairs`}`);
 
-    console.log(`Response for batch ${batchNumber}:`, aiResponse.substring(0, 200) + '...');
-    
-    const cleanResponse = aiResponse.replace(/```json/g, '').replace(/```/g, '').trim();
-    const batchResult = JSON.parse(cleanResponse) as BatchClassificationResult;
-    
-    // Validate structure
-    if (!Array.isArray(batchResult.transactions)) {
-      throw new Error('Missing or invalid "transactions" field');
+    // Whatever the LLM sent in classificadoPor, these rows are its own
+    const transactions = batchResult.value.transactions.map(transaction => ({ ...transaction, classificadoPor: 'ia' as const }));
+    if (!redaction) {
+      return { ...batchResult, value: { ...batchResult.value, transactions }, redaction: emptyRedactionReport() };
     }
-
-    return batchResult;
+    return {
+      ...batchResult,
+      value: {
+        ...batchResult.value,
+        transactions: transactions.map(transaction => ({
+          ...transaction,
+          empresa: restoreText(transaction.empresa, redaction.vault),
+          descricao: restoreText(transaction.descricao, redaction.vault),
+          ...(transaction.motivo ? { motivo: restoreText(transaction.motivo, redaction.vault) } : {}),
+        })),
+      },
+      redaction: redaction.report,
+    };
   } catch (error) {
     console.error(`Error processing batch ${batchNumber}:`, error);
     throw new Error(`Failed to process batch ${batchNumber}: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -268,11 +476,23 @@ RETORNE APENAS JSON:
 };
 
 /**
- * Convert raw classified transactions to structured TransactionData
+ * Convert raw classified transactions to structured TransactionData.
+ * When source transactions are given, value, date and tipo come from the source file
+ * and the LLM only contributes the classification. Categories are mapped onto the taxonomy.
  */
-const convertToTransactionData = (rawTransactions: BatchClassificationResult['transactions']): TransactionData[] => {
+const convertToTransactionData = (
+  rawTransactions: BatchClassificationResult['transactions'],
+  sources?: Map<number, SourceTransaction>,
+  signConvention: SignConvention = 'positive-is-expense',
+  taxonomy: CategoryTaxonomy = DEFAULT_TAXONOMY
+): TransactionData[] => {
   return rawTransactions
     .filter(raw => {
+      // Drop rows the LLM invented when we know which rows exist
+      if (sources && !sources.has(Number(raw.id))) {
+        return false;
+      }
+
       // Filter out payment transactions
       const empresa = (raw.empresa || '').toLowerCase();
       const descricao = (raw.descricao || '').toLowerCase();
@@ -281,31 +501,80 @@ const convertToTransactionData = (rawTransactions: BatchClassificationResult['tr
              !descricao.includes('pagamentos validos normais');
     })
     .map(raw => {
+      const source = sources?.get(Number(raw.id));
+
       // Parse value using Brazilian currency format
-      const valorCentavos = parseValorBrasileiro(raw.valorOriginal);
+      const valorCentavos = source ? source.valorCentavos : parseValorBrasileiro(raw.valorOriginal);
       
-      // Preserve signs: positive values = expenses, negative = refunds
-      const tipo = valorCentavos < 0 ? 'Entrada' : 'Saída';
+      // Sign meaning depends on the statement type (unless the source already decided)
+      const tipo = source ? source.tipo : tipoFromSignedValue(valorCentavos, signConvention);
       
       // Parse date
-      const data = parseDateBrasileira(raw.data);
+      const data = parseDateBrasileira(source ? source.data : raw.data);
       
-      // Parse hierarchical category
-      const categoriaPath = parseCategoriaPath(raw.categoria);
+      // Canonical category: free text mapped onto the taxonomy
+      const { categoria, categoriaPath, canonical } = resolveCategory(taxonomy, raw.categoria);
+
+      // An LLM category outside the taxonomy is doubtful whatever confidence it reported
+      const confianca = raw.classificadoPor === 'ia' && !canonical
+        ? Math.min(raw.confianca ?? UNCANONICAL_CONFIDENCE, UNCANONICAL_CONFIDENCE)
+        : raw.confianca;
+
+      const merchantKey = source ? merchantKeyOf(source) : '';
+
+      // Installment marker: read with the source file, else from the LLM's text
+      const parcela = source
+        ? source.parcela
+        : parseInstallment(raw.descricao, statementTypeFor(signConvention)) || parseInstallment(raw.empresa, statementTypeFor(signConvention));
       
       return {
-        id: raw.id,
+        id: source ? source.id : raw.id,
         tipo: tipo as 'Entrada' | 'Saída',
         valorCentavos: Math.abs(valorCentavos), // Keep absolute value for display
-        categoria: raw.categoria,
+        categoria,
         categoriaPath,
-        empresa: raw.empresa || 'Not specified',
-        descricao: raw.descricao || 'No description',
+        empresa: raw.empresa || source?.estabelecimento || 'Not specified',
+        descricao: raw.descricao || source?.descricao || 'No description',
         data,
+        ...(source?.externalId ? { externalId: source.externalId } : {}),
+        ...(source?.origem ? { origem: source.origem } : {}),
+        ...(merchantKey ? { merchantKey } : {}),
+        ...(parcela ? { parcela: { ...parcela, valorOriginalCentavos: Math.abs(valorCentavos) * parcela.total } } : {}),
+        ...(confianca !== undefined ? { confianca } : {}),
+        ...(raw.motivo ? { motivo: raw.motivo } : {}),
+        ...(raw.classificadoPor ? { classificadoPor: raw.classificadoPor } : {}),
       };
     });
 };
 
+/**
+ * Flag transactions whose category disagrees with what a matching rule (or, failing that,
+ * a dictionary entry) would give. Categories the user chose (rules, past corrections) are
+ * never flagged, and a more specific path under the suggested one is not a conflict.
+ */
+const flagConflicts = (
+  transactions: TransactionData[],
+  sources: Map<number, SourceTransaction> | undefined,
+  rules: ClassificationRule[],
+  taxonomy: CategoryTaxonomy
+): TransactionData[] => {
+  const categoryRules = rules.filter(rule => rule.action.categoria);
+
+  return transactions.map(transaction => {
+    const source = sources?.get(transaction.id);
+    if (!source || transaction.classificadoPor === 'regra' || transaction.classificadoPor === 'usuario') {
+      return transaction;
+    }
+
+    const match = findMatchingRule(categoryRules, source) || matchOfflineDictionary(source);
+    if (!match) return transaction;
+
+    const suggested = resolveCategory(taxonomy, match.action.categoria);
+    const agrees = suggested.categoriaPath.every((id, index) => transaction.categoriaPath[index] === id);
+    return agrees ? transaction : { ...transaction, conflito: suggested.categoria };
+  });
+};
+
 /**
  * Aggregate transaction data for insights
  */
@@ -316,6 +585,7 @@ const aggregateTransactions = (transactions: TransactionData[]) => {
     totalCentavos: number;
     transactionCount: number;
     tipo: 'entrada' | 'saida';
+    categoriaPath: string[];
   }> = {};
 
   // Process each transaction
@@ -332,7 +602,8 @@ const aggregateTransactions = (transactions: TransactionData[]) => {
       categorias[catKey] = {
         totalCentavos: 0,
         transactionCount: 0,
-        tipo: transaction.tipo === 'Entrada' ? 'entrada' : 'saida'
+        tipo: transaction.tipo === 'Entrada' ? 'entrada' : 'saida',
+        categoriaPath: transaction.categoriaPath
       };
     }
     
@@ -352,7 +623,7 @@ const aggregateTransactions = (transactions: TransactionData[]) => {
       totalCentavos: data.totalCentavos,
       transactionCount: data.transactionCount,
       tipo: data.tipo,
-      categoriaPath: parseCategoriaPath(categoria),
+      categoriaPath: data.categoriaPath,
       percentual: (data.totalCentavos / (totalEntradasCentavos + totalSaidasCentavos)) * 100
     })),
     topCategorias: Object.entries(categorias)
@@ -396,13 +667,14 @@ const generateFinancialInsights = (aggregation: ReturnType<typeof aggregateTrans
 };
 
 /**
- * Generate general analysis using OpenAI
+ * Generate general analysis using the LLM
  */
 const generateGeneralAnalysis = async (
+  provider: LLMProvider,
   aggregation: ReturnType<typeof aggregateTransactions>,
   totalTransactions: number
-): Promise<GeneralAnalysis> => {
-  console.log('🎭 Generating general analysis with OpenAI...');
+): Promise<ValidatedOutput<GeneralAnalysis>> => {
+  console.log('🎭 Generating general analysis with the LLM...');
 
   const topGastos = aggregation.categorias
     .filter(cat => cat.tipo === 'saida' && cat.totalCentavos >= 1000) // >= R$ 10
@@ -424,171 +696,467 @@ const generateGeneralAnalysis = async (
     }))
   };
 
-  const prompt = `
-Generate a financial analysis in Portuguese with a humorous, provocative tone.
-
-DATA:
-${JSON.stringify(dadosParaAnalise, null, 2)}
-
-Return ONLY valid JSON with this structure:
-{
-  "pontuacao_geral": {
-    "nota": 1-10,
-    "comentario": "sarcastic comment about the score"
-  },
-  "mandou_bem": "one positive point about spending",
-  "mandou_mal": "one embarrassing negative point",
-  "gasto_frequencia": [
-    {
-      "categoria": "category name",
-      "total": numeric_value,
-      "frequencia_transacoes": integer,
-      "ticket_medio": numeric_value,
-      "comentario": "sarcastic comment about spending"
-    }
-  ],
-  "dicas_rapidas": [
-    {
-      "categoria": "category name",
-      "valor_atual": numeric_value,
-      "frequencia_atual": "current frequency string",
-      "valor_meta": numeric_value,
-      "frequencia_meta": "target frequency string",
-      "economia": savings_value,
-      "comentario": "sharp comment about the tip"
-    }
-  ],
-  "outros_gastos": [
-    {
-      "estabelecimento": "establishment name",
-      "total": numeric_value,
-      "comentario": "sarcastic comment about this place"
-    }
-  ],
-  "economia_realista": {
-    "categorias": [
-      {
-        "categoria": "category name",
-        "economia": numeric_value
-      }
-    ],
-    "economia_mensal": total_monthly_value,
-    "economia_anual": total_annual_value
-  },
-  "com_isso_voce_podia": ["aspirational example 1", "aspirational example 2"]
-}`;
+  const promptVersion = provider.config.prompts.analysis;
+  const template = ANALYSIS_PROMPTS[promptVersion];
+  const prompt = renderPrompt(template.user, { data: JSON.stringify(dadosParaAnalise, null, 2) });
 
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4-turbo-preview",
-      messages: [
-        {
-          role: "system",
-          content: "You are a sarcastic financial analyst. Respond ONLY with valid JSON. Use Brazilian Portuguese and be provocatively humorous."
-        },
-        {
-          role: "user", 
-          content: prompt
-        }
-      ],
+    return await chatWithSchema(provider, {
+      stage: 'analysis',
+      system: template.system,
+      user: prompt,
       temperature: 0.8,
-      max_tokens: 2000,
-      response_format: { 
-        type: "json_object"
-      },
+      maxTokens: 2000,
+    }, generalAnalysisSchemas(), {
+      cacheKey: hashKey(promptVersion, provider.config.models.analysis, dadosParaAnalise),
     });
-
-    const aiResponse = response.choices[0]?.message?.content;
-    
-    if (!aiResponse) {
-      throw new Error('Empty response from OpenAI for general analysis');
-    }
-
-    const cleanResponse = aiResponse.replace(/```json/g, '').replace(/```/g, '').trim();
-    const generalAnalysis = JSON.parse(cleanResponse) as GeneralAnalysis;
-    
-    // Validate basic structure
-    if (!generalAnalysis.pontuacao_geral || !generalAnalysis.gasto_frequencia) {
-      throw new Error('Invalid general analysis structure');
-    }
-
-    return generalAnalysis;
   } catch (error) {
-    console.error('Error in general analysis with OpenAI:', error);
+    console.error('Error in general analysis with the LLM:', error);
     throw new Error(`General analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 };
 
 /**
- * Main function: Analyze CSV content using OpenAI with batch processing
+ * Main function: Analyze CSV content using the configured LLM with batch processing
  */
 export const analyzeCSVWithAI = async (
   csvContent: string, 
-  progressCallback?: ProgressCallback
+  progressCallback?: ProgressCallback,
+  options: AnalysisOptions = {}
 ): Promise<CSVAnalysisResult> => {
   console.log('📊 Starting analysis with batch processing...');
   console.log('📝 CSV size:', csvContent.length, 'characters');
-  
-  // Validate OpenAI API key
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error('❌ OPENAI_API_KEY environment variable not set');
+
+  return analyzeInput(() => readInput(csvContent, options), progressCallback, options);
+};
+
+/**
+ * Analyze several files (cards and accounts of the same period) as one merged statement
+ */
+export const analyzeFilesWithAI = async (
+  files: AnalysisFile[],
+  progressCallback?: ProgressCallback,
+  options: LocalClassificationOptions = {}
+): Promise<CSVAnalysisResult> => {
+  console.log(`📊 Starting analysis of ${files.length} files with batch processing...`);
+  files.forEach(file => console.log(`📝 ${file.name}:`, file.content.length, 'characters'));
+
+  return analyzeInput(() => readFiles(files), progressCallback, options);
+};
+
+/**
+ * Classify locally read transactions without the LLM: the user's rules first, then the
+ * merchant memory. Only what neither knows is sent to the LLM. Raw CSVs (values not read
+ * locally) skip both.
+ */
+const preClassify = (input: AnalysisInput, options: LocalClassificationOptions) => {
+  const rules = options.rules || [];
+  const memory = options.merchantMemory || [];
+  const localClassifications: BatchClassificationResult['transactions'] = [];
+
+  if (!input.sources) {
+    if (rules.length > 0 || memory.length > 0) {
+      console.log('⚠️ Rules and merchant memory skipped: columns were not read locally');
+    }
+    return { rows: input.rows, sources: input.sources, pending: [] as SourceTransaction[], localClassifications, memoryHits: 0 };
   }
-  
+
+  const classifiedSources: SourceTransaction[] = [];
+  let pending = input.sources;
+  let ruleStats: RuleStats | undefined;
+
+  // 1. User rules
+  if (rules.length > 0) {
+    const { classified, remaining, stats } = applyRules(pending, rules);
+    console.log(`📏 Rules: ${stats.classifiedByRules} classified, ${stats.ignored} ignored`);
+
+    classified.forEach(({ source, rule }) => {
+      classifiedSources.push(source); // With tipo overrides applied
+      localClassifications.push({
+        id: source.id,
+        categoria: rule.action.categoria as string,
+        empresa: rule.action.empresa || source.estabelecimento || '',
+        descricao: source.descricao,
+        confianca: 1,
+        motivo: `Regra "${rule.name}"`,
+        classificadoPor: 'regra',
+      });
+    });
+    pending = remaining;
+    ruleStats = stats;
+  }
+
+  // 2. Merchant memory
+  const memoryIndex = new Map(memory.map(entry => [entry.key, entry]));
+  let memoryHits = 0;
+  pending = pending.filter(source => {
+    const key = merchantKeyOf(source);
+    const entry = key ? memoryIndex.get(key) : undefined;
+    if (!entry) return true;
+
+    memoryHits++;
+    classifiedSources.push(source);
+    // The user's own corrections are as good as a rule; what the LLM taught it, a little less
+    localClassifications.push({
+      id: source.id,
+      categoria: entry.categoria,
+      empresa: entry.empresa || source.estabelecimento || '',
+      descricao: source.descricao,
+      ...(entry.source === 'user'
+        ? { confianca: 1, motivo: 'Corrigido por você em uma análise anterior', classificadoPor: 'usuario' as const }
+        : { confianca: 0.9, motivo: 'Memória de estabelecimentos (classificado antes pela IA)', classificadoPor: 'memoria' as const }),
+    });
+    return false;
+  });
+  if (memory.length > 0) {
+    console.log(`🧠 Merchant memory: ${memoryHits} classified from ${memory.length} known merchants`);
+  }
+  console.log(`🤖 ${pending.length} transactions left for the LLM`);
+
+  return {
+    rows: buildClassificationRows(pending),
+    pending, // Still unclassified (sent to the LLM, or to the dictionary offline)
+    sources: [...classifiedSources, ...pending],
+    localClassifications,
+    memoryHits,
+    ...(ruleStats ? { ruleStats: { ...ruleStats, sentToLLM: pending.length } } : {}),
+  };
+};
+
+/**
+ * Merchants the LLM classified in this analysis, as new merchant memory entries
+ */
+const learnMerchants = (
+  classifications: BatchClassificationResult['transactions'],
+  sources: Map<number, SourceTransaction>,
+  taxonomy: CategoryTaxonomy
+): MerchantMemoryEntry[] => {
+  const learned = new Map<string, MerchantMemoryEntry>();
+  const updatedAt = new Date().toISOString();
+
+  classifications.forEach(raw => {
+    const source = sources.get(Number(raw.id));
+    const key = source ? merchantKeyOf(source) : '';
+    if (!source || !key || !raw.categoria || learned.has(key)) return;
+
+    const { categoria, categoriaPath } = resolveCategory(taxonomy, raw.categoria);
+    learned.set(key, {
+      key,
+      categoria,
+      categoriaPath,
+      empresa: raw.empresa || source.estabelecimento || '',
+      source: 'llm',
+      updatedAt,
+    });
+  });
+
+  return Array.from(learned.values());
+};
+
+// What one batch contributed, merged in batch order once all batches settle
+interface BatchOutcome {
+  classified: BatchClassificationResult['transactions'];
+  fallbacks: BatchClassificationResult['transactions'];
+  validation: OutputValidationReport;
+  reconciliation: RowReconciliation;
+  cache: CacheStats;
+  redaction: RedactionReport;
+}
+
+type BatchTotals = Pick<BatchOutcome, 'validation' | 'cache' | 'redaction'>;
+
+/**
+ * Add what a batch request took (repairs, coercions, cache hit, redacted values) to the batch totals
+ */
+const recordOutput = (totals: BatchTotals, output: ValidatedOutput<unknown> & { redaction: RedactionReport }) => {
+  totals.validation.repairs += output.repairs;
+  totals.validation.coercions.push(...output.coercions);
+  totals.cache[output.cached ? 'hits' : 'misses']++;
+  addRedactionReport(totals.redaction, output.redaction);
+};
+
+/**
+ * Re-request a row the LLM left out of its batch, on its own.
+ * Returns undefined when it still does not come back (or the request fails).
+ */
+const retryMissingRow = async (
+  provider: LLMProvider,
+  headers: string[],
+  row: string[],
+  batchNumber: number,
+  totalBatches: number,
+  withSources: boolean,
+  signConvention: SignConvention,
+  taxonomy: CategoryTaxonomy,
+  totals: BatchTotals
+): Promise<BatchClassificationResult['transactions'][number] | undefined> => {
+  const id = Number(row[0]);
   try {
-    // 1. Parse CSV into rows
-    const rows = parseCSVContent(csvContent);
-    const totalLines = rows.length - 1; // Exclude header
-    console.log('📝 Total lines to process:', totalLines);
+    const output = await processBatch(provider, [headers, row], batchNumber, totalBatches, withSources, signConvention, taxonomy);
+    recordOutput(totals, output);
+    return reconcileBatch([id], output.value.transactions).matched[0];
+  } catch (error) {
+    console.error(`❌ Retry of row ${id} failed:`, error);
+    return undefined;
+  }
+};
 
-    if (totalLines === 0) {
-      throw new Error('Empty CSV or header only');
+/**
+ * Classify one batch and reconcile it with the ids it was sent: missing rows are retried
+ * one by one, repeated and invented rows are discarded. Rows still missing keep the offline
+ * dictionary classification when the source is known (so totals stay complete).
+ */
+const classifyBatch = async (
+  provider: LLMProvider,
+  batch: string[][],
+  batchNumber: number,
+  totalBatches: number,
+  sources: Map<number, SourceTransaction> | undefined,
+  signConvention: SignConvention,
+  taxonomy: CategoryTaxonomy
+): Promise<BatchOutcome> => {
+  const expectedIds = batchRowIds(batch);
+  const totals: BatchTotals = {
+    validation: { repairs: 0, coercions: [] },
+    cache: { hits: 0, misses: 0 },
+    redaction: emptyRedactionReport(),
+  };
+  const reconciliation = { ...emptyReconciliation(), inputRows: expectedIds.length };
+
+  const output = await processBatch(provider, batch, batchNumber, totalBatches, !!sources, signConvention, taxonomy);
+  const batchResult = output.value;
+  recordOutput(totals, output);
+
+  // Compare with the rows that were sent
+  const { matched, missing, duplicates, invented } = reconcileBatch(expectedIds, batchResult.transactions);
+  const classified = [...matched];
+  const fallbacks: BatchClassificationResult['transactions'] = [];
+  reconciliation.classified = matched.length;
+  reconciliation.duplicates = duplicates;
+  reconciliation.invented = invented;
+  if (missing.length > 0 || duplicates > 0 || invented > 0) {
+    console.log(`🧮 Batch ${batchNumber}: ${missing.length} missing, ${duplicates} duplicated, ${invented} invented rows`);
+  }
+
+  // Missing rows, one request each
+  for (const id of missing) {
+    reconciliation.retried++;
+    const row = batch.slice(1).find(candidate => Number(candidate[0]) === id);
+    const retried = await retryMissingRow(provider, batch[0], row, batchNumber, totalBatches, !!sources, signConvention, taxonomy, totals);
+    const source = sources?.get(id);
+
+    if (retried) {
+      classified.push(retried);
+      reconciliation.classified++;
+    } else {
+      reconciliation.unclassifiable++;
+      if (source) fallbacks.push(...classifyOffline([source]));
     }
+  }
 
-    // 2. Create batches (30 lines per batch to avoid truncation)
-    const batches = createBatches(rows, 30);
-    console.log('📦 Divided into', batches.length, 'batches');
+  return { classified, fallbacks, reconciliation, ...totals };
+};
 
-    const allRawTransactions: BatchClassificationResult['transactions'] = [];
-    const batchSummaries: string[] = [];
+/**
+ * A batch that failed after its retries: every row is unclassifiable, and rows with a known
+ * source keep the offline dictionary classification
+ */
+const failedBatchOutcome = (batch: string[][], sources: Map<number, SourceTransaction> | undefined): BatchOutcome => {
+  const ids = batchRowIds(batch);
+  const batchSources = ids.map(id => sources?.get(id)).filter((source): source is SourceTransaction => !!source);
 
-    // 3. Process each batch sequentially (ONLY CLASSIFICATION)
-    for (let i = 0; i < batches.length; i++) {
-      const batch = batches[i];
-      console.log(`🔄 Classifying batch ${i + 1}/${batches.length}...`);
-      
-      // Notify batch start
-      progressCallback?.onBatchStart?.(i + 1, batches.length);
-      
-      try {
-        const batchResult = await processBatch(batch, i + 1, batches.length);
-        
-        // Collect classified transactions
-        allRawTransactions.push(...batchResult.transactions);
-        batchSummaries.push(batchResult.batch_summary);
-        
-        console.log(`✅ Batch ${i + 1} classified: ${batchResult.transactions.length} transactions`);
-        
-        // Convert raw transactions to structured data for this batch
-        const batchTransactions = convertToTransactionData(batchResult.transactions);
-        
-        // Notify batch completion
-        progressCallback?.onBatchComplete?.(i + 1, batches.length, batchTransactions);
-        
-        // Small delay to avoid rate limiting
-        if (i < batches.length - 1) {
-          await new Promise(resolve => setTimeout(resolve, 500));
-        }
-      } catch (error) {
-        console.error(`❌ Error in batch ${i + 1}:`, error);
-        throw new Error(`Failed to classify batch ${i + 1}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  return {
+    classified: [],
+    fallbacks: classifyOffline(batchSources),
+    validation: { repairs: 0, coercions: [] },
+    reconciliation: { ...emptyReconciliation(), inputRows: ids.length, unclassifiable: ids.length, failedBatches: 1 },
+    cache: { hits: 0, misses: 0 },
+    redaction: emptyRedactionReport(),
+  };
+};
+
+/**
+ * Classify rows with the LLM, 30 per batch, with up to config.concurrency batches in flight.
+ * Progress events arrive in completion order. A batch that still fails after the provider's
+ * retries is reported as unclassified instead of aborting the analysis; only when every
+ * batch fails is the first error thrown. Once the budget refuses a call, the batches left
+ * are not sent either, and refused batches keep the offline dictionary classification
+ * (an error only when there are no locally read rows to fall back on).
+ */
+const classifyWithLLM = async (
+  provider: LLMProvider,
+  rows: string[][],
+  sources: Map<number, SourceTransaction> | undefined,
+  signConvention: SignConvention,
+  taxonomy: CategoryTaxonomy,
+  progressCallback?: ProgressCallback,
+  meter?: UsageMeter
+): Promise<{
+  transactions: BatchClassificationResult['transactions'];
+  fallbacks: BatchClassificationResult['transactions']; // Offline classification of rows the LLM never returned
+  validation: OutputValidationReport;
+  reconciliation: RowReconciliation;
+  cache: CacheStats;
+  redaction: RedactionReport;
+}> => {
+  // Raw CSVs get an id column too, so every batch has known ids to check against
+  const numberedRows = sources ? rows : withRowIds(rows);
+
+  // Create batches (30 lines per batch to avoid truncation)
+  const batches = createBatches(numberedRows, 30);
+  console.log(`📦 Divided into ${batches.length} batches (${provider.config.concurrency} at a time)`);
+
+  const settled = await runPool(batches, provider.config.concurrency, async (batch, i) => {
+    console.log(`🔄 Classifying batch ${i + 1}/${batches.length}...`);
+    progressCallback?.onBatchStart?.(i + 1, batches.length);
+
+    try {
+      if (meter?.report().budgetExceeded) {
+        throw new Error(`💸 Budget spent, batch ${i + 1} not sent`);
       }
+      const outcome = await classifyBatch(provider, batch, i + 1, batches.length, sources, signConvention, taxonomy);
+      console.log(`✅ Batch ${i + 1} classified: ${outcome.classified.length} transactions`);
+
+      // Convert raw transactions to structured data for this batch
+      progressCallback?.onBatchComplete?.(
+        i + 1,
+        batches.length,
+        convertToTransactionData([...outcome.classified, ...outcome.fallbacks], sources, signConvention, taxonomy),
+        meter?.report()
+      );
+      return outcome;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`❌ Error in batch ${i + 1}:`, error);
+      progressCallback?.onBatchFailed?.(i + 1, batches.length, message);
+      throw error;
+    }
+  });
+
+  const firstFailure = settled.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+  const budgetFallback = !!sources && !!meter?.report().budgetExceeded;
+  if (firstFailure && !budgetFallback && settled.every(result => result.status === 'rejected')) {
+    const reason = firstFailure.reason;
+    throw new Error(`Failed to classify all ${batches.length} batches: ${reason instanceof Error ? reason.message : 'Unknown error'}`);
+  }
+
+  // Merge in batch order
+  const outcomes = settled.map((result, i) => (result.status === 'fulfilled' ? result.value : failedBatchOutcome(batches[i], sources)));
+  const reconciliation = emptyReconciliation();
+  outcomes.forEach(outcome => {
+    (Object.keys(reconciliation) as (keyof RowReconciliation)[]).forEach(key => {
+      reconciliation[key] += outcome.reconciliation[key];
+    });
+  });
+
+  console.log(`🎯 All batches done: ${reconciliation.classified}/${reconciliation.inputRows} rows classified, ${reconciliation.retried} retried, ${reconciliation.unclassifiable} unclassifiable, ${reconciliation.failedBatches} failed batches`);
+  return {
+    transactions: outcomes.flatMap(outcome => outcome.classified),
+    fallbacks: outcomes.flatMap(outcome => outcome.fallbacks),
+    validation: {
+      repairs: outcomes.reduce((sum, outcome) => sum + outcome.validation.repairs, 0),
+      coercions: outcomes.flatMap(outcome => outcome.validation.coercions),
+    },
+    reconciliation,
+    cache: {
+      hits: outcomes.reduce((sum, outcome) => sum + outcome.cache.hits, 0),
+      misses: outcomes.reduce((sum, outcome) => sum + outcome.cache.misses, 0),
+    },
+    redaction: outcomes.reduce((total, outcome) => addRedactionReport(total, outcome.redaction), emptyRedactionReport()),
+  };
+};
+
+/**
+ * Classify the rows left after rules and memory with the offline merchant dictionary,
+ * reported as a single batch
+ */
+const classifyPendingOffline = (
+  pending: SourceTransaction[],
+  sources: Map<number, SourceTransaction> | undefined,
+  signConvention: SignConvention,
+  taxonomy: CategoryTaxonomy,
+  progressCallback?: ProgressCallback
+): BatchClassificationResult['transactions'] => {
+  if (!sources) {
+    throw new Error('❌ Offline analysis needs the columns to be read locally. Confirm the column mapping in the upload preview and try again.');
+  }
+
+  progressCallback?.onBatchStart?.(1, 1);
+  const classified = classifyOffline(pending);
+  progressCallback?.onBatchComplete?.(1, 1, convertToTransactionData(classified, sources, signConvention, taxonomy));
+
+  const fallbacks = Object.values(OFFLINE_FALLBACK_CATEGORIES);
+  console.log(`📴 Offline dictionary: ${classified.filter(c => !fallbacks.includes(c.categoria)).length}/${classified.length} recognised`);
+  return classified;
+};
+
+/**
+ * Provider for the requested mode, or undefined for offline analysis.
+ * 'auto' goes offline when no provider is configured; 'llm' fails instead.
+ */
+const resolveProvider = (mode: AnalysisMode = 'auto'): LLMProvider | undefined => {
+  if (mode === 'offline') return undefined;
+  if (mode === 'llm') return getLLMProvider();
+
+  try {
+    return getLLMProvider();
+  } catch (error) {
+    console.log(`📴 No LLM configured, using offline mode: ${error instanceof Error ? error.message : String(error)}`);
+    return undefined;
+  }
+};
+
+/**
+ * Classify the input in batches, then aggregate and analyse it
+ */
+const analyzeInput = async (
+  read: () => AnalysisInput,
+  progressCallback?: ProgressCallback,
+  options: LocalClassificationOptions = {}
+): Promise<CSVAnalysisResult> => {
+  // Validate the LLM configuration before reading anything (no provider: offline mode)
+  const configured = resolveProvider(options.mode);
+  // The request's prompt versions replace the configured ones for this analysis only
+  const provider = configured && options.promptVersions
+    ? { ...configured, config: { ...configured.config, prompts: { ...configured.config.prompts, ...options.promptVersions } } }
+    : configured;
+
+  // Every LLM call of this analysis is metered; the budget is the lower of the request's and the server's
+  const budgets = [options.budgetUSD, provider?.config.budgetUSD].filter((budget): budget is number => budget !== undefined);
+  const meter = provider ? createUsageMeter(provider.config.prices, budgets.length > 0 ? Math.min(...budgets) : undefined) : undefined;
+  const llmProvider = provider ? meterProvider(provider, meter) : undefined;
+  const taxonomy = options.taxonomy || DEFAULT_TAXONOMY;
+  
+  try {
+    // 1. Parse input into rows (OFX, known bank preset, generic CSV or several merged files)
+    const input = read();
+    const { signConvention, importInfo } = input;
+    const totalLines = input.rows.length - 1; // Exclude header
+    console.log('📝 Total lines to process:', totalLines);
+
+    if (totalLines === 0) {
+      throw new Error('Empty CSV or header only');
     }
 
-    console.log('🎯 All batches classified successfully!');
+    // 2. Rules and merchant memory first: only unknown rows go to the LLM
+    const { rows, sources: sourceList, pending, localClassifications, ruleStats, memoryHits } = preClassify(input, options);
+    const sources = sourceList ? new Map(sourceList.map(source => [source.id, source])) : undefined;
+
+    // 3. Classify the rest: LLM batches, or the merchant dictionary offline
+    const llm = llmProvider ? await classifyWithLLM(llmProvider, rows, sources, signConvention, taxonomy, progressCallback, meter) : undefined;
+    const llmRawTransactions = llm ? [...llm.transactions, ...llm.fallbacks] : [];
+    const offlineRawTransactions = provider ? [] : classifyPendingOffline(pending, sources, signConvention, taxonomy, progressCallback);
     console.log('🔧 Converting and calculating totals locally...');
 
-    // 4. Convert raw transactions to structured data
-    const allTransactions = convertToTransactionData(allRawTransactions);
+    // 4. Convert raw transactions to structured data (local and LLM classifications back in file order)
+    const allRawTransactions = [...localClassifications, ...llmRawTransactions, ...offlineRawTransactions]
+      .sort((a, b) => Number(a.id) - Number(b.id));
+    const allTransactions = flagConflicts(
+      convertToTransactionData(allRawTransactions, sources, signConvention, taxonomy),
+      sources,
+      options.rules || [],
+      taxonomy
+    );
     console.log('📊 Total structured transactions:', allTransactions.length);
 
     // 5. Calculate everything locally using deterministic functions
@@ -602,12 +1170,30 @@ export const analyzeCSVWithAI = async (
     // 6. Generate insights from aggregated data
     const insights = generateFinancialInsights(aggregation);
 
-    // 7. Generate general analysis with OpenAI
+    // 7. Generate general analysis with the LLM (offline, or once the budget is spent: templated from the numbers)
     console.log('🎭 Generating general analysis...');
-    const generalAnalysis = await generateGeneralAnalysis(aggregation, allTransactions.length);
+    let analysis: ValidatedOutput<GeneralAnalysis> | undefined;
+    if (llmProvider) {
+      try {
+        analysis = await generateGeneralAnalysis(llmProvider, aggregation, allTransactions.length);
+      } catch (error) {
+        if (!meter.report().budgetExceeded) throw error;
+        console.log('💸 Budget spent: general analysis templated from the numbers');
+      }
+    }
+    const generalAnalysis = analysis ? analysis.value : buildOfflineGeneralAnalysis(aggregation, allTransactions);
+
+    // Response cache hits, reported with the result and as a progress event
+    const cache = llm && analysis ? { ...emptyCacheReport(), classification: llm.cache } : undefined;
+    if (cache) {
+      cache.analysis[analysis.cached ? 'hits' : 'misses']++;
+      console.log(`🗄️ Cache: ${cache.classification.hits}/${cache.classification.hits + cache.classification.misses} classification requests, analysis ${analysis.cached ? 'hit' : 'miss'}`);
+      progressCallback?.onCacheStats?.(cache);
+    }
 
     // 8. Create comprehensive summary
-    const summary = `Complete analysis of ${allTransactions.length} transactions processed. ` +
+    const summary = `${provider ? '' : 'Offline analysis (no AI): '}` +
+      `Complete analysis of ${allTransactions.length} transactions processed. ` +
       `Current balance: R$ ${insights.saldo.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}. ` +
       `Main spending category: ${aggregation.topCategorias[0]?.categoria || 'N/A'}.`;
 
@@ -615,9 +1201,29 @@ export const analyzeCSVWithAI = async (
       transactions: allTransactions,
       insights,
       generalAnalysis,
-      summary
+      summary,
+      importInfo,
+      analysisMode: provider ? 'llm' : 'offline',
+      ...(llm && analysis ? {
+        validation: {
+          repairs: llm.validation.repairs + analysis.repairs,
+          coercions: [...llm.validation.coercions, ...analysis.coercions],
+        },
+      } : {}),
+      ...(llm ? { reconciliation: llm.reconciliation } : {}),
+      ...(cache ? { cache } : {}),
+      ...(llm && provider.config.redactPII ? { redaction: llm.redaction } : {}),
+      ...(meter ? { usage: meter.report() } : {}),
+      ...(provider ? { promptVersions: provider.config.prompts } : {}),
+      ...(ruleStats ? { ruleStats } : {}),
+      ...(options.merchantMemory ? {
+        merchantMemory: { hits: memoryHits, learned: sources ? learnMerchants(llm ? llm.transactions : [], sources, taxonomy) : [] },
+      } : {}),
     };
 
+    if (result.usage) {
+      console.log(`💰 LLM usage: ${result.usage.requests} requests, ${result.usage.promptTokens + result.usage.completionTokens} tokens, ~US$ ${result.usage.costUSD.toFixed(4)}`);
+    }
     console.log('🎉 Complete analysis finished with deterministic calculations!');
     console.log(`📈 Summary: ${allTransactions.length} transactions, R$ ${insights.totalEntradas.toFixed(2)} income, R$ ${insights.totalSaidas.toFixed(2)} expenses`);
     
@@ -625,19 +1231,20 @@ export const analyzeCSVWithAI = async (
 
   } catch (error) {
     console.error('Error in AI analysis:', error);
+    const providerLabel = provider?.label || 'the LLM provider';
 
     if (error instanceof Error) {
-      // Check for specific OpenAI API errors
+      // Check for specific provider API errors
       if (error.message.includes('API key') || error.message.includes('401')) {
-        throw new Error('❌ Invalid OpenAI API key. Check if OPENAI_API_KEY environment variable is set correctly.');
+        throw new Error(`❌ Invalid API key for ${providerLabel}. Check the API key environment variable of the configured LLM_PROVIDER.`);
       } 
       
       if (error.message.includes('quota') || error.message.includes('429')) {
-        throw new Error('❌ OpenAI API limit exceeded. Check your quota at platform.openai.com/usage');
+        throw new Error(`❌ ${providerLabel} API limit exceeded. Check your quota and rate limits.`);
       } 
       
       if (error.message.includes('billing') || error.message.includes('payment')) {
-        throw new Error('❌ OpenAI billing issue. Add a payment method at platform.openai.com/account/billing');
+        throw new Error(`❌ ${providerLabel} billing issue. Check the account's payment settings.`);
       }
       
       if (error.message.includes('JSON') || error.message.includes('parse')) {
@@ -645,7 +1252,7 @@ export const analyzeCSVWithAI = async (
       }
       
       if (error.message.includes('network') || error.message.includes('fetch')) {
-        throw new Error('❌ Connection error with OpenAI. Check your internet connection and try again.');
+        throw new Error(`❌ Connection error with ${providerLabel}. Check that it is reachable and try again.`);
       }
 
       throw new Error(error.message);
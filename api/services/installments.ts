@@ -0,0 +1,45 @@
+// Installment markers ("PARC 03/10", "Parcela 3 de 10", "LOJA 03/10") found on Brazilian card statements.
+// Shared with the browser client, so no Node-only imports.
+
+import type { StatementType } from './source-transactions';
+
+export interface InstallmentInfo {
+  atual: number; // Installment billed in this statement
+  total: number;
+}
+
+const MAX_INSTALLMENTS = 48;
+
+// Explicit marker anywhere in the text
+const EXPLICIT_MARKER = /\bparc(?:ela)?s?\.?\s*(\d{1,2})\s*(?:\/|de)\s*(\d{1,2})\b/i;
+
+// Bare "03/10" at the end of the description. Only read on card statements: on a checking
+// account it is usually a date ("PIX TRANSF JOAO 05/12")
+const TRAILING_FRACTION = /(?:^|\s|-)(\d{1,2})\/(\d{1,2})\s*$/;
+
+// A dedicated installment column ("3/10", "03 de 10", "Única")
+const COLUMN_VALUE = /^\s*(\d{1,2})\s*(?:\/|de)\s*(\d{1,2})\s*$/i;
+
+const toInstallment = (match: RegExpMatchArray | null): InstallmentInfo | null => {
+  if (!match) return null;
+  const atual = Number(match[1]);
+  const total = Number(match[2]);
+  if (atual < 1 || total < 2 || atual > total || total > MAX_INSTALLMENTS) return null;
+  return { atual, total };
+};
+
+/**
+ * Find an installment marker in a transaction description. Explicit markers ("PARC",
+ * "parcela") count on any statement; a bare trailing fraction only on card statements.
+ */
+export const parseInstallment = (text: string | undefined, statementType: StatementType): InstallmentInfo | null => {
+  if (!text) return null;
+  return toInstallment(text.match(EXPLICIT_MARKER)) ||
+    (statementType === 'cartao' ? toInstallment(text.match(TRAILING_FRACTION)) : null);
+};
+
+/**
+ * Read the value of an installment column; single payments ("Única", empty) return null
+ */
+export const parseInstallmentColumn = (value: string | undefined): InstallmentInfo | null =>
+  value ? toInstallment(value.match(COLUMN_VALUE)) : null;
@@ -0,0 +1,417 @@
+// LLM provider layer: the analyzer asks for a chat completion per stage and this module
+// decides where it goes (OpenAI, any OpenAI-compatible server such as Ollama, llama.cpp
+// or vLLM, or Azure OpenAI) and which model serves each stage. Configured by environment.
+
+import OpenAI, { AzureOpenAI } from 'openai';
+import { OutputSchemas, formatIssues } from './llm-schemas';
+import { getResponseCache } from './response-cache';
+import { DEFAULT_MODEL_PRICES, ModelPrice, TokenUsage, UsageMeter, estimatePromptTokens, parseBudgetInput, parseModelPricesInput } from './llm-usage';
+import { DEFAULT_PROMPT_VERSIONS, PROMPT_TEMPLATES, PromptVersions } from './prompt-templates';
+
+export type LLMProviderName = 'openai' | 'openai-compatible' | 'azure';
+
+// Classification runs once per batch; analysis is the single sarcastic overview at the end
+export type LLMStage = 'classification' | 'analysis';
+
+export interface LLMConfig {
+  provider: LLMProviderName;
+  models: Record<LLMStage, string>; // Deployment names on Azure
+  prompts: PromptVersions; // Prompt template version per stage (a request can override them)
+  baseURL?: string; // openai-compatible: e.g. http://localhost:11434/v1 (Ollama)
+  endpoint?: string; // azure: https://<resource>.openai.azure.com
+  apiKey?: string;
+  apiVersion?: string; // azure only
+  jsonMode: boolean; // Send response_format json_object (some local servers reject it)
+  repairAttempts: number; // Re-prompts with the validation errors before coercing the output
+  maxRetries: number; // Retries of a request that hit a rate limit, a server error or a dropped connection
+  concurrency: number; // Classification batches in flight at once
+  redactPII: boolean; // Mask CPF/CNPJ, Pix keys, phones, e-mails and names before sending batches
+  prices: Record<string, ModelPrice>; // USD per million tokens, defaults plus LLM_PRICES
+  budgetUSD?: number; // Default per-analysis budget (LLM_BUDGET_USD)
+}
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatRequest {
+  stage: LLMStage;
+  system: string;
+  user: string;
+  temperature: number;
+  maxTokens: number;
+  followUp?: ChatMessage[]; // Sent after the user prompt (repair turns)
+}
+
+// A field the lenient schema had to coerce or default (or an item it dropped)
+export interface OutputCoercion {
+  stage: LLMStage;
+  batch?: number;
+  path: string; // "transactions.3.tipo"
+  issue: string; // Why the strict schema rejected it
+}
+
+export interface ValidatedOutput<T> {
+  value: T;
+  repairs: number; // Repair prompts sent
+  coercions: OutputCoercion[]; // Empty when the output passed the strict schema
+  cached: boolean; // Served from the response cache, no request sent
+}
+
+export interface SchemaChatOptions {
+  batch?: number; // Classification batch, for logs and coercion reports
+  cacheKey?: string; // Look the output up in the response cache first (and store it when clean)
+}
+
+export interface ChatResponse {
+  content: string; // Raw text of the first choice
+  usage: TokenUsage; // Zero when the server does not report it
+}
+
+export interface LLMProvider {
+  config: LLMConfig;
+  label: string; // For logs and error messages ("OpenAI", "Ollama at http://...")
+  chat: (request: ChatRequest) => Promise<ChatResponse>;
+}
+
+export const LLM_PROVIDERS: LLMProviderName[] = ['openai', 'openai-compatible', 'azure'];
+
+const DEFAULT_OPENAI_MODEL = 'gpt-4-turbo-preview';
+const DEFAULT_AZURE_API_VERSION = '2024-06-01';
+const DEFAULT_REPAIR_ATTEMPTS = 2;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_CONCURRENCY = 3;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 60_000;
+
+type Env = Record<string, string | undefined>;
+
+/**
+ * Resolve the model of each stage: stage-specific variable, then LLM_MODEL, then the default
+ */
+const readModels = (env: Env, fallback: string | undefined, provider: LLMProviderName): Record<LLMStage, string> => {
+  const base = env.LLM_MODEL || fallback;
+  const classification = env.LLM_CLASSIFICATION_MODEL || base;
+  const analysis = env.LLM_ANALYSIS_MODEL || base;
+
+  if (!classification || !analysis) {
+    throw new Error(`❌ LLM_MODEL (or LLM_CLASSIFICATION_MODEL and LLM_ANALYSIS_MODEL) must be set for the ${provider} provider`);
+  }
+  return { classification, analysis };
+};
+
+/**
+ * Read an integer variable, failing with a configuration message when it is out of range
+ */
+const readInteger = (env: Env, name: string, fallback: number, min: number): number => {
+  const value = env[name] === undefined ? fallback : Number(env[name]);
+  if (!Number.isInteger(value) || value < min) {
+    throw new Error(`❌ ${name} must be an integer of at least ${min}`);
+  }
+  return value;
+};
+
+/**
+ * Read LLM_PRICES, a JSON price table merged over the defaults
+ */
+const readPrices = (json: string): Record<string, ModelPrice> => {
+  try {
+    return parseModelPricesInput(JSON.parse(json));
+  } catch (error) {
+    throw new Error(`❌ LLM_PRICES is invalid: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+/**
+ * Read LLM_CLASSIFICATION_PROMPT and LLM_ANALYSIS_PROMPT over the default prompt versions
+ */
+const readPromptVersions = (env: Env): PromptVersions => {
+  const read = (stage: LLMStage, name: string): string => {
+    if (!env[name]) return DEFAULT_PROMPT_VERSIONS[stage];
+    if (!PROMPT_TEMPLATES[stage][env[name]]) {
+      throw new Error(`❌ ${name} must be one of: ${Object.keys(PROMPT_TEMPLATES[stage]).join(', ')}`);
+    }
+    return env[name];
+  };
+  return { classification: read('classification', 'LLM_CLASSIFICATION_PROMPT'), analysis: read('analysis', 'LLM_ANALYSIS_PROMPT') };
+};
+
+/**
+ * Read LLM_BUDGET_USD
+ */
+const readBudget = (value: string): number => {
+  try {
+    return parseBudgetInput(Number(value), 'LLM_BUDGET_USD');
+  } catch (error) {
+    throw new Error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+/**
+ * Read the provider configuration from environment variables.
+ * LLM_PROVIDER defaults to "openai", or "openai-compatible" when only LLM_BASE_URL is set.
+ */
+export const readLLMConfig = (env: Env = process.env): LLMConfig => {
+  const provider = (env.LLM_PROVIDER || (env.LLM_BASE_URL ? 'openai-compatible' : 'openai')) as LLMProviderName;
+  const common = {
+    jsonMode: env.LLM_JSON_MODE !== 'false',
+    redactPII: env.LLM_REDACT_PII !== 'false',
+    prompts: readPromptVersions(env),
+    prices: { ...DEFAULT_MODEL_PRICES, ...(env.LLM_PRICES ? readPrices(env.LLM_PRICES) : {}) },
+    ...(env.LLM_BUDGET_USD ? { budgetUSD: readBudget(env.LLM_BUDGET_USD) } : {}),
+    repairAttempts: readInteger(env, 'LLM_REPAIR_ATTEMPTS', DEFAULT_REPAIR_ATTEMPTS, 0),
+    maxRetries: readInteger(env, 'LLM_MAX_RETRIES', DEFAULT_MAX_RETRIES, 0),
+    concurrency: readInteger(env, 'LLM_CONCURRENCY', DEFAULT_CONCURRENCY, 1),
+  };
+
+  switch (provider) {
+    case 'openai':
+      if (!env.OPENAI_API_KEY) {
+        throw new Error('❌ OPENAI_API_KEY environment variable not set');
+      }
+      return { provider, models: readModels(env, DEFAULT_OPENAI_MODEL, provider), apiKey: env.OPENAI_API_KEY, ...common };
+
+    case 'openai-compatible':
+      if (!env.LLM_BASE_URL) {
+        throw new Error('❌ LLM_BASE_URL must be set for the openai-compatible provider (e.g. http://localhost:11434/v1)');
+      }
+      return {
+        provider,
+        models: readModels(env, undefined, provider),
+        baseURL: env.LLM_BASE_URL,
+        apiKey: env.LLM_API_KEY,
+        ...common,
+      };
+
+    case 'azure':
+      if (!env.AZURE_OPENAI_ENDPOINT || !env.AZURE_OPENAI_API_KEY) {
+        throw new Error('❌ AZURE_OPENAI_ENDPOINT and AZURE_OPENAI_API_KEY must be set for the azure provider');
+      }
+      return {
+        provider,
+        models: readModels(env, undefined, provider),
+        endpoint: env.AZURE_OPENAI_ENDPOINT,
+        apiKey: env.AZURE_OPENAI_API_KEY,
+        apiVersion: env.AZURE_OPENAI_API_VERSION || DEFAULT_AZURE_API_VERSION,
+        ...common,
+      };
+
+    default:
+      throw new Error(`❌ LLM_PROVIDER must be one of: ${LLM_PROVIDERS.join(', ')}`);
+  }
+};
+
+/**
+ * SDK client for the configured provider (all three speak the OpenAI chat API).
+ * SDK retries are off: chat() retries itself, honouring retry-after.
+ */
+const createClient = (config: LLMConfig): OpenAI => {
+  switch (config.provider) {
+    case 'azure':
+      return new AzureOpenAI({ endpoint: config.endpoint, apiKey: config.apiKey, apiVersion: config.apiVersion, maxRetries: 0 });
+    case 'openai-compatible':
+      // Local servers usually ignore the key, but the SDK requires one
+      return new OpenAI({ baseURL: config.baseURL, apiKey: config.apiKey || 'not-needed', maxRetries: 0 });
+    default:
+      return new OpenAI({ apiKey: config.apiKey, maxRetries: 0 });
+  }
+};
+
+/**
+ * Milliseconds to wait before retrying a failed request, or undefined when it should not be
+ * retried. Rate limits (429), server errors (5xx) and connection failures are retried: after
+ * the retry-after(-ms) header when the server sent one, else with exponential backoff and jitter.
+ */
+const retryDelayMs = (error: unknown, attempt: number): number | undefined => {
+  if (!(error instanceof OpenAI.APIError)) return undefined;
+
+  const status = error.status;
+  if (status !== undefined && status !== 429 && status < 500) return undefined;
+
+  const retryAfterMs = Number(error.headers?.get('retry-after-ms'));
+  if (retryAfterMs > 0) return Math.min(retryAfterMs, MAX_RETRY_DELAY_MS);
+
+  const retryAfter = error.headers?.get('retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const delay = Number.isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000;
+    if (delay >= 0) return Math.min(delay, MAX_RETRY_DELAY_MS);
+  }
+
+  const backoff = BASE_RETRY_DELAY_MS * 2 ** attempt;
+  return Math.min(backoff + Math.random() * backoff * 0.25, MAX_RETRY_DELAY_MS);
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Create a provider from an explicit configuration
+ */
+export const createLLMProvider = (config: LLMConfig): LLMProvider => {
+  const client = createClient(config);
+  const label = config.provider === 'openai'
+    ? 'OpenAI'
+    : config.provider === 'azure' ? `Azure OpenAI (${config.endpoint})` : `OpenAI-compatible server at ${config.baseURL}`;
+
+  return {
+    config,
+    label,
+    chat: async ({ stage, system, user, temperature, maxTokens, followUp = [] }) => {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          const response = await client.chat.completions.create({
+            model: config.models[stage],
+            messages: [
+              { role: 'system', content: system },
+              { role: 'user', content: user },
+              ...followUp,
+            ],
+            temperature,
+            max_tokens: maxTokens,
+            ...(config.jsonMode ? { response_format: { type: 'json_object' as const } } : {}),
+          });
+
+          return {
+            content: response.choices[0]?.message?.content || '',
+            usage: {
+              promptTokens: response.usage?.prompt_tokens || 0,
+              completionTokens: response.usage?.completion_tokens || 0,
+            },
+          };
+        } catch (error) {
+          const delay = attempt < config.maxRetries ? retryDelayMs(error, attempt) : undefined;
+          if (delay === undefined) throw error;
+
+          console.log(`⏳ ${label} request failed (${error instanceof Error ? error.message : String(error)}), retrying in ${Math.round(delay)} ms (${attempt + 1}/${config.maxRetries})`);
+          await sleep(delay);
+        }
+      }
+    },
+  };
+};
+
+let cachedProvider: LLMProvider | undefined;
+
+/**
+ * Provider configured by the environment, created on first use (fails with a
+ * configuration message when the selected provider is missing variables)
+ */
+export const getLLMProvider = (): LLMProvider => {
+  if (!cachedProvider) {
+    cachedProvider = createLLMProvider(readLLMConfig());
+    console.log(`🔌 LLM provider: ${cachedProvider.label} (classification: ${cachedProvider.config.models.classification}, analysis: ${cachedProvider.config.models.analysis})`);
+  }
+  return cachedProvider;
+};
+
+/**
+ * The same provider, with the estimated cost of every call reserved against the meter's
+ * budget before it is sent and its real token usage recorded after
+ */
+export const meterProvider = (provider: LLMProvider, meter: UsageMeter): LLMProvider => ({
+  ...provider,
+  chat: async request => {
+    const model = provider.config.models[request.stage];
+    const promptTokens = estimatePromptTokens(request.system, request.user, ...(request.followUp || []).map(message => message.content));
+    const reservedUSD = meter.reserve(request.stage, model, promptTokens, request.maxTokens);
+
+    let response: ChatResponse;
+    try {
+      response = await provider.chat(request);
+    } catch (error) {
+      meter.release(reservedUSD);
+      throw error;
+    }
+    meter.record(request.stage, model, response.usage, reservedUSD);
+    return response;
+  },
+});
+
+/**
+ * Parse the JSON of a response (tolerating markdown fences)
+ */
+const parseJSONResponse = (response: string): { json: unknown } | { error: string } => {
+  try {
+    return { json: JSON.parse(response.replace(/```json/g, '').replace(/```/g, '').trim()) };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+/**
+ * Chat and validate the JSON response against the strict schema. Invalid responses are
+ * sent back with the validation errors up to config.repairAttempts times; after that the
+ * last parseable response goes through the lenient schema and every field it had to fix
+ * is reported. Fails only when nothing parseable (or coercible) came back.
+ * With a cacheKey, a cached output that still passes the strict schema is returned without
+ * a request, and outputs that passed it are cached (coerced ones are not, so they get
+ * another chance next time).
+ */
+export const chatWithSchema = async <T>(
+  provider: LLMProvider,
+  request: ChatRequest,
+  schemas: OutputSchemas<T>,
+  { batch, cacheKey }: SchemaChatOptions = {}
+): Promise<ValidatedOutput<T>> => {
+  const where = batch !== undefined ? `${request.stage} batch ${batch}` : request.stage;
+  const cache = cacheKey ? getResponseCache() : null;
+
+  const cachedResponse = cache && await cache.get(cacheKey);
+  if (cachedResponse) {
+    const parsed = parseJSONResponse(cachedResponse);
+    const strict = 'json' in parsed ? schemas.strict.safeParse(parsed.json) : undefined;
+    if (strict?.success) {
+      console.log(`🗄️ ${where}: served from the response cache`);
+      return { value: strict.data, repairs: 0, coercions: [], cached: true };
+    }
+  }
+  let followUp: ChatMessage[] = [];
+  let lastParsed: { json: unknown; issues: string[] } | undefined;
+  let issues: string[] = [];
+
+  for (let attempt = 0; attempt <= provider.config.repairAttempts; attempt++) {
+    const { content: response } = await provider.chat({ ...request, followUp });
+    const parsed = parseJSONResponse(response);
+
+    if ('json' in parsed) {
+      const strict = schemas.strict.safeParse(parsed.json);
+      if (strict.success) {
+        if (cache) await cache.set(cacheKey, JSON.stringify(parsed.json));
+        return { value: strict.data, repairs: attempt, coercions: [], cached: false };
+      }
+      issues = formatIssues(strict.error);
+      lastParsed = { json: parsed.json, issues };
+    } else {
+      issues = [`invalid JSON: ${parsed.error}`];
+    }
+
+    if (attempt < provider.config.repairAttempts) {
+      console.log(`🔧 Invalid ${where} response (${issues.length} issues), asking for a repair (${attempt + 1}/${provider.config.repairAttempts})`);
+      followUp = [
+        { role: 'assistant', content: response },
+        {
+          role: 'user',
+          content: `Sua resposta não passou na validação:\n${issues.slice(0, 20).map(issue => `- ${issue}`).join('\n')}\n` +
+            'Corrija esses campos e retorne APENAS o JSON completo, no mesmo formato pedido.',
+        },
+      ];
+    }
+  }
+
+  const lenient = lastParsed && schemas.lenient.safeParse(lastParsed.json);
+  if (lastParsed && lenient?.success) {
+    console.log(`⚠️ ${where}: ${lastParsed.issues.length} fields coerced after ${provider.config.repairAttempts} repair attempts`);
+    return {
+      value: lenient.data,
+      repairs: provider.config.repairAttempts,
+      cached: false,
+      coercions: lastParsed.issues.map(line => {
+        const separator = line.indexOf(': ');
+        return { stage: request.stage, ...(batch !== undefined ? { batch } : {}), path: line.slice(0, separator), issue: line.slice(separator + 2) };
+      }),
+    };
+  }
+
+  throw new Error(`Invalid ${where} response after ${provider.config.repairAttempts} repair attempts: ${issues.slice(0, 5).join('; ')}`);
+};
@@ -0,0 +1,162 @@
+// Schemas for what the LLM returns. The strict schema is what the prompts ask for; when a
+// response still fails it after the repair attempts, the lenient schema coerces what it can
+// (numeric strings, accents in "Saída", missing texts) and drops unusable items.
+
+import { z } from 'zod';
+import type { ClassificationSource, GeneralAnalysis } from './financial-analyzer';
+
+// Typed explicitly: zod only infers required keys under strictNullChecks, which this project leaves off
+export interface OutputSchemas<T> {
+  strict: z.ZodType<T, z.ZodTypeDef, unknown>;
+  lenient: z.ZodType<T, z.ZodTypeDef, unknown>;
+}
+
+export interface BatchClassificationOutput {
+  transactions: Array<{
+    id: number;
+    tipo?: 'Entrada' | 'Saída';
+    valorOriginal?: string;
+    categoria: string;
+    empresa: string;
+    descricao: string;
+    data?: string;
+    confianca?: number; // 0–1, from prompts that ask for it
+    motivo?: string;
+    classificadoPor?: ClassificationSource; // Set by the analyzer, never taken from the LLM
+  }>;
+  batch_summary: string;
+}
+
+const FALLBACK_CATEGORY = 'Outros';
+
+const tipoSchema = z.enum(['Entrada', 'Saída']);
+
+// "saida", "SAIDA", "Saída " → "Saída"
+const lenientTipo = z.preprocess(value => {
+  if (typeof value !== 'string') return value;
+  const normalized = value.trim().toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+  return normalized === 'saida' ? 'Saída' : normalized === 'entrada' ? 'Entrada' : value;
+}, tipoSchema);
+
+const lenientText = (fallback: string) =>
+  z.preprocess(value => (typeof value === 'number' ? String(value) : value), z.string().trim().catch(fallback));
+
+const nonEmpty = z.string().trim().min(1);
+
+// 0.85, "0.85", 85 or "85%" → 0.85; anything else is dropped
+const lenientConfidence = z.preprocess(value => {
+  const number = typeof value === 'string' ? Number(value.replace('%', '').replace(',', '.').trim()) : value;
+  return typeof number === 'number' && number > 1 && number <= 100 ? number / 100 : number;
+}, z.number().min(0).max(1)).optional().catch(undefined);
+
+/**
+ * Strict and lenient schemas for one classification batch. With source rows the LLM
+ * only classifies; on raw CSVs it also returns tipo, valorOriginal and data.
+ */
+export const batchClassificationSchemas = (withSources: boolean): OutputSchemas<BatchClassificationOutput> => {
+  const strictTransaction = z.object({
+    id: z.number().int().positive(),
+    categoria: nonEmpty,
+    empresa: z.string(),
+    descricao: z.string(),
+    confianca: z.number().min(0).max(1).optional(),
+    motivo: z.string().optional(),
+    ...(withSources ? {} : {
+      tipo: tipoSchema,
+      valorOriginal: nonEmpty,
+      data: nonEmpty,
+    }),
+  }).passthrough();
+
+  const lenientTransaction = z.object({
+    id: z.coerce.number().int().positive(),
+    categoria: lenientText(FALLBACK_CATEGORY).transform(categoria => categoria || FALLBACK_CATEGORY),
+    empresa: lenientText(''),
+    descricao: lenientText(''),
+    tipo: lenientTipo.optional().catch(undefined),
+    valorOriginal: lenientText('').optional(),
+    data: lenientText('').optional(),
+    confianca: lenientConfidence,
+    motivo: lenientText('').optional(),
+  }).refine(transaction => withSources || (!!transaction.valorOriginal && !!transaction.data), {
+    message: 'valorOriginal and data are required',
+  });
+
+  return {
+    strict: z.object({
+      transactions: z.array(strictTransaction),
+      batch_summary: z.string(),
+    }) as z.ZodType<BatchClassificationOutput, z.ZodTypeDef, unknown>,
+    lenient: z.object({
+      // Unusable items are dropped; row reconciliation reports them as missing
+      transactions: z.array(z.unknown()).transform(items => items.flatMap(item => {
+        const parsed = lenientTransaction.safeParse(item);
+        return parsed.success ? [parsed.data] : [];
+      })),
+      batch_summary: lenientText(''),
+    }) as z.ZodType<BatchClassificationOutput, z.ZodTypeDef, unknown>,
+  };
+};
+
+const money = z.number();
+const lenientMoney = z.coerce.number().catch(0);
+
+/**
+ * Strict and lenient schemas for the general analysis
+ */
+export const generalAnalysisSchemas = (): OutputSchemas<GeneralAnalysis> => {
+  const build = (number: z.ZodType<number, z.ZodTypeDef, unknown>, text: z.ZodType<string, z.ZodTypeDef, unknown>, lenient: boolean) => {
+    const list = <T extends z.ZodTypeAny>(item: T) => (lenient ? z.array(item).catch([]) : z.array(item));
+    const section = <T extends z.ZodTypeAny>(schema: T, fallback: z.infer<T>) => (lenient ? schema.catch(fallback) : schema);
+
+    return z.object({
+      pontuacao_geral: section(z.object({
+        nota: lenient ? z.coerce.number().transform(nota => Math.min(10, Math.max(1, Math.round(nota)))).catch(5) : z.number().min(1).max(10),
+        comentario: text,
+      }), { nota: 5, comentario: '' }),
+      mandou_bem: text,
+      mandou_mal: text,
+      gasto_frequencia: list(z.object({
+        categoria: text,
+        total: number,
+        frequencia_transacoes: number,
+        ticket_medio: number,
+        comentario: text,
+      })),
+      dicas_rapidas: list(z.object({
+        categoria: text,
+        valor_atual: number,
+        frequencia_atual: text,
+        valor_meta: number,
+        frequencia_meta: text,
+        economia: number,
+        comentario: text,
+      })),
+      outros_gastos: list(z.object({
+        estabelecimento: text,
+        total: number,
+        comentario: text,
+      })),
+      economia_realista: section(z.object({
+        categorias: list(z.object({
+          categoria: text,
+          economia: number,
+        })),
+        economia_mensal: number,
+        economia_anual: number,
+      }), { categorias: [], economia_mensal: 0, economia_anual: 0 }),
+      com_isso_voce_podia: list(text),
+    });
+  };
+
+  return {
+    strict: build(money, z.string(), false) as z.ZodType<GeneralAnalysis, z.ZodTypeDef, unknown>,
+    lenient: build(lenientMoney, lenientText(''), true) as z.ZodType<GeneralAnalysis, z.ZodTypeDef, unknown>,
+  };
+};
+
+/**
+ * Validation issues as "path: message" lines, for repair prompts and reports
+ */
+export const formatIssues = (error: z.ZodError): string[] =>
+  error.issues.map(issue => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`);
@@ -0,0 +1,172 @@
+// Token and cost accounting: every chat completion reports its usage to the analysis meter,
+// which prices it from a per-model table (USD per million tokens) and enforces the optional
+// budget by reserving each call's estimated cost before it is sent and refusing the calls
+// that would not fit in what is left.
+// Shared with the browser client, so no Node-only imports.
+
+import type { LLMStage } from './llm-provider';
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface ModelPrice {
+  input: number; // USD per million prompt tokens
+  output: number; // USD per million completion tokens
+}
+
+export interface UsageTotals extends TokenUsage {
+  requests: number;
+  costUSD: number;
+}
+
+export interface UsageReport extends UsageTotals {
+  byStage: Record<LLMStage, UsageTotals>;
+  unpricedModels: string[]; // Models missing from the price table (counted at zero cost)
+  budgetUSD?: number;
+  budgetExceeded: boolean; // LLM calls were refused after the budget was spent
+}
+
+export interface UsageMeter {
+  // Sets aside the estimated cost of a call and returns it; throws when it does not fit in
+  // what is left of the budget (spent plus calls in flight), so the call is never made
+  reserve: (stage: LLMStage, model: string, promptTokens: number, maxCompletionTokens: number) => number;
+  // Records a finished call and frees its reservation
+  record: (stage: LLMStage, model: string, usage: TokenUsage, reservedUSD?: number) => void;
+  // Frees the reservation of a call that failed
+  release: (reservedUSD: number) => void;
+  report: () => UsageReport;
+}
+
+// OpenAI list prices. Dated snapshots ("gpt-4o-2024-08-06") use the longest matching prefix.
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4-turbo-preview': { input: 10, output: 30 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+};
+
+const emptyTotals = (): UsageTotals => ({ promptTokens: 0, completionTokens: 0, requests: 0, costUSD: 0 });
+
+/**
+ * Price of a model: exact entry, else the longest prefix in the table
+ */
+export const findModelPrice = (model: string, prices: Record<string, ModelPrice>): ModelPrice | undefined => {
+  if (prices[model]) return prices[model];
+  const prefix = Object.keys(prices)
+    .filter(key => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? prices[prefix] : undefined;
+};
+
+/**
+ * Estimated cost in USD of one call
+ */
+export const estimateCost = (usage: TokenUsage, price: ModelPrice): number =>
+  (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+
+/**
+ * Rough prompt size in tokens (about four characters each), for reservations
+ */
+export const estimatePromptTokens = (...texts: string[]): number =>
+  Math.ceil(texts.reduce((sum, text) => sum + text.length, 0) / 4);
+
+// Answer length as a share of the prompt assumed before a stage has seen an answer:
+// classification batches come back at about 0.8 of their prompt, the general analysis at 0.6
+export const DEFAULT_COMPLETION_RATIO = 1;
+
+/**
+ * Meter for one analysis. Without a budget it only counts. A reservation counts the prompt
+ * estimate plus an answer sized from it: the largest answer-to-prompt ratio seen so far in
+ * the stage (DEFAULT_COMPLETION_RATIO before the first one), capped at maxCompletionTokens.
+ * Concurrent calls therefore cannot all pass the check on the same remainder, and a budget
+ * that fits the real spend is not refused for the worst-case answer length.
+ */
+export const createUsageMeter = (prices: Record<string, ModelPrice>, budgetUSD?: number): UsageMeter => {
+  const byStage: Record<LLMStage, UsageTotals> = { classification: emptyTotals(), analysis: emptyTotals() };
+  const unpriced = new Set<string>();
+  const completionRatio: Record<LLMStage, number | undefined> = { classification: undefined, analysis: undefined };
+  let reserved = 0;
+  let refused = false;
+
+  const totalCost = () => byStage.classification.costUSD + byStage.analysis.costUSD;
+
+  return {
+    reserve: (stage, model, promptTokens, maxCompletionTokens) => {
+      const price = findModelPrice(model, prices);
+      const ratio = completionRatio[stage] ?? DEFAULT_COMPLETION_RATIO;
+      const completionTokens = Math.min(Math.ceil(promptTokens * ratio), maxCompletionTokens);
+      const estimate = price ? estimateCost({ promptTokens, completionTokens }, price) : 0;
+
+      if (budgetUSD !== undefined && totalCost() + reserved + estimate > budgetUSD) {
+        refused = true;
+        throw new Error(`💸 Budget of US$ ${budgetUSD.toFixed(4)} would be exceeded (US$ ${totalCost().toFixed(4)} spent, US$ ${reserved.toFixed(4)} in flight, ~US$ ${estimate.toFixed(4)} for this call), ${stage} call not sent`);
+      }
+      reserved += estimate;
+      return estimate;
+    },
+    record: (stage, model, usage, reservedUSD = 0) => {
+      const price = findModelPrice(model, prices);
+      if (!price) unpriced.add(model);
+
+      reserved = Math.max(0, reserved - reservedUSD);
+      if (usage.promptTokens > 0) {
+        completionRatio[stage] = Math.max(completionRatio[stage] ?? 0, usage.completionTokens / usage.promptTokens);
+      }
+
+      const totals = byStage[stage];
+      totals.promptTokens += usage.promptTokens;
+      totals.completionTokens += usage.completionTokens;
+      totals.requests++;
+      totals.costUSD += price ? estimateCost(usage, price) : 0;
+    },
+    release: reservedUSD => {
+      reserved = Math.max(0, reserved - reservedUSD);
+    },
+    report: () => {
+      const stages = Object.values(byStage);
+      return {
+        promptTokens: stages.reduce((sum, stage) => sum + stage.promptTokens, 0),
+        completionTokens: stages.reduce((sum, stage) => sum + stage.completionTokens, 0),
+        requests: stages.reduce((sum, stage) => sum + stage.requests, 0),
+        costUSD: totalCost(),
+        byStage: { classification: { ...byStage.classification }, analysis: { ...byStage.analysis } },
+        unpricedModels: Array.from(unpriced),
+        ...(budgetUSD !== undefined ? { budgetUSD } : {}),
+        budgetExceeded: refused,
+      };
+    },
+  };
+};
+
+/**
+ * Validate a price table (LLM_PRICES): { "model": { "input": 2.5, "output": 10 } }
+ */
+export const parseModelPricesInput = (input: unknown): Record<string, ModelPrice> => {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('prices must be an object keyed by model');
+  }
+
+  return Object.fromEntries(Object.entries(input).map(([model, price]) => {
+    const { input: inputPrice, output } = (price || {}) as Partial<ModelPrice>;
+    if (typeof inputPrice !== 'number' || inputPrice < 0 || typeof output !== 'number' || output < 0) {
+      throw new Error(`prices.${model} must have non-negative numbers "input" and "output" (USD per million tokens)`);
+    }
+    return [model, { input: inputPrice, output }];
+  }));
+};
+
+/**
+ * Validate a budget in USD (the request's budgetUSD or LLM_BUDGET_USD)
+ */
+export const parseBudgetInput = (input: unknown, path = 'budgetUSD'): number => {
+  if (typeof input !== 'number' || !Number.isFinite(input) || input <= 0) {
+    throw new Error(`${path} must be a positive number (USD)`);
+  }
+  return input;
+};
@@ -0,0 +1,113 @@
+// Merchant memory: the last confirmed classification of each merchant, so merchants that
+// come back every month are classified locally instead of by the LLM.
+// The memory lives with the user (browser storage) and travels with each request;
+// the analysis returns what it learned. Shared with the browser client, so no Node-only imports.
+
+import { SourceTransaction } from './source-transactions';
+
+export interface MerchantMemoryEntry {
+  key: string; // normalizeMerchant() of the merchant text
+  categoria: string;
+  categoriaPath: string[];
+  empresa: string;
+  source: 'llm' | 'user'; // User corrections are never overwritten by the LLM
+  updatedAt: string; // ISO timestamp
+}
+
+export interface MerchantMemoryStats {
+  hits: number; // Transactions classified from memory
+  learned: MerchantMemoryEntry[]; // New merchants classified by the LLM in this analysis
+}
+
+export const MAX_MERCHANT_MEMORY = 2000;
+
+// Payment processor and channel prefixes that say nothing about the merchant
+const NOISE_TOKENS = new Set(['mp', 'pg', 'pag', 'pagseguro', 'ec', 'dl', 'ifd', 'sumup', 'compra', 'debito', 'credito', 'cartao', 'parc', 'parcela']);
+
+// Transfer and payment words: a key made only of these ("pix transf", "ted") would be shared
+// by every recipient, so it is no key at all
+const TRANSFER_TOKENS = new Set([
+  'pix', 'ted', 'tef', 'doc', 'transf', 'transferencia', 'pagamento', 'pagto', 'pgto', 'boleto',
+  'enviado', 'enviada', 'recebido', 'recebida', 'deposito', 'saque', 'tarifa', 'conta', 'para', 'de',
+]);
+
+/**
+ * Normalise a merchant string into a memory key: lowercase, no accents or symbols,
+ * without numbers (store ids, dates, installments) or processor prefixes
+ * ("PAG*Padaria Real 0123" and "PADARIA REAL" share the key "padaria real").
+ * Empty when only transfer words are left ("PIX TRANSF 123456" names no merchant).
+ */
+export const normalizeMerchant = (text: string | undefined): string => {
+  if (!text) return '';
+
+  const tokens = text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(token => token !== '' && !/\d/.test(token) && !NOISE_TOKENS.has(token));
+
+  return tokens.every(token => TRANSFER_TOKENS.has(token)) ? '' : tokens.join(' ');
+};
+
+/**
+ * Memory key of a locally read transaction (merchant column when there is one)
+ */
+export const merchantKeyOf = (source: SourceTransaction): string =>
+  normalizeMerchant(source.estabelecimento) || normalizeMerchant(source.descricao);
+
+/**
+ * Add or replace entries, keeping user corrections over LLM guesses
+ * and dropping the least recently updated entries beyond the limit
+ */
+export const mergeMerchantMemory = (
+  current: MerchantMemoryEntry[],
+  updates: MerchantMemoryEntry[],
+  limit: number = MAX_MERCHANT_MEMORY
+): MerchantMemoryEntry[] => {
+  const byKey = new Map(current.map(entry => [entry.key, entry]));
+
+  updates.forEach(update => {
+    const existing = byKey.get(update.key);
+    if (existing && existing.source === 'user' && update.source === 'llm') return;
+    byKey.set(update.key, update);
+  });
+
+  return Array.from(byKey.values())
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .slice(0, limit);
+};
+
+/**
+ * Validate a merchant memory received in a request body or read from storage.
+ * Entries whose key no longer names a merchant (e.g. a bare "pix transf") are dropped.
+ */
+export const parseMerchantMemoryInput = (input: unknown): MerchantMemoryEntry[] => {
+  if (!Array.isArray(input)) {
+    throw new Error('merchantMemory must be an array');
+  }
+  if (input.length > MAX_MERCHANT_MEMORY) {
+    throw new Error(`merchantMemory supports at most ${MAX_MERCHANT_MEMORY} entries`);
+  }
+
+  return input.map((item, idx): MerchantMemoryEntry => {
+    const entry = item as Partial<MerchantMemoryEntry> | null;
+    const path = `merchantMemory[${idx}]`;
+    if (!entry || typeof entry !== 'object') {
+      throw new Error(`${path} must be an object`);
+    }
+    if (typeof entry.key !== 'string' || entry.key === '' || typeof entry.categoria !== 'string' || entry.categoria === '') {
+      throw new Error(`${path} needs a key and a categoria`);
+    }
+
+    return {
+      key: normalizeMerchant(entry.key),
+      categoria: entry.categoria,
+      categoriaPath: Array.isArray(entry.categoriaPath) ? entry.categoriaPath.map(String) : [],
+      empresa: typeof entry.empresa === 'string' ? entry.empresa : '',
+      source: entry.source === 'user' ? 'user' : 'llm',
+      updatedAt: typeof entry.updatedAt === 'string' ? entry.updatedAt : new Date(0).toISOString(),
+    };
+  }).filter(entry => entry.key !== '');
+};
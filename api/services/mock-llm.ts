@@ -0,0 +1,234 @@
+// Local stand-in for the chat-completions API, so the analyzer and both endpoints can run
+// without a key or spending money (point LLM_BASE_URL at it). Three modes:
+// - mock: deterministic answers built from the prompt (offline merchant dictionary for
+//   classification, a fixed template for the general analysis)
+// - record: forwards each request to a real server and saves the response as a fixture
+// - replay: answers only from fixtures, failing on requests that were never recorded
+// Fixtures are keyed by a hash of the request (model, messages, sampling options). Server only.
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { parseCSV } from './csv-parser';
+import { hashKey } from './response-cache';
+import { classifyOffline } from './offline-analysis';
+import { looksLikeValor, normalizeHeader, parseISODate, parseValorBrasileiro } from './value-parsers';
+import { SignConvention, tipoFromSignedValue } from './source-transactions';
+
+export type MockLLMMode = 'mock' | 'record' | 'replay';
+
+export const MOCK_LLM_MODES: MockLLMMode[] = ['mock', 'record', 'replay'];
+
+export interface MockLLMOptions {
+  mode: MockLLMMode;
+  fixturesDir: string;
+  upstreamURL?: string; // record: real server (https://api.openai.com/v1)
+  upstreamApiKey?: string; // record
+  onRequest?: (entry: { key: string; kind: 'mock' | 'recorded' | 'replayed' | 'missing' }) => void;
+}
+
+// The parts of a chat-completions request that decide the answer
+interface ChatCompletionRequest {
+  model: string;
+  messages: { role: string; content: string }[];
+  temperature?: number;
+  max_tokens?: number;
+  response_format?: unknown;
+}
+
+interface RecordedFixture {
+  request: ChatCompletionRequest;
+  response: unknown;
+}
+
+/**
+ * Fixture key of a request
+ */
+export const fixtureKey = (request: ChatCompletionRequest): string =>
+  hashKey(request.model, request.messages, request.temperature, request.max_tokens, request.response_format ?? null);
+
+// Rough token count for the usage block (about four characters per token)
+const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const completion = (request: ChatCompletionRequest, key: string, content: string) => ({
+  id: `chatcmpl-mock-${key.slice(0, 16)}`,
+  object: 'chat.completion',
+  created: 0,
+  model: request.model,
+  choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content } }],
+  usage: {
+    prompt_tokens: estimateTokens(request.messages.map(message => message.content).join('\n')),
+    completion_tokens: estimateTokens(content),
+    total_tokens: estimateTokens(request.messages.map(message => message.content).join('\n')) + estimateTokens(content),
+  },
+});
+
+/**
+ * Classification answer: the batch CSV is read back from the prompt and every row is
+ * classified with the offline dictionary. Raw CSVs also get tipo, valorOriginal and data,
+ * taken from the columns whose headers look like a value and a date (else the first cell
+ * that parses as one).
+ */
+const mockClassification = (prompt: string): object => {
+  const csv = prompt.split('DADOS DO LOTE:\n')[1]?.split('\n\nINSTRUÇÕES')[0] || '';
+  const [header = [], ...rows] = parseCSV(csv).rows;
+  const columns = header.map(normalizeHeader);
+  const withSources = columns[1] === 'tipo';
+  const signConvention: SignConvention = prompt.includes('valores positivos = gastos') ? 'positive-is-expense' : 'negative-is-expense';
+  const valueHeader = columns.findIndex(column => /valor|amount|value|quantia/.test(column));
+  const dateHeader = columns.findIndex(column => /data|date/.test(column));
+
+  const transactions = rows.map(row => {
+    const id = Number(row[0]);
+    const dateColumn = dateHeader >= 0 ? dateHeader : row.findIndex((cell, index) => index > 0 && parseISODate(cell) !== null);
+    const valueColumn = valueHeader >= 0
+      ? valueHeader
+      : row.findIndex((cell, index) => index > 0 && index !== dateColumn && looksLikeValor(cell));
+    const valorOriginal = valueColumn >= 0 ? row[valueColumn] : '0';
+    const tipo = withSources ? (row[1] as 'Entrada' | 'Saída') : tipoFromSignedValue(parseValorBrasileiro(valorOriginal), signConvention);
+    const text = withSources ? row[2] : row.filter((_, index) => index > 0 && index !== valueColumn && index !== dateColumn).join(' ');
+    // Answers like a model would: category, confidence and rationale, no analyzer bookkeeping
+    const [{ classificadoPor: _, ...classified }] = classifyOffline([{ id, tipo, data: '', valorCentavos: 0, descricao: text, estabelecimento: withSources ? row[3] : undefined }]);
+
+    return {
+      ...classified,
+      ...(withSources ? {} : { tipo, valorOriginal, data: (dateColumn >= 0 && parseISODate(row[dateColumn])) || '' }),
+    };
+  });
+
+  return { transactions, batch_summary: `Classificadas ${transactions.length} transações (mock)` };
+};
+
+/**
+ * General analysis answer, templated from the DATA block of the prompt
+ */
+const mockGeneralAnalysis = (prompt: string): object => {
+  const data = JSON.parse(prompt.split('DATA:\n')[1]?.split('\n\nReturn ONLY')[0] || '{}') as {
+    total_gasto?: number;
+    saldo?: number;
+    categorias?: { categoria: string; valor: number; transacoes: number }[];
+  };
+  const categorias = data.categorias || [];
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const dicas = categorias.slice(0, 2).map(categoria => ({
+    categoria: categoria.categoria,
+    valor_atual: categoria.valor,
+    frequencia_atual: `${categoria.transacoes}x no período`,
+    valor_meta: round(categoria.valor * 0.8),
+    frequencia_meta: `${Math.max(1, Math.floor(categoria.transacoes * 0.8))}x no período`,
+    economia: round(categoria.valor * 0.2),
+    comentario: `Cortar 20% de ${categoria.categoria} já ajuda (mock).`,
+  }));
+  const economiaMensal = round(dicas.reduce((sum, dica) => sum + dica.economia, 0));
+
+  return {
+    pontuacao_geral: { nota: (data.saldo ?? 0) >= 0 ? 7 : 4, comentario: 'Análise gerada pelo servidor mock.' },
+    mandou_bem: (data.saldo ?? 0) >= 0 ? 'Fechou o período no azul.' : 'Pelo menos você está olhando os números.',
+    mandou_mal: categorias[0] ? `${categorias[0].categoria} levou a maior fatia.` : 'Nada para reclamar (ainda).',
+    gasto_frequencia: categorias.slice(0, 5).map(categoria => ({
+      categoria: categoria.categoria,
+      total: categoria.valor,
+      frequencia_transacoes: categoria.transacoes,
+      ticket_medio: round(categoria.valor / Math.max(1, categoria.transacoes)),
+      comentario: `${categoria.transacoes} transações em ${categoria.categoria}.`,
+    })),
+    dicas_rapidas: dicas,
+    outros_gastos: [],
+    economia_realista: {
+      categorias: dicas.map(dica => ({ categoria: dica.categoria, economia: dica.economia })),
+      economia_mensal: economiaMensal,
+      economia_anual: round(economiaMensal * 12),
+    },
+    com_isso_voce_podia: ['Guardar a diferença todo mês (mock).'],
+  };
+};
+
+/**
+ * Deterministic answer for an analyzer prompt (classification batch or general analysis)
+ */
+export const mockChatContent = (request: ChatCompletionRequest): string => {
+  const prompt = request.messages.find(message => message.role === 'user')?.content || '';
+  if (prompt.includes('DADOS DO LOTE:')) return JSON.stringify(mockClassification(prompt));
+  if (prompt.includes('DATA:')) return JSON.stringify(mockGeneralAnalysis(prompt));
+  throw new Error('Unrecognised prompt: the mock only answers the analyzer classification and general analysis prompts');
+};
+
+const readBody = (req: IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+
+const sendJSON = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, status: number, type: string, message: string) =>
+  sendJSON(res, status, { error: { message, type, code: type } });
+
+/**
+ * Forward a request to the real server and save the response as a fixture
+ */
+const record = async (request: ChatCompletionRequest, key: string, options: MockLLMOptions): Promise<{ status: number; body: unknown }> => {
+  if (!options.upstreamURL || !options.upstreamApiKey) {
+    throw new Error('record mode needs an upstream URL and API key');
+  }
+
+  const upstream = await fetch(`${options.upstreamURL.replace(/\/$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${options.upstreamApiKey}` },
+    body: JSON.stringify(request),
+  });
+  const body = await upstream.json();
+
+  // Errors are passed through but never recorded
+  if (upstream.ok) {
+    const fixture: RecordedFixture = { request, response: body };
+    await fs.mkdir(options.fixturesDir, { recursive: true });
+    await fs.writeFile(join(options.fixturesDir, `${key}.json`), `${JSON.stringify(fixture, null, 2)}\n`, 'utf8');
+  }
+  return { status: upstream.status, body };
+};
+
+/**
+ * Create the server (not listening yet). Answers POST /chat/completions and /v1/chat/completions.
+ */
+export const createMockLLMServer = (options: MockLLMOptions): Server =>
+  createServer(async (req, res) => {
+    if (req.method !== 'POST' || !/^(\/v1)?\/chat\/completions$/.test((req.url || '').split('?')[0])) {
+      sendError(res, 404, 'not_found', `${req.method} ${req.url} is not supported by the mock`);
+      return;
+    }
+
+    try {
+      const request = JSON.parse(await readBody(req)) as ChatCompletionRequest;
+      const key = fixtureKey(request);
+
+      if (options.mode === 'mock') {
+        options.onRequest?.({ key, kind: 'mock' });
+        sendJSON(res, 200, completion(request, key, mockChatContent(request)));
+        return;
+      }
+
+      if (options.mode === 'record') {
+        const { status, body } = await record(request, key, options);
+        options.onRequest?.({ key, kind: 'recorded' });
+        sendJSON(res, status, body);
+        return;
+      }
+
+      const fixture = await fs.readFile(join(options.fixturesDir, `${key}.json`), 'utf8').catch(() => undefined);
+      if (!fixture) {
+        options.onRequest?.({ key, kind: 'missing' });
+        sendError(res, 404, 'fixture_not_found', `No fixture ${key}.json in ${options.fixturesDir}; record it with MOCK_LLM_MODE=record`);
+        return;
+      }
+      options.onRequest?.({ key, kind: 'replayed' });
+      sendJSON(res, 200, (JSON.parse(fixture) as RecordedFixture).response);
+    } catch (error) {
+      sendError(res, 400, 'invalid_request_error', error instanceof Error ? error.message : String(error));
+    }
+  });
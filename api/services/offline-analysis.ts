@@ -0,0 +1,309 @@
+// Offline analysis: classification from a keyword dictionary of common Brazilian merchants
+// and a general analysis templated from the computed totals. Used when no LLM is configured
+// (or when requested), so the app works without credentials and results are reproducible.
+// Shared with the browser client, so no Node-only imports.
+
+import type { ClassificationSource, GeneralAnalysis } from './financial-analyzer';
+import { ClassificationRule, findMatchingRule } from './classification-rules';
+import { SourceTransaction } from './source-transactions';
+import { normalizeHeader } from './value-parsers';
+
+export type AnalysisMode = 'auto' | 'llm' | 'offline'; // auto: LLM when configured, else offline
+
+export const ANALYSIS_MODES: AnalysisMode[] = ['auto', 'llm', 'offline'];
+
+// Unknown merchants, kept apart by tipo so income and spending never share a category
+export const OFFLINE_FALLBACK_CATEGORIES: Record<SourceTransaction['tipo'], string> = {
+  Entrada: 'Receitas > Outras',
+  Saída: 'Outros',
+};
+
+export interface OfflineClassification {
+  id: number;
+  categoria: string;
+  empresa: string;
+  descricao: string;
+  confianca: number; // A dictionary hit is likely right; the fallback category is a guess
+  motivo: string;
+  classificadoPor: ClassificationSource;
+}
+
+// Spending per category, as computed by the deterministic aggregation
+export interface OfflineCategoryTotal {
+  categoria: string;
+  totalCentavos: number;
+  transactionCount: number;
+  tipo: 'entrada' | 'saida';
+}
+
+export interface OfflineAnalysisData {
+  totalEntradasCentavos: number;
+  totalSaidasCentavos: number;
+  saldoCentavos: number;
+  categorias: OfflineCategoryTotal[];
+}
+
+// The fields of a classified transaction the templates look at
+export interface OfflineTransaction {
+  tipo: 'Entrada' | 'Saída';
+  valorCentavos: number;
+  empresa: string;
+}
+
+/**
+ * Dictionary entry in rule form: keywords are matched like a "contains" rule,
+ * patterns like a "regex" rule. Both see normalised text (lowercase, no accents
+ * or punctuation), so patterns are written that way.
+ */
+const entry = (id: string, empresa: string, categoria: string, match: string | RegExp): ClassificationRule => ({
+  id: `offline-${id}`,
+  name: empresa || categoria,
+  enabled: true,
+  conditions: [typeof match === 'string'
+    ? { type: 'contains', value: match }
+    : { type: 'regex', pattern: match.source }],
+  action: { categoria, ...(empresa ? { empresa } : {}) },
+});
+
+// More specific entries first: the first match wins
+export const OFFLINE_DICTIONARY: ClassificationRule[] = [
+  // Income
+  entry('salario', '', 'Receitas > Salário', /\b(salario|folha de pagamento|proventos)\b/),
+  entry('rendimento', '', 'Receitas > Rendimentos', /\b(rendimento|rend pago|juros sobre capital|dividendos)\b/),
+  entry('estorno', '', 'Receitas > Estornos', /\b(estorno|reembolso|cashback)\b/),
+  entry('pagamento-fatura', '', 'Transferências > Pagamento de Fatura', /\bpagamento (de )?fatura\b|\bpagamento recebido\b/),
+
+  // Delivery and food
+  entry('uber-eats', 'Uber Eats', 'Alimentação > Delivery', /\buber eats\b/),
+  entry('ifood', 'iFood', 'Alimentação > Delivery', /\bifood|\bifd\b/),
+  entry('rappi', 'Rappi', 'Alimentação > Delivery', 'rappi'),
+  entry('ze-delivery', 'Zé Delivery', 'Alimentação > Delivery', /\bze delivery\b/),
+  entry('mcdonalds', "McDonald's", 'Alimentação > Fast Food', /\bmc ?donald|\barcos dourados\b/),
+  entry('burger-king', 'Burger King', 'Alimentação > Fast Food', /\bburger king\b|\bbk brasil\b/),
+  entry('starbucks', 'Starbucks', 'Alimentação > Cafeteria', 'starbucks'),
+  entry('restaurante', '', 'Alimentação > Restaurantes', /\b(restaurante|lanchonete|churrascaria|pizzaria|padaria|panificadora)\b/),
+
+  // Online shopping (before groceries: "mercado livre" is not a supermarket)
+  entry('mercado-livre', 'Mercado Livre', 'Compras > Online', /\bmercado ?livre\b|\bmeli\b/),
+  entry('amazon-prime', 'Amazon Prime', 'Lazer > Streaming', /\bprime video\b|\bamazon prime\b/),
+  entry('amazon', 'Amazon', 'Compras > Online', /\bamazon\b|\bamzn\b/),
+  entry('shopee', 'Shopee', 'Compras > Online', 'shopee'),
+  entry('aliexpress', 'AliExpress', 'Compras > Online', 'aliexpress'),
+  entry('americanas', 'Americanas', 'Compras > Online', 'americanas'),
+  entry('magalu', 'Magazine Luiza', 'Compras > Eletrônicos', /\bmagazine luiza\b|\bmagalu\b/),
+  entry('shein', 'Shein', 'Compras > Vestuário', 'shein'),
+  entry('renner', 'Renner', 'Compras > Vestuário', /\brenner\b/),
+  entry('riachuelo', 'Riachuelo', 'Compras > Vestuário', 'riachuelo'),
+  entry('vestuario', '', 'Compras > Vestuário', /\b(roupa|roupas|c a modas|zara|hering|vestuario)\b/),
+
+  // Groceries
+  entry('carrefour', 'Carrefour', 'Alimentação > Supermercado', 'carrefour'),
+  entry('pao-de-acucar', 'Pão de Açúcar', 'Alimentação > Supermercado', /\bpao de acucar\b|\bgpa\b/),
+  entry('assai', 'Assaí', 'Alimentação > Supermercado', /\bassai\b/),
+  entry('atacadao', 'Atacadão', 'Alimentação > Supermercado', /\batacadao\b/),
+  entry('supermercado', '', 'Alimentação > Supermercado', /\b(supermercado|supermercados|mercado|hortifruti|sacolao|atacarejo)\b/),
+
+  // Transport
+  entry('uber', 'Uber', 'Transporte > Apps > Uber', /\buber\b/),
+  entry('99', '99', 'Transporte > Apps > 99', /\b99 ?(app|pop|taxi|tecnologia)\b/),
+  entry('shell', 'Posto Shell', 'Transporte > Combustível', /\bshell\b/),
+  entry('ipiranga', 'Posto Ipiranga', 'Transporte > Combustível', 'ipiranga'),
+  entry('petrobras', 'Posto Petrobras', 'Transporte > Combustível', /\bpetrobras\b|\bposto br\b/),
+  entry('posto', '', 'Transporte > Combustível', /\b(posto|combustivel|combustiveis|gasolina|etanol)\b/),
+  entry('estacionamento', '', 'Transporte > Estacionamento', /\b(estacionamento|estapar|zona azul)\b/),
+  entry('pedagio', '', 'Transporte > Pedágio', /\b(pedagio|sem parar|conectcar|veloe)\b/),
+
+  // Health
+  entry('drogasil', 'Drogasil', 'Saúde > Farmácia', 'drogasil'),
+  entry('droga-raia', 'Droga Raia', 'Saúde > Farmácia', /\bdroga ?raia\b/),
+  entry('pague-menos', 'Pague Menos', 'Saúde > Farmácia', /\bpague ?menos\b/),
+  entry('farmacia', '', 'Saúde > Farmácia', /\b(farmacia|drogaria)\b/),
+  entry('plano-saude', '', 'Saúde > Plano de Saúde', /\b(unimed|amil|bradesco saude|sulamerica|hapvida|notredame|plano (de )?saude)\b/),
+  entry('smart-fit', 'Smart Fit', 'Saúde > Academia', /\bsmart ?fit\b/),
+  entry('academia', '', 'Saúde > Academia', /\b(academia|gympass|wellhub|totalpass)\b/),
+
+  // Streaming and subscriptions
+  entry('netflix', 'Netflix', 'Lazer > Streaming', 'netflix'),
+  entry('spotify', 'Spotify', 'Lazer > Streaming', 'spotify'),
+  entry('disney', 'Disney+', 'Lazer > Streaming', /\bdisney\b/),
+  entry('hbo', 'Max', 'Lazer > Streaming', /\bhbo ?max\b/),
+  entry('youtube', 'YouTube Premium', 'Lazer > Streaming', /\byoutube\b/),
+  entry('globoplay', 'Globoplay', 'Lazer > Streaming', 'globoplay'),
+  entry('cinema', '', 'Lazer > Cinema', /\b(cinemark|cinepolis|kinoplex|cinema|ingresso com)\b/),
+  entry('apple', 'Apple', 'Assinaturas > Apps', /\bapple com\b|\bitunes\b/),
+  entry('google', 'Google', 'Assinaturas > Apps', /\bgoogle (storage|one|play)\b/),
+
+  // Home and bills
+  entry('aluguel', '', 'Moradia > Aluguel', /\b(aluguel|imobiliaria)\b/),
+  entry('condominio', '', 'Moradia > Condomínio', /\bcondominio\b/),
+  entry('energia', '', 'Moradia > Energia', /\b(enel|eletropaulo|cemig|copel|celesc|coelba|cpfl|energia eletrica|conta de luz)\b/),
+  entry('agua', '', 'Moradia > Água', /\b(sabesp|cedae|copasa|sanepar|embasa|compesa)\b/),
+  entry('internet', '', 'Moradia > Internet e Telefone', /\b(vivo|claro|oi fibra|telefonica)\b/),
+
+  // Bank fees and transfers
+  entry('iof', '', 'Taxas > IOF', /\biof\b/),
+  entry('juros', '', 'Taxas > Juros e Multas', /\b(juros|multa|encargos)\b/),
+  entry('tarifa', '', 'Taxas > Tarifas Bancárias', /\b(tarifa|anuidade|cesta de servicos)\b/),
+  entry('transferencia', '', 'Transferências > Transferências', /\b(pix|ted|doc|transferencia)\b/),
+];
+
+/**
+ * Dictionary entry that matches a transaction, if any
+ */
+export const matchOfflineDictionary = (
+  source: SourceTransaction,
+  dictionary: ClassificationRule[] = OFFLINE_DICTIONARY
+): ClassificationRule | undefined =>
+  findMatchingRule(dictionary, {
+    ...source,
+    descricao: normalizeHeader(source.descricao),
+    ...(source.estabelecimento ? { estabelecimento: normalizeHeader(source.estabelecimento) } : {}),
+  });
+
+/**
+ * Classify transactions with the dictionary. Unknown merchants go to the fallback
+ * category of their tipo, with the merchant column (or the description) as empresa.
+ */
+export const classifyOffline = (
+  sources: SourceTransaction[],
+  dictionary: ClassificationRule[] = OFFLINE_DICTIONARY
+): OfflineClassification[] =>
+  sources.map(source => {
+    const match = matchOfflineDictionary(source, dictionary);
+
+    return {
+      id: source.id,
+      categoria: match?.action.categoria || OFFLINE_FALLBACK_CATEGORIES[source.tipo],
+      empresa: match?.action.empresa || source.estabelecimento || source.descricao,
+      descricao: source.descricao,
+      confianca: match ? 0.8 : 0.2,
+      motivo: match ? `Dicionário: ${match.name}` : 'Estabelecimento fora do dicionário',
+      classificadoPor: 'dicionario',
+    };
+  });
+
+const formatBRL = (centavos: number): string =>
+  (centavos / 100).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+const toReais = (centavos: number): number => Math.round(centavos) / 100;
+
+const formatPercent = (value: number): string => `${value.toLocaleString('pt-BR', { maximumFractionDigits: 1 })}%`;
+
+/**
+ * Score from 1 to 10: how much of the income was left over.
+ * Card statements (no income) get a neutral 5.
+ */
+const scoreOf = (data: OfflineAnalysisData): number => {
+  if (data.totalEntradasCentavos === 0) return 5;
+  const savingsRate = data.saldoCentavos / data.totalEntradasCentavos;
+  return Math.min(10, Math.max(1, Math.round(5 + savingsRate * 20)));
+};
+
+const scoreComment = (nota: number, data: OfflineAnalysisData): string => {
+  if (data.totalEntradasCentavos === 0) {
+    return `Só vi gastos por aqui (${formatBRL(data.totalSaidasCentavos)}), então a nota fica em cima do muro.`;
+  }
+  if (nota >= 8) return `Sobrou ${formatBRL(data.saldoCentavos)}. Quem diria, um adulto funcional.`;
+  if (nota >= 5) return `Fechou no azul por pouco: ${formatBRL(data.saldoCentavos)}. Nada de comemorar no iFood.`;
+  return `Saiu ${formatBRL(-data.saldoCentavos)} a mais do que entrou. O cartão agradece, o futuro nem tanto.`;
+};
+
+// What the yearly savings could pay for, from the cheapest up
+const ASPIRATIONS: Array<[number, string]> = [
+  [30000, 'um fim de semana na praia sem parcelar'],
+  [100000, 'um celular novo à vista'],
+  [300000, 'uma reserva de emergência de verdade começando a existir'],
+  [600000, 'uma viagem internacional em baixa temporada'],
+  [1500000, 'a entrada de um carro usado'],
+];
+
+/**
+ * General analysis built only from the numbers: same structure as the LLM's,
+ * always the same text for the same data
+ */
+export const buildOfflineGeneralAnalysis = (
+  data: OfflineAnalysisData,
+  transactions: OfflineTransaction[]
+): GeneralAnalysis => {
+  const gastos = data.categorias
+    .filter(cat => cat.tipo === 'saida' && cat.totalCentavos > 0)
+    .sort((a, b) => b.totalCentavos - a.totalCentavos || a.categoria.localeCompare(b.categoria));
+  const percentualDe = (centavos: number) =>
+    formatPercent(data.totalSaidasCentavos > 0 ? (centavos / data.totalSaidasCentavos) * 100 : 0);
+
+  const nota = scoreOf(data);
+  const maior = gastos[0];
+  const menor = gastos[gastos.length - 1];
+
+  const dicas = gastos.slice(0, 3).map(cat => {
+    const economiaCentavos = Math.round(cat.totalCentavos * 0.2);
+    return {
+      categoria: cat.categoria,
+      valor_atual: toReais(cat.totalCentavos),
+      frequencia_atual: `${cat.transactionCount}x no período`,
+      valor_meta: toReais(cat.totalCentavos - economiaCentavos),
+      frequencia_meta: `${Math.max(1, Math.floor(cat.transactionCount * 0.8))}x no período`,
+      economia: toReais(economiaCentavos),
+      comentario: `Cortar 20% de ${cat.categoria} já rende ${formatBRL(economiaCentavos)}.`,
+    };
+  });
+  const economiaMensalCentavos = dicas.reduce((sum, dica) => sum + Math.round(dica.economia * 100), 0);
+  const economiaAnualCentavos = economiaMensalCentavos * 12;
+
+  const porEmpresa = new Map<string, number>();
+  transactions
+    .filter(transaction => transaction.tipo === 'Saída')
+    .forEach(transaction => porEmpresa.set(transaction.empresa, (porEmpresa.get(transaction.empresa) || 0) + transaction.valorCentavos));
+  const outros = Array.from(porEmpresa, ([empresa, totalCentavos]) => ({ empresa, totalCentavos }))
+    .filter(merchant => merchant.totalCentavos > 0)
+    .sort((a, b) => b.totalCentavos - a.totalCentavos || a.empresa.localeCompare(b.empresa))
+    .slice(0, 5);
+
+  const aspiracoes = ASPIRATIONS
+    .filter(([minimo]) => economiaAnualCentavos >= minimo)
+    .map(([, texto]) => texto);
+
+  return {
+    pontuacao_geral: {
+      nota,
+      comentario: scoreComment(nota, data),
+    },
+    mandou_bem: menor && menor !== maior
+      ? `${menor.categoria} ficou em só ${formatBRL(menor.totalCentavos)}. Pelo menos ali teve controle.`
+      : 'Poucas categorias de gasto: difícil se perder assim.',
+    mandou_mal: maior
+      ? `${maior.categoria} levou ${formatBRL(maior.totalCentavos)} (${percentualDe(maior.totalCentavos)} dos gastos).`
+      : 'Nenhum gasto encontrado. Ou você é monge, ou o arquivo está vazio.',
+    gasto_frequencia: gastos.slice(0, 5).map(cat => ({
+      categoria: cat.categoria,
+      total: toReais(cat.totalCentavos),
+      frequencia_transacoes: cat.transactionCount,
+      ticket_medio: toReais(cat.totalCentavos / Math.max(1, cat.transactionCount)),
+      comentario: `${cat.transactionCount} ${cat.transactionCount === 1 ? 'transação' : 'transações'}, ${percentualDe(cat.totalCentavos)} de tudo que saiu.`,
+    })),
+    dicas_rapidas: dicas,
+    outros_gastos: outros.map(merchant => ({
+      estabelecimento: merchant.empresa,
+      total: toReais(merchant.totalCentavos),
+      comentario: `${formatBRL(merchant.totalCentavos)} num lugar só. Vale a pena?`,
+    })),
+    economia_realista: {
+      categorias: dicas.map(dica => ({ categoria: dica.categoria, economia: dica.economia })),
+      economia_mensal: toReais(economiaMensalCentavos),
+      economia_anual: toReais(economiaAnualCentavos),
+    },
+    com_isso_voce_podia: aspiracoes.length > 0
+      ? aspiracoes
+      : [`guardar ${formatBRL(economiaAnualCentavos)} por ano sem perceber`],
+  };
+};
+
+/**
+ * Validate the analysis mode received in a request body
+ */
+export const parseAnalysisModeInput = (input: unknown): AnalysisMode => {
+  if (!ANALYSIS_MODES.includes(input as AnalysisMode)) {
+    throw new Error(`mode must be one of: ${ANALYSIS_MODES.join(', ')}`);
+  }
+  return input as AnalysisMode;
+};
@@ -0,0 +1,136 @@
+// OFX/QFX statement parser (OFX 1.x SGML and OFX 2.x XML).
+// Both versions close the <STMTTRN> aggregate, so transactions are read block by block
+// and leaf values are taken up to the next tag or line break (SGML leaves are not closed).
+
+import { parseValorBrasileiro } from './value-parsers';
+
+export interface OFXTransaction {
+  fitId: string;
+  trnType: string;
+  data: string; // YYYY-MM-DD
+  valorCentavos: number; // Signed as in the statement: negative = debit, positive = credit
+  name: string;
+  memo: string;
+  checkNum?: string;
+}
+
+export interface OFXStatement {
+  version: 1 | 2;
+  accountType: 'conta' | 'cartao';
+  bankId?: string;
+  accountId?: string;
+  currency?: string;
+  transactions: OFXTransaction[];
+  duplicates: OFXTransaction[]; // Repeated blocks dropped (same FITID, date and amount)
+}
+
+/**
+ * Check whether the content looks like an OFX/QFX document
+ */
+export const isOFXContent = (content: string): boolean => {
+  const head = content.slice(0, 2000).toUpperCase();
+  return head.includes('OFXHEADER') || head.includes('<OFX>') || /<\?OFX\s/.test(head);
+};
+
+const decodeEntities = (value: string): string =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+
+/**
+ * Read a leaf element value, e.g. <TRNAMT>-50.00 or <TRNAMT>-50.00</TRNAMT>
+ */
+const readTag = (block: string, tag: string): string | undefined => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? decodeEntities(match[1]).trim() : undefined;
+};
+
+/**
+ * Parse OFX date (YYYYMMDD[HHMMSS[.XXX]][[gmt offset:tz]]) to YYYY-MM-DD
+ */
+const parseOFXDate = (value: string | undefined): string => {
+  const match = (value || '').match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) {
+    throw new Error(`Invalid OFX date: "${value}"`);
+  }
+  return `${match[1]}-${match[2]}-${match[3]}`;
+};
+
+/**
+ * Parse OFX amount to cents. Some Brazilian banks export "-50,00" or "-1.234,56" instead
+ * of "-50.00", so the last separator decides, as for CSV values.
+ */
+const parseOFXAmount = (value: string | undefined): number => {
+  const clean = (value || '').replace(/\s/g, '');
+  if (!/^[+-]?(\d[\d.,]*)$/.test(clean)) {
+    throw new Error(`Invalid OFX amount: "${value}"`);
+  }
+  return parseValorBrasileiro(clean);
+};
+
+/**
+ * Parse an OFX/QFX document into statement metadata and transactions.
+ * A block repeating the FITID, date and amount of an earlier one is dropped and reported
+ * in duplicates; banks that reuse FITIDs for different transactions keep all of them.
+ */
+export const parseOFX = (content: string): OFXStatement => {
+  if (!isOFXContent(content)) {
+    throw new Error('Content is not an OFX document');
+  }
+
+  const version: 1 | 2 = /<\?xml/i.test(content.slice(0, 500)) ? 2 : 1;
+  const accountType = /<CCSTMTRS>/i.test(content) ? 'cartao' : 'conta';
+
+  const blocks = content.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) || [];
+  const seen = new Set<string>();
+  const transactions: OFXTransaction[] = [];
+  const duplicates: OFXTransaction[] = [];
+
+  blocks.forEach((block, index) => {
+    const transaction: OFXTransaction = {
+      fitId: readTag(block, 'FITID') || `ofx-${index + 1}`,
+      trnType: (readTag(block, 'TRNTYPE') || 'OTHER').toUpperCase(),
+      data: parseOFXDate(readTag(block, 'DTPOSTED') || readTag(block, 'DTUSER')),
+      valorCentavos: parseOFXAmount(readTag(block, 'TRNAMT')),
+      name: readTag(block, 'NAME') || readTag(block, 'PAYEE') || '',
+      memo: readTag(block, 'MEMO') || '',
+      checkNum: readTag(block, 'CHECKNUM'),
+    };
+
+    const key = [transaction.fitId, transaction.data, transaction.valorCentavos].join('|');
+    if (seen.has(key)) {
+      duplicates.push(transaction);
+      return;
+    }
+    seen.add(key);
+    transactions.push(transaction);
+  });
+
+  if (transactions.length === 0) {
+    throw new Error('No <STMTTRN> transactions found in OFX document');
+  }
+
+  return {
+    version,
+    accountType,
+    bankId: readTag(content, 'BANKID'),
+    accountId: readTag(content, 'ACCTID'),
+    currency: readTag(content, 'CURDEF'),
+    transactions,
+    duplicates,
+  };
+};
+
+/**
+ * Human-readable description combining NAME and MEMO without repeating them
+ */
+export const describeOFXTransaction = (transaction: OFXTransaction): string => {
+  const { name, memo } = transaction;
+  if (!memo) return name;
+  if (!name || memo.toLowerCase().includes(name.toLowerCase())) return memo;
+  return `${name} - ${memo}`;
+};
@@ -0,0 +1,128 @@
+// PII redaction: CPF/CNPJ numbers, Pix keys, phone numbers, e-mails and the names of people
+// in transfers are replaced by placeholders ("[CPF_1]") before a batch goes to the LLM, and
+// put back in the descricao/empresa it returns. The mapping never leaves the server.
+// Only description and merchant text is masked: dates and amounts reach the prompt as they are.
+
+import { looksLikeValor, parseISODate } from './value-parsers';
+
+export type PIIKind = 'CPF' | 'CNPJ' | 'EMAIL' | 'TELEFONE' | 'CHAVE_PIX' | 'NOME';
+
+export const PII_KINDS: PIIKind[] = ['CPF', 'CNPJ', 'EMAIL', 'TELEFONE', 'CHAVE_PIX', 'NOME'];
+
+// Distinct values masked, per kind
+export type RedactionReport = Record<PIIKind, number>;
+
+// Placeholder → original value, for one batch
+export type RedactionVault = Map<string, string>;
+
+export const emptyRedactionReport = (): RedactionReport => ({
+  CPF: 0,
+  CNPJ: 0,
+  EMAIL: 0,
+  TELEFONE: 0,
+  CHAVE_PIX: 0,
+  NOME: 0,
+});
+
+// Order matters: longer document numbers before shorter ones, e-mails before anything that
+// could match inside them
+const PATTERNS: { kind: PIIKind; pattern: RegExp }[] = [
+  { kind: 'EMAIL', pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g },
+  // Random Pix keys (EVP) are UUIDs
+  { kind: 'CHAVE_PIX', pattern: /\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi },
+  { kind: 'CNPJ', pattern: /\b\d{2}\.?\d{3}\.?\d{3}\/?\d{4}-?\d{2}\b/g },
+  // Also the partially masked form some banks print (***.456.789-**)
+  { kind: 'CPF', pattern: /(?:\b\d{3}|\*{3})\.\d{3}\.\d{3}-(?:\d{2}\b|\*{2})|\b\d{3}\.?\d{3}\.?\d{3}-?\d{2}\b/g },
+  { kind: 'TELEFONE', pattern: /(?:\+55\s?)?\(\d{2}\)\s?9?\d{4}-?\d{4}\b|\+55\s?\d{2}\s?9?\d{4}-?\d{4}\b|\b\d{2}\s9?\d{4}-\d{4}\b|\b9\d{4}-\d{4}\b/g },
+];
+
+// "PIX ENVIADO JOAO DA SILVA", "TED RECEBIDA - Maria Souza", "Transferência para Ana Lima"
+const TRANSFER_NAME = /\b(?:pix|ted|doc|transf\w*|transfer[eê]ncia)(?:\s+(?:enviad[oa]|recebid[oa]|emitid[oa]|realizad[oa]|para|de|pelo|via|pix|p\/|-|\d+))*\s+([A-Za-zÀ-ÿ]+(?:\s+[A-Za-zÀ-ÿ]+){1,5})/gi;
+
+// Transfers to companies keep the name: it is what the classification needs
+const BUSINESS_WORDS = new Set([
+  'ltda', 'me', 'sa', 'eireli', 'epp', 'mei', 'banco', 'bank', 'pagamento', 'pagamentos', 'pago', 'mercado',
+  'loja', 'comercio', 'servicos', 'restaurante', 'farmacia', 'posto', 'supermercado', 'instituicao', 'ip',
+  'qr', 'qrs', 'code', 'codigo', 'estatico', 'dinamico', 'cobranca', 'compra', 'saque', 'tarifa', 'agendado',
+]);
+
+const NAME_CONNECTORS = new Set(['da', 'de', 'do', 'dos', 'das', 'e']);
+
+const isPersonName = (name: string): boolean => {
+  const words = name.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').split(/\s+/);
+  return !words.some(word => BUSINESS_WORDS.has(word)) &&
+    words.filter(word => !NAME_CONNECTORS.has(word)).length >= 2;
+};
+
+/**
+ * Redact one text, reusing the placeholders already in the vault for repeated values
+ */
+const redactText = (text: string, vault: RedactionVault, byValue: Map<string, string>, report: RedactionReport): string => {
+  const placeholderFor = (kind: PIIKind, value: string) => {
+    let placeholder = byValue.get(value);
+    if (!placeholder) {
+      report[kind]++;
+      placeholder = `[${kind}_${report[kind]}]`;
+      byValue.set(value, placeholder);
+      vault.set(placeholder, value);
+    }
+    return placeholder;
+  };
+
+  const redacted = PATTERNS.reduce(
+    (current, { kind, pattern }) => current.replace(pattern, match => placeholderFor(kind, match)),
+    text
+  );
+  return redacted.replace(TRANSFER_NAME, (match, name: string) =>
+    isPersonName(name) ? match.replace(name, placeholderFor('NOME', name)) : match
+  );
+};
+
+// Cents or a currency sign: what an amount has and a CPF or account number does not
+const AMOUNT_MARKER = /[.,]\d{1,2}\)?$|\$/;
+
+// Dates and amounts are never personal data, and a masked one would corrupt the row.
+// A bare digit run ("12345678901") parses as an amount too, so it still goes through the patterns
+const isDateOrAmount = (cell: string): boolean =>
+  !!parseISODate(cell) || (looksLikeValor(cell) && AMOUNT_MARKER.test(cell.trim()));
+
+/**
+ * Redact the data rows of a batch. With textColumns (the description and merchant columns
+ * of locally read rows) only those are masked; raw CSV rows, whose columns are unknown,
+ * have every cell masked except dates and amounts. The first column (the id joining the
+ * classification back to the row) and the header are left as they are.
+ */
+export const redactRows = (
+  rows: string[][],
+  textColumns?: number[]
+): { rows: string[][]; vault: RedactionVault; report: RedactionReport } => {
+  const vault: RedactionVault = new Map();
+  const byValue = new Map<string, string>();
+  const report = emptyRedactionReport();
+
+  const isText = (cell: string, column: number) =>
+    column !== 0 && (textColumns ? textColumns.includes(column) : !isDateOrAmount(cell));
+
+  const redacted = rows.map((row, index) =>
+    index === 0 ? row : row.map((cell, column) => (isText(cell, column) ? redactText(cell, vault, byValue, report) : cell))
+  );
+  return { rows: redacted, vault, report };
+};
+
+/**
+ * Put the original values back in place of the placeholders
+ */
+export const restoreText = (text: string | undefined, vault: RedactionVault): string | undefined =>
+  text && vault.size > 0
+    ? text.replace(/\[(?:CPF|CNPJ|EMAIL|TELEFONE|CHAVE_PIX|NOME)_\d+\]/g, placeholder => vault.get(placeholder) ?? placeholder)
+    : text;
+
+/**
+ * Add a batch report to the totals
+ */
+export const addRedactionReport = (total: RedactionReport, report: RedactionReport): RedactionReport => {
+  PII_KINDS.forEach(kind => {
+    total[kind] += report[kind];
+  });
+  return total;
+};
@@ -0,0 +1,124 @@
+// A/B comparison of prompt versions: the same input is analysed once per version set and
+// the two results are diffed per transaction (categoria, tipo) and per category total.
+
+import { AnalysisOptions, CSVAnalysisResult, TransactionData, analyzeCSVWithAI } from './financial-analyzer';
+import { PROMPT_TEMPLATES, PromptVersions } from './prompt-templates';
+import type { LLMStage } from './llm-provider';
+import type { UsageReport } from './llm-usage';
+
+export interface ComparedRun {
+  promptVersions: PromptVersions;
+  totals: { entradas: number; saidas: number; saldo: number }; // Reais
+  usage?: UsageReport;
+}
+
+export interface TransactionDiff {
+  id: number;
+  descricao: string;
+  valorCentavos: number;
+  a: { categoria: string; tipo: string };
+  b: { categoria: string; tipo: string };
+}
+
+export interface CategoryTotalDiff {
+  categoria: string;
+  tipo: 'Entrada' | 'Saída';
+  a: number; // Centavos, 0 when the category is missing from that run
+  b: number;
+}
+
+export interface PromptComparison {
+  a: ComparedRun;
+  b: ComparedRun;
+  agreement: number; // Share of the transactions (from either run) classified the same way (0–1)
+  changed: TransactionDiff[];
+  categories: CategoryTotalDiff[]; // Only the categories whose totals differ
+}
+
+const runOf = (result: CSVAnalysisResult): ComparedRun => ({
+  promptVersions: result.promptVersions,
+  totals: { entradas: result.insights.totalEntradas, saidas: result.insights.totalSaidas, saldo: result.insights.saldo },
+  ...(result.usage ? { usage: result.usage } : {}),
+});
+
+/**
+ * Diff two analyses of the same input, joining transactions by id
+ */
+export const diffAnalyses = (a: CSVAnalysisResult, b: CSVAnalysisResult): PromptComparison => {
+  const fromA = new Map(a.transactions.map(transaction => [transaction.id, transaction]));
+  const fromB = new Map(b.transactions.map(transaction => [transaction.id, transaction]));
+  const ids = Array.from(new Set([...fromA.keys(), ...fromB.keys()])).sort((x, y) => x - y);
+  const changed: TransactionDiff[] = [];
+  let same = 0;
+
+  // Rows only one run returned count as changed, shown as missing on the other side
+  const sideOf = (transaction: TransactionData | undefined) =>
+    transaction ? { categoria: transaction.categoria, tipo: transaction.tipo } : { categoria: '(ausente)', tipo: '' };
+
+  ids.forEach(id => {
+    const inA = fromA.get(id);
+    const inB = fromB.get(id);
+    if (inA && inB && inA.categoria === inB.categoria && inA.tipo === inB.tipo) {
+      same++;
+      return;
+    }
+    const transaction = (inA || inB) as TransactionData;
+    changed.push({
+      id,
+      descricao: transaction.descricao,
+      valorCentavos: transaction.valorCentavos,
+      a: sideOf(inA),
+      b: sideOf(inB),
+    });
+  });
+
+  // Category totals side by side, keyed by tipo and name
+  const totals = new Map<string, CategoryTotalDiff>();
+  const add = (result: CSVAnalysisResult, side: 'a' | 'b') => result.transactions.forEach(transaction => {
+    const key = `${transaction.tipo}|${transaction.categoria}`;
+    const entry = totals.get(key) || { categoria: transaction.categoria, tipo: transaction.tipo, a: 0, b: 0 };
+    entry[side] += transaction.valorCentavos;
+    totals.set(key, entry);
+  });
+  add(a, 'a');
+  add(b, 'b');
+
+  return {
+    a: runOf(a),
+    b: runOf(b),
+    agreement: ids.length === 0 ? 1 : same / ids.length,
+    changed,
+    categories: Array.from(totals.values())
+      .filter(category => category.a !== category.b)
+      .sort((x, y) => Math.abs(y.b - y.a) - Math.abs(x.b - x.a)),
+  };
+};
+
+/**
+ * Prompt versions from their names ("classification-v3"), each assigned to the stage that
+ * has it
+ */
+export const promptVersionsFromNames = (names: string[]): Partial<PromptVersions> =>
+  Object.fromEntries(names.map(name => {
+    const stage = (Object.keys(PROMPT_TEMPLATES) as LLMStage[]).find(candidate => PROMPT_TEMPLATES[candidate][name]);
+    if (!stage) {
+      const known = Object.values(PROMPT_TEMPLATES).flatMap(templates => Object.keys(templates));
+      throw new Error(`Unknown prompt version "${name}"; known: ${known.join(', ')}`);
+    }
+    return [stage, name];
+  }));
+
+/**
+ * Analyse the same CSV with two prompt version sets, one after the other, and diff them.
+ * Always uses the LLM; the response cache still applies per version.
+ */
+export const comparePromptVersions = async (
+  csvContent: string,
+  a: Partial<PromptVersions>,
+  b: Partial<PromptVersions>,
+  options: AnalysisOptions = {}
+): Promise<PromptComparison> => {
+  const resultA = await analyzeCSVWithAI(csvContent, undefined, { ...options, mode: 'llm', promptVersions: a });
+  const resultB = await analyzeCSVWithAI(csvContent, undefined, { ...options, mode: 'llm', promptVersions: b });
+  return diffAnalyses(resultA, resultB);
+};
@@ -0,0 +1,247 @@
+// Prompt templates, versioned per stage. The analyzer renders them with {{variables}}; the
+// version in use is part of the response cache keys and is reported with every LLM analysis,
+// so changing a prompt means adding a version here, never editing one in place.
+
+import type { LLMStage } from './llm-provider';
+
+// Prompt version per stage ("classification-v2")
+export type PromptVersions = Record<LLMStage, string>;
+
+export interface ClassificationPrompt {
+  description: string; // What this version changed
+  system: string;
+  // Variables: batchNumber, totalBatches, batchCSV, placeholderRule, suggestedCategories, taxonomy
+  sources: string; // Values and dates read locally: only the category is asked for
+  // Variables: the above and signRule
+  raw: string; // The LLM reads values, dates and signs from the CSV too
+}
+
+export interface AnalysisPrompt {
+  description: string;
+  system: string;
+  user: string; // Variables: data (the aggregated numbers as JSON)
+}
+
+const CLASSIFICATION_SYSTEM = 'You are a financial transaction classifier. Respond ONLY with valid JSON. Do NOT calculate totals - only classify!';
+
+const SOURCES_V2 = `
+Você está classificando transações financeiras. Este é o lote {{batchNumber}} de {{totalBatches}}.
+Valores e datas já foram lidos do arquivo; você só precisa categorizar pela descrição.
+
+DADOS DO LOTE:
+{{batchCSV}}
+
+INSTRUÇÕES:
+1. Processe TODAS as linhas de dados (ignorando header se repetido)
+2. Para cada linha, classifique a transação com:
+   - id: copie EXATAMENTE o valor da coluna "id"
+   - categoria: use categorização precisa baseada no estabelecimento/descrição (a coluna "Tipo" indica se é Entrada ou Saída)
+   - empresa: nome da empresa/estabelecimento
+   - descricao: descrição limpa em português
+
+{{placeholderRule}}NÃO CALCULE TOTAIS - apenas classifique!
+
+RETORNE APENAS JSON:
+{
+  "transactions": [
+    {
+      "id": 1,
+      "categoria": "Lazer > Streaming",
+      "empresa": "LinkedIn",
+      "descricao": "Assinatura LinkedIn"
+    }
+  ],
+  "batch_summary": "Classificadas X transações"
+}`.trim();
+
+const RAW_V2 = `
+Você está classificando transações financeiras. Este é o lote {{batchNumber}} de {{totalBatches}}.
+
+DADOS DO LOTE:
+{{batchCSV}}
+
+INSTRUÇÕES:
+1. Processe TODAS as linhas de dados (ignorando header se repetido)
+2. Para cada linha, classifique a transação com:
+   - id: copie EXATAMENTE o valor da primeira coluna ("id")
+   - tipo: "Entrada" ou "Saída" (IMPORTANTE: {{signRule}})
+   - valorOriginal: valor EXATO como aparece no CSV
+   - categoria: use categorização precisa baseada no estabelecimento/descrição
+   - empresa: nome da empresa/estabelecimento
+   - descricao: descrição limpa em português (mantenha a parcela, ex: "Parcela 3/10")
+   - data: converta para formato YYYY-MM-DD
+
+{{placeholderRule}}NÃO CALCULE TOTAIS - apenas classifique!
+
+RETORNE APENAS JSON:
+{
+  "transactions": [
+    {
+      "id": 1,
+      "tipo": "Saída",
+      "valorOriginal": "69.99",
+      "categoria": "Lazer > Streaming",
+      "empresa": "LinkedIn",
+      "descricao": "Assinatura LinkedIn",
+      "data": "2025-08-03"
+    }
+  ],
+  "batch_summary": "Classificadas X transações"
+}`.trim();
+
+// v3: the category comes from a fixed list whenever one fits, so the same merchant lands in
+// the same category across batches and files
+const CATEGORY_LIST_RULE = `
+CATEGORIAS SUGERIDAS (use exatamente uma destas sempre que couber; só crie outra, no mesmo formato "Grupo > Subgrupo", se nenhuma servir):
+{{suggestedCategories}}
+`.trim();
+
+// v4: the category must be a path of the user's taxonomy, so totals never fragment over
+// spelling variants of the same category
+const TAXONOMY_RULE = `
+CATEGORIAS PERMITIDAS (a categoria DEVE ser exatamente um destes caminhos; sinônimos entre parênteses só ajudam a escolher e não devem ser copiados):
+{{taxonomy}}
+Se nenhuma subcategoria servir, use a categoria de cima (ex: "Compras"); se nada servir, use "Outros". NÃO invente categorias.
+`.trim();
+
+const withRule = (template: string, rule: string) => template.replace('{{placeholderRule}}', `${rule}\n\n{{placeholderRule}}`);
+
+// v5: a confidence and a one-line rationale per row, so doubtful rows can be reviewed first
+const CONFIDENCE_FIELDS = `
+   - confianca: número de 0 a 1, o quanto você tem certeza da categoria (use menos de 0.5 quando a descrição não deixa claro)
+   - motivo: em poucas palavras, por que escolheu essa categoria
+`;
+
+const withConfidence = (template: string) => template
+  .replace(/( {3}- descricao: [^\n]*\n)/, `$1${CONFIDENCE_FIELDS.slice(1)}`)
+  .replace('"descricao": "Assinatura LinkedIn"', '"descricao": "Assinatura LinkedIn",\n      "confianca": 0.7,\n      "motivo": "Assinatura mensal de serviço online"');
+
+export const CLASSIFICATION_PROMPTS: Record<string, ClassificationPrompt> = {
+  'classification-v2': {
+    description: 'Free-form categories, with an example path',
+    system: CLASSIFICATION_SYSTEM,
+    sources: SOURCES_V2,
+    raw: RAW_V2,
+  },
+  'classification-v3': {
+    description: 'Categories chosen from the suggested list when one fits',
+    system: CLASSIFICATION_SYSTEM,
+    sources: withRule(SOURCES_V2, CATEGORY_LIST_RULE),
+    raw: withRule(RAW_V2, CATEGORY_LIST_RULE),
+  },
+  'classification-v4': {
+    description: 'Categories constrained to the taxonomy paths',
+    system: CLASSIFICATION_SYSTEM,
+    sources: withRule(SOURCES_V2, TAXONOMY_RULE),
+    raw: withRule(RAW_V2, TAXONOMY_RULE),
+  },
+  'classification-v5': {
+    description: 'Taxonomy paths, with a confidence and a rationale per row',
+    system: CLASSIFICATION_SYSTEM,
+    sources: withConfidence(withRule(SOURCES_V2, TAXONOMY_RULE)),
+    raw: withConfidence(withRule(RAW_V2, TAXONOMY_RULE)),
+  },
+};
+
+export const ANALYSIS_PROMPTS: Record<string, AnalysisPrompt> = {
+  'analysis-v1': {
+    description: 'Sarcastic overview with score, tips and realistic savings',
+    system: 'You are a sarcastic financial analyst. Respond ONLY with valid JSON. Use Brazilian Portuguese and be provocatively humorous.',
+    user: `
+Generate a financial analysis in Portuguese with a humorous, provocative tone.
+
+DATA:
+{{data}}
+
+Return ONLY valid JSON with this structure:
+{
+  "pontuacao_geral": {
+    "nota": 1-10,
+    "comentario": "sarcastic comment about the score"
+  },
+  "mandou_bem": "one positive point about spending",
+  "mandou_mal": "one embarrassing negative point",
+  "gasto_frequencia": [
+    {
+      "categoria": "category name",
+      "total": numeric_value,
+      "frequencia_transacoes": integer,
+      "ticket_medio": numeric_value,
+      "comentario": "sarcastic comment about spending"
+    }
+  ],
+  "dicas_rapidas": [
+    {
+      "categoria": "category name",
+      "valor_atual": numeric_value,
+      "frequencia_atual": "current frequency string",
+      "valor_meta": numeric_value,
+      "frequencia_meta": "target frequency string",
+      "economia": savings_value,
+      "comentario": "sharp comment about the tip"
+    }
+  ],
+  "outros_gastos": [
+    {
+      "estabelecimento": "establishment name",
+      "total": numeric_value,
+      "comentario": "sarcastic comment about this place"
+    }
+  ],
+  "economia_realista": {
+    "categorias": [
+      {
+        "categoria": "category name",
+        "economia": numeric_value
+      }
+    ],
+    "economia_mensal": total_monthly_value,
+    "economia_anual": total_annual_value
+  },
+  "com_isso_voce_podia": ["aspirational example 1", "aspirational example 2"]
+}`.trim(),
+  },
+};
+
+// Every version of every stage, for validation
+export const PROMPT_TEMPLATES: Record<LLMStage, Record<string, ClassificationPrompt | AnalysisPrompt>> = {
+  classification: CLASSIFICATION_PROMPTS,
+  analysis: ANALYSIS_PROMPTS,
+};
+
+export const DEFAULT_PROMPT_VERSIONS: PromptVersions = {
+  classification: 'classification-v5',
+  analysis: 'analysis-v1',
+};
+
+/**
+ * Fill the {{variables}} of a template. A variable without a value is an error: it would
+ * otherwise reach the LLM as literal braces.
+ */
+export const renderPrompt = (template: string, variables: Record<string, string | number>): string =>
+  template.replace(/\{\{(\w+)\}\}/g, (_, name: string) => {
+    if (variables[name] === undefined) {
+      throw new Error(`Prompt variable "${name}" has no value`);
+    }
+    return String(variables[name]);
+  });
+
+/**
+ * Validate the prompt versions of a request: known versions, per stage
+ */
+export const parsePromptVersionsInput = (input: unknown, path = 'promptVersions'): Partial<PromptVersions> => {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error(`${path} must be an object with "classification" and/or "analysis"`);
+  }
+
+  return Object.fromEntries(Object.entries(input).map(([stage, version]) => {
+    const known = PROMPT_TEMPLATES[stage as LLMStage];
+    if (!known) {
+      throw new Error(`${path}.${stage} is not a stage (classification, analysis)`);
+    }
+    if (typeof version !== 'string' || !known[version]) {
+      throw new Error(`${path}.${stage} must be one of: ${Object.keys(known).join(', ')}`);
+    }
+    return [stage, version];
+  }));
+};
@@ -0,0 +1,79 @@
+// Response cache: validated LLM outputs stored on the file system, keyed by a hash of what
+// produced them (prompt version, model and the batch rows or aggregation input), so
+// re-uploading the same file does not bill the same batches again. Server only.
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+export interface ResponseCache {
+  get: (key: string) => Promise<string | undefined>;
+  set: (key: string, value: string) => Promise<void>;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+}
+
+// Hits and misses per stage, reported with the analysis result
+export interface CacheReport {
+  classification: CacheStats;
+  analysis: CacheStats;
+}
+
+export const emptyCacheReport = (): CacheReport => ({
+  classification: { hits: 0, misses: 0 },
+  analysis: { hits: 0, misses: 0 },
+});
+
+/**
+ * Cache key: SHA-256 of the JSON of the parts
+ */
+export const hashKey = (...parts: unknown[]): string =>
+  createHash('sha256').update(JSON.stringify(parts)).digest('hex');
+
+/**
+ * Cache with one file per key under dir. Read and write errors are logged and treated as
+ * misses: the cache never fails an analysis.
+ */
+export const createFileCache = (dir: string): ResponseCache => ({
+  get: async key => {
+    try {
+      return await fs.readFile(join(dir, `${key}.json`), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('⚠️ Response cache read failed:', error);
+      }
+      return undefined;
+    }
+  },
+  set: async (key, value) => {
+    try {
+      await fs.mkdir(dir, { recursive: true });
+      // Write then rename, so a concurrent reader never sees half a file
+      const file = join(dir, `${key}.json`);
+      const temp = `${file}.${process.pid}.${Date.now()}.tmp`;
+      await fs.writeFile(temp, value, 'utf8');
+      await fs.rename(temp, file);
+    } catch (error) {
+      console.error('⚠️ Response cache write failed:', error);
+    }
+  },
+});
+
+let cachedStore: ResponseCache | null | undefined;
+
+/**
+ * Cache configured by the environment: LLM_CACHE_DIR (default: a directory in the system
+ * temp dir, the only writable place on Vercel), or null when LLM_CACHE=false
+ */
+export const getResponseCache = (env: Record<string, string | undefined> = process.env): ResponseCache | null => {
+  if (cachedStore === undefined) {
+    const dir = env.LLM_CACHE_DIR || join(tmpdir(), 'analise-centavos-cache');
+    cachedStore = env.LLM_CACHE === 'false' ? null : createFileCache(dir);
+    console.log(cachedStore ? `🗄️ LLM response cache: ${dir}` : '🗄️ LLM response cache disabled');
+  }
+  return cachedStore;
+};
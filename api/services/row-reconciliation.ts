@@ -0,0 +1,70 @@
+// Row reconciliation: every row sent to the LLM carries an id, and each batch response is
+// checked against the ids that went out. Rows it skipped are re-requested one by one;
+// repeated rows and rows it made up are discarded.
+// Shared with the browser client, so no Node-only imports.
+
+export interface RowReconciliation {
+  inputRows: number; // Rows sent to the LLM
+  classified: number; // Rows that came back classified (including after a retry)
+  retried: number; // Rows missing from their batch, re-requested individually
+  unclassifiable: number; // Still missing after the retry
+  duplicates: number; // Repeated rows discarded (first classification kept)
+  invented: number; // Rows with ids that were never sent, discarded
+  failedBatches: number; // Batches that failed after their retries (all their rows unclassifiable)
+}
+
+export interface BatchReconciliation<T extends { id: number }> {
+  matched: T[]; // One classification per expected id, in response order
+  missing: number[]; // Expected ids that did not come back
+  duplicates: number;
+  invented: number;
+}
+
+export const emptyReconciliation = (): RowReconciliation => ({
+  inputRows: 0,
+  classified: 0,
+  retried: 0,
+  unclassifiable: 0,
+  duplicates: 0,
+  invented: 0,
+  failedBatches: 0,
+});
+
+/**
+ * Compare a batch response with the ids that were sent
+ */
+export const reconcileBatch = <T extends { id: number }>(expectedIds: number[], returned: T[]): BatchReconciliation<T> => {
+  const expected = new Set(expectedIds);
+  const seen = new Set<number>();
+  const matched: T[] = [];
+  let duplicates = 0;
+  let invented = 0;
+
+  returned.forEach(item => {
+    const id = Number(item.id);
+    if (!expected.has(id)) {
+      invented++;
+    } else if (seen.has(id)) {
+      duplicates++;
+    } else {
+      seen.add(id);
+      matched.push(item);
+    }
+  });
+
+  return { matched, missing: expectedIds.filter(id => !seen.has(id)), duplicates, invented };
+};
+
+/**
+ * Ids of the data rows of a batch (first column, after the header)
+ */
+export const batchRowIds = (batchRows: string[][]): number[] => batchRows.slice(1).map(row => Number(row[0]));
+
+/**
+ * Number the data rows of a raw CSV with a leading id column, so the raw path can be
+ * reconciled like locally read sources
+ */
+export const withRowIds = (rows: string[][]): string[][] => [
+  ['id', ...(rows[0] || [])],
+  ...rows.slice(1).map((row, index) => [String(index + 1), ...row]),
+];
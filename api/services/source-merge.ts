@@ -0,0 +1,144 @@
+// Combines the transactions of several uploaded files (cards and accounts of the same period)
+// into one list, tagging each with its file and dropping copies that appear in more than one file.
+
+import { normalizeHeader } from './value-parsers';
+import { SourceTransaction } from './source-transactions';
+import { ColumnMapping, parseColumnMappingInput } from './column-mapping';
+import { StatementTypeOption, parseStatementTypeInput } from './statement-type';
+
+// One uploaded file, with the options confirmed for it in the preview
+export interface AnalysisFile {
+  name: string;
+  content: string;
+  columnMapping?: ColumnMapping;
+  statementType?: StatementTypeOption;
+}
+
+export interface SourceGroup {
+  origem: string; // File (or account) the transactions came from
+  sources: SourceTransaction[];
+}
+
+export interface DuplicateTransaction {
+  origem: string; // File the dropped copy came from ('' for a single upload)
+  duplicateOf: string; // File whose copy was kept (same as origem when repeated within one OFX)
+  reason: 'externalId' | 'same-transaction';
+  tipo: 'Entrada' | 'Saída';
+  data: string;
+  valorCentavos: number;
+  descricao: string;
+}
+
+export interface MergeResult {
+  sources: SourceTransaction[];
+  duplicates: DuplicateTransaction[];
+}
+
+export const MAX_ANALYSIS_FILES = 10;
+
+interface KeptCopy {
+  origem: string;
+  claimed: boolean;
+}
+
+const transactionKey = (source: SourceTransaction): string =>
+  [source.data, source.tipo, source.valorCentavos, normalizeHeader(source.descricao)].join('|');
+
+const externalKey = (source: SourceTransaction): string | null =>
+  source.externalId ? `${source.externalId}|${source.valorCentavos}` : null;
+
+/**
+ * Take the first copy under the key not yet matched to a duplicate
+ */
+const claim = (index: Map<string, KeptCopy[]>, key: string | null): KeptCopy | undefined => {
+  const copy = key ? index.get(key)?.find(candidate => !candidate.claimed) : undefined;
+  if (copy) copy.claimed = true;
+  return copy;
+};
+
+const addToIndex = (index: Map<string, KeptCopy[]>, key: string | null, copy: KeptCopy) => {
+  if (!key) return;
+  index.set(key, [...(index.get(key) || []), copy]);
+};
+
+/**
+ * Merge source transactions from several files, renumbering ids and tagging each with its origin.
+ * A transaction is a duplicate when an earlier file has the same external id (e.g. OFX FITID)
+ * and amount, or the same date, amount, type and normalised description. Each kept copy absorbs
+ * at most one duplicate per later file, and repeats inside a single file are never dropped
+ * (two identical coffees on the same day are two purchases).
+ */
+export const mergeSourceGroups = (groups: SourceGroup[]): MergeResult => {
+  const sources: SourceTransaction[] = [];
+  const duplicates: DuplicateTransaction[] = [];
+  const byExternalId = new Map<string, KeptCopy[]>();
+  const byTransaction = new Map<string, KeptCopy[]>();
+
+  groups.forEach(({ origem, sources: groupSources }) => {
+    // Copies kept from this file only become visible to the files after it
+    const kept: Array<{ source: SourceTransaction; copy: KeptCopy }> = [];
+    byExternalId.forEach(copies => copies.forEach(copy => { copy.claimed = false; }));
+    byTransaction.forEach(copies => copies.forEach(copy => { copy.claimed = false; }));
+
+    groupSources.forEach(source => {
+      const byId = claim(byExternalId, externalKey(source));
+      const match = byId || claim(byTransaction, transactionKey(source));
+
+      if (match) {
+        duplicates.push({
+          origem,
+          duplicateOf: match.origem,
+          reason: byId ? 'externalId' : 'same-transaction',
+          tipo: source.tipo,
+          data: source.data,
+          valorCentavos: source.valorCentavos,
+          descricao: source.descricao,
+        });
+        return;
+      }
+
+      const copy: KeptCopy = { origem, claimed: false };
+      kept.push({ source, copy });
+      sources.push({ ...source, id: sources.length + 1, origem });
+    });
+
+    kept.forEach(({ source, copy }) => {
+      addToIndex(byExternalId, externalKey(source), copy);
+      addToIndex(byTransaction, transactionKey(source), copy);
+    });
+  });
+
+  return { sources, duplicates };
+};
+
+/**
+ * Validate the list of files received in a request body
+ */
+export const parseAnalysisFilesInput = (input: unknown): AnalysisFile[] => {
+  if (!Array.isArray(input) || input.length === 0) {
+    throw new Error('files must be a non-empty array');
+  }
+  if (input.length > MAX_ANALYSIS_FILES) {
+    throw new Error(`At most ${MAX_ANALYSIS_FILES} files can be analysed together`);
+  }
+
+  return input.map((item, idx) => {
+    const file = item as Partial<AnalysisFile> | null;
+    if (!file || typeof file !== 'object') {
+      throw new Error(`files[${idx}] must be an object`);
+    }
+    if (typeof file.name !== 'string' || file.name.trim() === '') {
+      throw new Error(`files[${idx}].name must be a non-empty string`);
+    }
+    if (typeof file.content !== 'string' || file.content === '') {
+      throw new Error(`files[${idx}].content must be a non-empty string`);
+    }
+
+    return {
+      name: file.name.trim(),
+      content: file.content,
+      ...(file.columnMapping ? { columnMapping: parseColumnMappingInput(file.columnMapping) } : {}),
+      ...(file.statementType !== undefined ? { statementType: parseStatementTypeInput(file.statementType) } : {}),
+    };
+  });
+};
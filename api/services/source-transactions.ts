@@ -0,0 +1,62 @@
+import { InstallmentInfo, parseInstallment } from './installments';
+
+// Transactions whose value, date and sign were read locally from the uploaded file.
+// The LLM only classifies them; it never has to copy amounts or dates.
+
+export type StatementType = 'cartao' | 'conta';
+
+// How the sign of an amount maps to Entrada/Saída in a given export
+export type SignConvention = 'positive-is-expense' | 'negative-is-expense';
+
+export interface SourceTransaction {
+  id: number;
+  tipo: 'Entrada' | 'Saída';
+  data: string; // YYYY-MM-DD
+  valorCentavos: number; // Absolute value
+  descricao: string;
+  estabelecimento?: string;
+  externalId?: string; // Stable id from the source file (e.g. OFX FITID)
+  origem?: string; // Uploaded file the transaction came from, when several are analysed together
+  parcela?: InstallmentInfo; // From a dedicated installment column, or the description's marker when read
+}
+
+/**
+ * Decide Entrada/Saída from a signed amount and the export's sign convention
+ */
+export const tipoFromSignedValue = (
+  valorCentavos: number,
+  signConvention: SignConvention
+): 'Entrada' | 'Saída' => {
+  if (signConvention === 'positive-is-expense') {
+    return valorCentavos < 0 ? 'Entrada' : 'Saída';
+  }
+  return valorCentavos < 0 ? 'Saída' : 'Entrada';
+};
+
+/**
+ * Fill in the installment marker of each description (a dedicated column wins). Needs the
+ * statement type: a bare "05/12" is an installment on a card and a date on an account.
+ */
+export const withInstallments = (sources: SourceTransaction[], statementType: StatementType): SourceTransaction[] =>
+  sources.map(source => {
+    const parcela = source.parcela || parseInstallment(source.descricao, statementType);
+    return parcela ? { ...source, parcela } : source;
+  });
+
+// Columns of the classification rows holding free text (Descrição, Estabelecimento)
+export const CLASSIFICATION_TEXT_COLUMNS = [2, 3];
+
+/**
+ * Build the CSV rows sent to the LLM for classification.
+ * Only the text needed to categorise goes out (no amounts, no dates);
+ * the id column lets the classification be joined back to the source transaction.
+ */
+export const buildClassificationRows = (sources: SourceTransaction[]): string[][] => [
+  ['id', 'Tipo', 'Descrição', 'Estabelecimento'],
+  ...sources.map(source => [
+    String(source.id),
+    source.tipo,
+    source.descricao,
+    source.estabelecimento || '',
+  ]),
+];
@@ -0,0 +1,122 @@
+// Statement type (credit card vs checking account) and the sign convention it implies.
+// Card statements list purchases as positive values; checking accounts list debits as negative.
+// Shared with the browser client (mapping preview), so no Node-only imports.
+
+import { looksLikeValor, normalizeHeader, parseISODate, parseValorBrasileiro } from './value-parsers';
+import { SignConvention, StatementType } from './source-transactions';
+
+export type StatementTypeOption = StatementType | 'auto';
+
+export const STATEMENT_TYPE_OPTIONS: StatementTypeOption[] = ['auto', 'cartao', 'conta'];
+
+export interface StatementTypeDetection {
+  statementType: StatementType;
+  signConvention: SignConvention;
+  reason: string; // Shown to the user, in Portuguese
+}
+
+const SAMPLE_ROWS = 200;
+
+// Income that only shows up on checking accounts
+const SALARY_LIKE = /\b(salario|folha de pagamento|pro labore|proventos|vencimentos|pix recebido|ted recebida|transferencia recebida|deposito|rendimento)\b/;
+
+// Card-only lines: bill payment credited back, installments
+const CARD_LIKE = /\b(pagamento recebido|pagamento de fatura|pagamento fatura|parc(ela)?\.? ?\d{1,2} ?(\/|de) ?\d{1,2})\b/;
+
+const BALANCE_HEADER = /\b(saldo|balance)\b/;
+
+/**
+ * Sign convention implied by a statement type
+ */
+export const signConventionFor = (statementType: StatementType): SignConvention =>
+  statementType === 'cartao' ? 'positive-is-expense' : 'negative-is-expense';
+
+/**
+ * Statement type implied by a sign convention
+ */
+export const statementTypeFor = (signConvention: SignConvention): StatementType =>
+  signConvention === 'positive-is-expense' ? 'cartao' : 'conta';
+
+const result = (statementType: StatementType, reason: string): StatementTypeDetection => ({
+  statementType,
+  signConvention: signConventionFor(statementType),
+  reason,
+});
+
+/**
+ * Guess whether rows come from a credit card or a checking account.
+ * Heuristics, in order: balance column, salary-like income and card-only lines
+ * (looking at the sign they carry), then the share of negative values.
+ * Defaults to credit card, the convention the analyzer always used.
+ */
+export const detectStatementType = (
+  rows: string[][],
+  headerRow: number = 0,
+  valorIdx?: number
+): StatementTypeDetection => {
+  const headers = (rows[headerRow] || []).map(normalizeHeader);
+
+  if (headers.some(header => BALANCE_HEADER.test(header))) {
+    return result('conta', 'coluna de saldo encontrada');
+  }
+
+  const dataRows = rows.slice(headerRow + 1, headerRow + 1 + SAMPLE_ROWS);
+
+  // Signed value of a row: the given column, or the last cell that looks like money
+  const signedValue = (row: string[]): number | null => {
+    const cell = valorIdx !== undefined
+      ? row[valorIdx]
+      : [...row].reverse().find(value => looksLikeValor(value) && !parseISODate(value));
+    if (!cell || !looksLikeValor(cell)) return null;
+    return parseValorBrasileiro(cell);
+  };
+
+  let salaryPositive = 0;
+  let salaryNegative = 0;
+  let cardConsistent = 0;
+  let cardInverted = 0;
+  let negatives = 0;
+  let withValue = 0;
+
+  dataRows.forEach(row => {
+    const valor = signedValue(row);
+    if (valor === null || valor === 0) return;
+
+    withValue++;
+    if (valor < 0) negatives++;
+
+    const text = normalizeHeader(row.join(' '));
+    if (SALARY_LIKE.test(text)) {
+      if (valor > 0) salaryPositive++; else salaryNegative++;
+    } else if (CARD_LIKE.test(text)) {
+      // Bill payments are credits (negative) on a card; installments are purchases (positive)
+      if (/pagamento/.test(text) === (valor < 0)) cardConsistent++; else cardInverted++;
+    }
+  });
+
+  if (salaryPositive > salaryNegative) {
+    return result('conta', 'receitas como salário aparecem com valor positivo');
+  }
+  if (salaryNegative > salaryPositive) {
+    return result('cartao', 'receitas como salário aparecem com valor negativo');
+  }
+  if (cardConsistent > cardInverted) {
+    return result('cartao', 'linhas típicas de fatura (parcelas, pagamento recebido)');
+  }
+
+  if (withValue > 0 && negatives / withValue > 0.6) {
+    return result('conta', 'a maioria dos valores é negativa');
+  }
+
+  return result('cartao', 'padrão de fatura de cartão (valores positivos são gastos)');
+};
+
+/**
+ * Validate a statement type received in a request body
+ */
+export const parseStatementTypeInput = (input: unknown): StatementTypeOption => {
+  if (!STATEMENT_TYPE_OPTIONS.includes(input as StatementTypeOption)) {
+    throw new Error(`statementType must be one of: ${STATEMENT_TYPE_OPTIONS.join(', ')}`);
+  }
+  return input as StatementTypeOption;
+};
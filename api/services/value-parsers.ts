@@ -0,0 +1,97 @@
+// Deterministic parsers for values, dates and headers found in Brazilian bank exports.
+// Shared by the API and the browser client (through the @api alias), so no Node-only imports.
+
+/**
+ * Parse Brazilian (1.234,56) or US (1,234.56) currency format to signed cents.
+ * Handles "R$", negative sign, parentheses and trailing "D"/"C" debit/credit markers.
+ */
+export const parseValorBrasileiro = (valor: string | number): number => {
+  if (typeof valor === 'number') {
+    return Math.round(valor * 100);
+  }
+
+  if (!valor || typeof valor !== 'string') return 0;
+
+  let clean = valor.trim();
+
+  // Negative by parentheses: (100,00)
+  const negativeParentheses = clean.startsWith('(') && clean.endsWith(')');
+  if (negativeParentheses) {
+    clean = clean.slice(1, -1);
+  }
+
+  // Debit marker used by some banks: "100,00 D" / "100,00 C"
+  const debitMarker = /\sD$/i.test(clean);
+
+  clean = clean.replace(/R\$?/g, '').replace(/[^\d,.-]/g, '');
+
+  const negative = negativeParentheses || debitMarker || clean.startsWith('-') || clean.endsWith('-');
+  clean = clean.replace(/-/g, '');
+
+  let integerPart = clean;
+  let cents = '00';
+
+  const lastComma = clean.lastIndexOf(',');
+  const lastDot = clean.lastIndexOf('.');
+  const decimalIndex = Math.max(lastComma, lastDot);
+
+  if (decimalIndex !== -1) {
+    const decimals = clean.slice(decimalIndex + 1);
+    const separator = clean[decimalIndex];
+    const sameSeparatorCount = clean.split(separator).length - 1;
+
+    // A single separator followed by 1-2 digits (or mixed separators) is the decimal point;
+    // otherwise it is a thousands separator (1.234.567 or 1.234)
+    if (decimals.length <= 2 && (sameSeparatorCount === 1 || (lastComma !== -1 && lastDot !== -1))) {
+      integerPart = clean.slice(0, decimalIndex).replace(/[.,]/g, '');
+      cents = decimals.padEnd(2, '0');
+    } else {
+      integerPart = clean.replace(/[.,]/g, '');
+    }
+  }
+
+  const total = (parseInt(integerPart) || 0) * 100 + (parseInt(cents) || 0);
+  return negative ? -total : total;
+};
+
+/**
+ * Check whether a cell looks like a monetary value
+ */
+export const looksLikeValor = (value: string): boolean =>
+  /^\(?\s*-?\s*(R\$)?\s*-?\s*\d{1,3}([.,]?\d{3})*([.,]\d{1,2})?\s*-?\)?(\s*[DC])?$/i.test((value || '').trim());
+
+/**
+ * Parse a date cell to YYYY-MM-DD, returning null when it is not a date.
+ * Accepts YYYY-MM-DD (with optional time), DD/MM/YYYY, DD/MM/YY, DD-MM-YYYY and DD.MM.YYYY.
+ */
+export const parseISODate = (value: string): string | null => {
+  const clean = (value || '').trim();
+
+  const iso = clean.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T\s].*)?$/);
+  if (iso) {
+    return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  }
+
+  const br = clean.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})(?:\s.*)?$/);
+  if (br) {
+    const [, day, month, rawYear] = br;
+    if (Number(month) < 1 || Number(month) > 12 || Number(day) < 1 || Number(day) > 31) {
+      return null;
+    }
+    const year = rawYear.length === 2 ? (Number(rawYear) < 50 ? `20${rawYear}` : `19${rawYear}`) : rawYear;
+    return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  }
+
+  return null;
+};
+
+/**
+ * Normalize a header cell for matching: lowercase, no accents, punctuation as spaces
+ */
+export const normalizeHeader = (header: string): string =>
+  (header || '')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
@@ -0,0 +1,29 @@
+// Minimal worker pool: runs async jobs with bounded concurrency and settles every one of
+// them, so a failing job never stops the others.
+
+/**
+ * Run worker over every item with at most `concurrency` jobs in flight.
+ * Results come back in item order, as settled promises.
+ */
+export const runPool = async <T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> => {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  const runWorker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await worker(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, runWorker));
+  return results;
+};
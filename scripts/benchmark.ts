@@ -0,0 +1,93 @@
+// Classification benchmark against the labelled golden dataset.
+//
+//   npm run benchmark                         src/assets/testdata/golden_transactions.csv
+//   npm run benchmark -- outro_dataset.csv
+//
+// BENCHMARK_MODE: auto (default), llm or offline, as the analysis mode. BENCHMARK_OUTPUT saves
+// the report as JSON; BENCHMARK_BASELINE compares this run with a saved report, so a prompt or
+// model change can be judged on the same rows. The LLM is configured as for the API (LLM_*),
+// e.g. LLM_BASE_URL pointing at `npm run mock:llm` to exercise the pipeline without a key.
+
+import { readFileSync, writeFileSync } from 'fs';
+import { analyzeCSVWithAI } from '../api/services/financial-analyzer';
+import { BenchmarkReport, goldenStatementCSV, parseGoldenDataset, scoreClassifications } from '../api/services/classification-benchmark';
+import { AnalysisMode } from '../api/services/offline-analysis';
+
+const DEFAULT_DATASET = 'src/assets/testdata/golden_transactions.csv';
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const printReport = (report: BenchmarkReport) => {
+  console.log(`\n🎯 ${report.total} rows, ${report.missing.length} not returned`);
+  report.levels.forEach(level =>
+    console.log(`  level ${level.level}: ${percent(level.accuracy)} (${level.correct}/${level.evaluated})`)
+  );
+  console.log(`  exact path: ${percent(report.exact.accuracy)} (${report.exact.correct}/${report.total})`);
+  console.log(`  sign errors: ${report.signErrors.length}`);
+  report.signErrors.forEach(miss => console.log(`    #${miss.id} ${miss.descricao}: ${miss.expected} → ${miss.actual}`));
+
+  console.log('\n🔀 Confusion (top category, expected → returned):');
+  Object.entries(report.confusion).forEach(([expected, returned]) =>
+    console.log(`  ${expected}: ${Object.entries(returned).map(([actual, count]) => `${actual} ${count}`).join(', ')}`)
+  );
+
+  console.log('\n❌ Misclassified:');
+  report.misclassified.forEach(miss => console.log(`  #${miss.id} ${miss.descricao}: ${miss.expected} → ${miss.actual}`));
+
+  if (report.usage) {
+    console.log(`\n💰 ${report.usage.requests} requests, ${report.usage.promptTokens} + ${report.usage.completionTokens} tokens, ~US$ ${report.usage.costUSD.toFixed(4)} (classification ~US$ ${report.usage.byStage.classification.costUSD.toFixed(4)})`);
+  }
+};
+
+/**
+ * Differences with a saved report: accuracy per level, sign errors and cost
+ */
+const printComparison = (report: BenchmarkReport, baseline: BenchmarkReport) => {
+  const delta = (current: number, previous: number) => `${current >= previous ? '+' : ''}${((current - previous) * 100).toFixed(1)} pp`;
+
+  console.log('\n📐 Against the baseline:');
+  report.levels.forEach(level => {
+    const previous = baseline.levels.find(entry => entry.level === level.level);
+    if (previous) console.log(`  level ${level.level}: ${percent(previous.accuracy)} → ${percent(level.accuracy)} (${delta(level.accuracy, previous.accuracy)})`);
+  });
+  console.log(`  exact path: ${percent(baseline.exact.accuracy)} → ${percent(report.exact.accuracy)} (${delta(report.exact.accuracy, baseline.exact.accuracy)})`);
+  console.log(`  sign errors: ${baseline.signErrors.length} → ${report.signErrors.length}`);
+  if (report.usage || baseline.usage) {
+    console.log(`  cost: US$ ${(baseline.usage?.costUSD ?? 0).toFixed(4)} → US$ ${(report.usage?.costUSD ?? 0).toFixed(4)}`);
+  }
+
+  // Rows that changed outcome are what to look at first
+  const wrongBefore = new Set(baseline.misclassified.map(miss => miss.id));
+  const wrongNow = new Set(report.misclassified.map(miss => miss.id));
+  const fixed = baseline.misclassified.filter(miss => !wrongNow.has(miss.id));
+  const broken = report.misclassified.filter(miss => !wrongBefore.has(miss.id));
+  fixed.forEach(miss => console.log(`  ✅ #${miss.id} ${miss.descricao}: now ${miss.expected}`));
+  broken.forEach(miss => console.log(`  ❌ #${miss.id} ${miss.descricao}: now ${miss.actual} (expected ${miss.expected})`));
+};
+
+const run = async () => {
+  const dataset = process.argv[2] || DEFAULT_DATASET;
+  const mode = (process.env.BENCHMARK_MODE || 'auto') as AnalysisMode;
+  // Cached responses would make a prompt change look free and unchanged
+  process.env.LLM_CACHE = process.env.LLM_CACHE || 'false';
+
+  const golden = parseGoldenDataset(readFileSync(dataset, 'utf8'));
+  console.log(`📚 ${dataset}: ${golden.length} labelled transactions, mode ${mode}`);
+
+  const result = await analyzeCSVWithAI(goldenStatementCSV(golden), undefined, { mode });
+  const report = scoreClassifications(golden, result.transactions, result.usage);
+  printReport(report);
+
+  if (process.env.BENCHMARK_BASELINE) {
+    printComparison(report, JSON.parse(readFileSync(process.env.BENCHMARK_BASELINE, 'utf8')) as BenchmarkReport);
+  }
+  if (process.env.BENCHMARK_OUTPUT) {
+    writeFileSync(process.env.BENCHMARK_OUTPUT, `${JSON.stringify(report, null, 2)}\n`, 'utf8');
+    console.log(`\n💾 Report saved to ${process.env.BENCHMARK_OUTPUT}`);
+  }
+};
+
+run().catch(error => {
+  console.error('❌', error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
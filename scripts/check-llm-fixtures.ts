@@ -0,0 +1,89 @@
+// Replays the recorded LLM fixtures for sample_data.csv through the analyzer and checks the
+// classification that comes back, so a change to the prompts or the request shape that
+// would stop the fixtures from matching is caught without a key.
+//
+//   npm run check:fixtures
+//
+// After an intended prompt change, record the fixtures again (HOW_TO_RUN.md, "Without an API Key").
+
+import { readFileSync } from 'fs';
+import { AddressInfo } from 'net';
+import { analyzeCSVWithAI } from '../api/services/financial-analyzer';
+import { createMockLLMServer } from '../api/services/mock-llm';
+
+const DATASET = 'src/assets/testdata/sample_data.csv';
+const FIXTURES_DIR = 'fixtures/llm';
+
+// Category and tipo of each row of the dataset, in file order, as recorded
+const EXPECTED: [string, 'Entrada' | 'Saída'][] = [
+  ['Receitas > Salário', 'Entrada'],
+  ['Alimentação > Supermercado', 'Saída'],
+  ['Moradia > Aluguel', 'Saída'],
+  ['Receitas > Outras', 'Entrada'],
+  ['Transporte > Combustível', 'Saída'],
+  ['Moradia > Energia', 'Saída'],
+  ['Alimentação > Restaurantes', 'Saída'],
+  ['Transporte > Apps > Uber', 'Saída'],
+  ['Saúde > Farmácia', 'Saída'],
+  ['Receitas > Outras', 'Entrada'],
+  ['Lazer > Streaming', 'Saída'],
+  ['Alimentação > Supermercado', 'Saída'],
+  ['Transporte > Combustível', 'Saída'],
+  ['Saúde > Plano de Saúde', 'Saída'],
+  ['Lazer > Cinema', 'Saída'],
+  ['Saúde > Academia', 'Saída'],
+  ['Moradia > Internet e Telefone', 'Saída'],
+  ['Alimentação > Restaurantes', 'Saída'],
+  ['Transporte > Estacionamento', 'Saída'],
+  ['Compras > Vestuário', 'Saída'],
+];
+
+const server = createMockLLMServer({
+  mode: 'replay',
+  fixturesDir: FIXTURES_DIR,
+  onRequest: ({ key, kind }) => console.log(`🤖 ${kind} ${key.slice(0, 12)}`),
+});
+
+const check = async (baseURL: string): Promise<string[]> => {
+  // The fixtures were recorded with these settings; the analyzer reads them on first use
+  process.env.LLM_BASE_URL = baseURL;
+  process.env.LLM_MODEL = 'mock';
+  process.env.LLM_CACHE = 'false';
+
+  const result = await analyzeCSVWithAI(readFileSync(DATASET, 'utf8'));
+  const problems: string[] = [];
+
+  if (result.analysisMode !== 'llm') problems.push(`analysis mode ${result.analysisMode}, expected llm`);
+  if (result.reconciliation?.classified !== EXPECTED.length) {
+    problems.push(`${result.reconciliation?.classified ?? 0}/${EXPECTED.length} rows classified by the LLM`);
+  }
+  if (result.transactions.length !== EXPECTED.length) {
+    problems.push(`${result.transactions.length} transactions, expected ${EXPECTED.length}`);
+  }
+  result.transactions.forEach((transaction, index) => {
+    const [categoria, tipo] = EXPECTED[index] || [];
+    if (transaction.categoria !== categoria || transaction.tipo !== tipo) {
+      problems.push(`#${transaction.id} ${transaction.descricao}: ${transaction.categoria} (${transaction.tipo}), expected ${categoria} (${tipo})`);
+    }
+  });
+  return problems;
+};
+
+server.listen(0, '127.0.0.1', () => {
+  const { port } = server.address() as AddressInfo;
+  check(`http://127.0.0.1:${port}/v1`)
+    .then(problems => {
+      if (problems.length === 0) {
+        console.log(`\n✅ ${DATASET}: ${EXPECTED.length} transactions replayed and classified as recorded`);
+        return;
+      }
+      console.error(`\n❌ ${DATASET}: replay does not match the recording`);
+      problems.forEach(problem => console.error(`  ${problem}`));
+      process.exitCode = 1;
+    })
+    .catch(error => {
+      console.error('❌', error instanceof Error ? error.message : error);
+      process.exitCode = 1;
+    })
+    .finally(() => server.close());
+});
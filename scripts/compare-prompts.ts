@@ -0,0 +1,58 @@
+// A/B comparison of prompt versions on the same statement.
+//
+//   npm run prompts:compare -- extrato.csv classification-v2 classification-v3
+//   npm run prompts:compare -- extrato.csv classification-v2,analysis-v1 classification-v3,analysis-v1
+//
+// Each side is a comma-separated list of versions; stages left out use the configured version.
+// The LLM is configured as for the API (LLM_*). The response cache is off unless LLM_CACHE is set.
+
+import { readFileSync } from 'fs';
+import { comparePromptVersions, promptVersionsFromNames } from '../api/services/prompt-comparison';
+import { CLASSIFICATION_PROMPTS } from '../api/services/prompt-templates';
+
+const formatBRL = (value: number) => value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+const run = async () => {
+  const [file, sideA, sideB] = process.argv.slice(2);
+  if (!file || !sideA || !sideB) {
+    console.error('Usage: npm run prompts:compare -- <file.csv> <versions A> <versions B>');
+    console.error(`Classification versions: ${Object.keys(CLASSIFICATION_PROMPTS).join(', ')}`);
+    process.exitCode = 1;
+    return;
+  }
+  process.env.LLM_CACHE = process.env.LLM_CACHE || 'false';
+
+  const comparison = await comparePromptVersions(
+    readFileSync(file, 'utf8'),
+    promptVersionsFromNames(sideA.split(',')),
+    promptVersionsFromNames(sideB.split(','))
+  );
+  const { a, b } = comparison;
+
+  console.log(`\n🅰️  ${a.promptVersions.classification} + ${a.promptVersions.analysis}`);
+  console.log(`🅱️  ${b.promptVersions.classification} + ${b.promptVersions.analysis}`);
+  console.log(`\n🤝 Same classification: ${(comparison.agreement * 100).toFixed(1)}%`);
+
+  console.log('\n💰 Totals (A → B):');
+  (['entradas', 'saidas', 'saldo'] as const).forEach(key =>
+    console.log(`  ${key}: ${formatBRL(a.totals[key])} → ${formatBRL(b.totals[key])}`)
+  );
+  if (a.usage && b.usage) {
+    console.log(`  cost: ~US$ ${a.usage.costUSD.toFixed(4)} → ~US$ ${b.usage.costUSD.toFixed(4)}`);
+  }
+
+  console.log(`\n📂 Categories that changed (${comparison.categories.length}):`);
+  comparison.categories.forEach(category =>
+    console.log(`  [${category.tipo}] ${category.categoria}: ${formatBRL(category.a / 100)} → ${formatBRL(category.b / 100)}`)
+  );
+
+  console.log(`\n🔀 Transactions that changed (${comparison.changed.length}):`);
+  comparison.changed.forEach(diff =>
+    console.log(`  #${diff.id} ${diff.descricao} (${formatBRL(diff.valorCentavos / 100)}): ${diff.a.tipo} ${diff.a.categoria} → ${diff.b.tipo} ${diff.b.categoria}`)
+  );
+};
+
+run().catch(error => {
+  console.error('❌', error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
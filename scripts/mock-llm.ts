@@ -0,0 +1,73 @@
+// Mock LLM server, for running the analyzer without a key.
+//
+//   npm run mock:llm                      serve on MOCK_LLM_PORT (default 4010) until stopped
+//   npm run mock:llm -- extrato.csv ...   run the whole analysis on each file against the mock and exit
+//
+// MOCK_LLM_MODE: mock (default), record or replay. Record forwards to MOCK_LLM_UPSTREAM_URL
+// (default https://api.openai.com/v1) with OPENAI_API_KEY and writes fixtures to
+// MOCK_LLM_FIXTURES (default fixtures/llm); replay serves only those fixtures.
+
+import { readFileSync } from 'fs';
+import { AddressInfo } from 'net';
+import { basename } from 'path';
+import { analyzeCSVWithAI } from '../api/services/financial-analyzer';
+import { createMockLLMServer, MOCK_LLM_MODES, MockLLMMode } from '../api/services/mock-llm';
+
+const mode = (process.env.MOCK_LLM_MODE || 'mock') as MockLLMMode;
+if (!MOCK_LLM_MODES.includes(mode)) {
+  console.error(`❌ MOCK_LLM_MODE must be one of: ${MOCK_LLM_MODES.join(', ')}`);
+  process.exit(1);
+}
+
+const fixturesDir = process.env.MOCK_LLM_FIXTURES || 'fixtures/llm';
+const files = process.argv.slice(2);
+
+const server = createMockLLMServer({
+  mode,
+  fixturesDir,
+  upstreamURL: process.env.MOCK_LLM_UPSTREAM_URL || 'https://api.openai.com/v1',
+  upstreamApiKey: process.env.OPENAI_API_KEY,
+  onRequest: ({ key, kind }) => console.log(`🤖 ${kind} ${key.slice(0, 12)}`),
+});
+
+/**
+ * Run the analysis on each file, through the analyzer and the mock, printing the progress
+ * events and a summary
+ */
+const analyzeFiles = async (baseURL: string) => {
+  // The analyzer reads its configuration on first use, after this
+  process.env.LLM_BASE_URL = baseURL;
+  process.env.LLM_MODEL = process.env.LLM_MODEL || 'mock';
+  // Cached responses would hide requests from the mock (and from the recorder)
+  process.env.LLM_CACHE = process.env.LLM_CACHE || 'false';
+
+  for (const file of files) {
+    console.log(`\n📄 ${basename(file)}`);
+    const result = await analyzeCSVWithAI(readFileSync(file, 'utf8'), {
+      onBatchStart: (batch, total) => console.log(`  ▶️ batch ${batch}/${total}`),
+      onBatchComplete: (batch, total, rows) => console.log(`  ✅ batch ${batch}/${total}: ${rows.length} transactions`),
+      onBatchFailed: (batch, total, error) => console.log(`  ❌ batch ${batch}/${total}: ${error}`),
+      onCacheStats: cache => console.log(`  🗄️ cache: ${JSON.stringify(cache)}`),
+    });
+
+    console.log(`  📊 ${result.transactions.length} transactions, mode ${result.analysisMode}`);
+    console.log(`  💰 entradas ${result.insights.totalEntradas}, saídas ${result.insights.totalSaidas}, saldo ${result.insights.saldo}`);
+    console.log(`  🎭 nota ${result.generalAnalysis.pontuacao_geral?.nota}: ${result.generalAnalysis.pontuacao_geral?.comentario}`);
+    if (result.reconciliation) console.log(`  🔎 reconciliation: ${JSON.stringify(result.reconciliation)}`);
+    if (result.usage) console.log(`  🧮 ${result.usage.requests} requests, ${result.usage.promptTokens + result.usage.completionTokens} tokens`);
+  }
+};
+
+server.listen(files.length > 0 ? 0 : Number(process.env.MOCK_LLM_PORT || 4010), '127.0.0.1', () => {
+  const { port } = server.address() as AddressInfo;
+  const baseURL = `http://127.0.0.1:${port}/v1`;
+  console.log(`🧪 Mock LLM (${mode}, fixtures: ${fixturesDir}) on ${baseURL}`);
+
+  if (files.length === 0) return;
+  analyzeFiles(baseURL)
+    .catch(error => {
+      console.error('❌', error instanceof Error ? error.message : error);
+      process.exitCode = 1;
+    })
+    .finally(() => server.close());
+});
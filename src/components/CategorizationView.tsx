@@ -1,14 +1,117 @@
+import { useState } from 'react';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { ArrowUpCircle, ArrowDownCircle, Building, Tag } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowUpCircle, ArrowDownCircle, Building, Pencil, Tag } from 'lucide-react';
 import { TransactionData } from '@/types/financial';
 import { formatarValorBrasileiro } from '@/utils/parse';
+import { CorrecaoTransacao, ResultadoCorrecao, aplicarCorrecao, transacoesDoEstabelecimento } from '@/utils/corrections';
+import { CategoryTaxonomy, categoryDetails, taxonomyPaths } from '@api/services/category-taxonomy';
 
 interface CategorizationViewProps {
   transactions: TransactionData[];
+  onTransactionsChange?: (result: ResultadoCorrecao) => void; // Sem ele a lista é só leitura
+  taxonomia?: CategoryTaxonomy; // Categorias canônicas: sugestões, ícones e cores, e correções mapeadas nelas
 }
 
-const CategorizationView = ({ transactions }: CategorizationViewProps) => {
+interface TransactionEditFormProps {
+  transaction: TransactionData;
+  sameMerchantCount: number; // Transações do mesmo estabelecimento, incluindo esta
+  categorias: string[]; // Sugestões para o campo de categoria
+  onSave: (correcao: CorrecaoTransacao, aplicarAoEstabelecimento: boolean) => void;
+  onCancel: () => void;
+}
+
+export const TransactionEditForm = ({ transaction, sameMerchantCount, categorias, onSave, onCancel }: TransactionEditFormProps) => {
+  const [form, setForm] = useState<Required<CorrecaoTransacao>>({
+    categoria: transaction.categoria,
+    tipo: transaction.tipo,
+    empresa: transaction.empresa,
+    descricao: transaction.descricao,
+  });
+  const [applyToMerchant, setApplyToMerchant] = useState(sameMerchantCount > 1);
+  const fieldId = (name: string) => `edit-${transaction.id}-${name}`;
+
+  const updateForm = (changes: CorrecaoTransacao) => setForm(current => ({ ...current, ...changes }));
+
+  return (
+    <div className="mt-4 space-y-3 rounded-md border p-4">
+      <div className="grid gap-3 md:grid-cols-2">
+        <div className="space-y-1">
+          <Label htmlFor={fieldId('categoria')}>Categoria</Label>
+          <Input
+            id={fieldId('categoria')}
+            list={fieldId('categorias')}
+            value={form.categoria}
+            onChange={(e) => updateForm({ categoria: e.target.value })}
+            placeholder="Trabalho > Networking"
+          />
+          <datalist id={fieldId('categorias')}>
+            {categorias.map(categoria => <option key={categoria} value={categoria} />)}
+          </datalist>
+        </div>
+        <div className="space-y-1">
+          <Label>Tipo</Label>
+          <Select value={form.tipo} onValueChange={(value) => updateForm({ tipo: value as TransactionData['tipo'] })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="Entrada">Entrada</SelectItem>
+              <SelectItem value="Saída">Saída</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={fieldId('empresa')}>Empresa</Label>
+          <Input id={fieldId('empresa')} value={form.empresa} onChange={(e) => updateForm({ empresa: e.target.value })} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={fieldId('descricao')}>Descrição</Label>
+          <Input id={fieldId('descricao')} value={form.descricao} onChange={(e) => updateForm({ descricao: e.target.value })} />
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        {sameMerchantCount > 1 ? (
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id={fieldId('todas')}
+              checked={applyToMerchant}
+              onCheckedChange={(checked) => setApplyToMerchant(checked === true)}
+            />
+            <Label htmlFor={fieldId('todas')} className="font-normal">
+              Aplicar categoria, tipo e empresa às {sameMerchantCount} transações deste estabelecimento
+            </Label>
+          </div>
+        ) : <span />}
+        <div className="flex gap-2">
+          <Button variant="ghost" size="sm" onClick={onCancel}>Cancelar</Button>
+          <Button size="sm" disabled={form.categoria.trim() === ''} onClick={() => onSave(form, applyToMerchant)}>
+            Salvar
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const CategorizationView = ({ transactions, onTransactionsChange, taxonomia }: CategorizationViewProps) => {
+  const [editingId, setEditingId] = useState<number | null>(null);
+
+  const categorias = Array.from(new Set([
+    ...(taxonomia ? taxonomyPaths(taxonomia) : []),
+    ...transactions.map(transaction => transaction.categoria),
+  ])).sort();
+
+  const handleSave = (id: number, correcao: CorrecaoTransacao, aplicarAoEstabelecimento: boolean) => {
+    onTransactionsChange?.(aplicarCorrecao(transactions, id, correcao, aplicarAoEstabelecimento, taxonomia));
+    setEditingId(null);
+  };
+
   // Show message if no transactions
   if (transactions.length === 0) {
     return (
@@ -32,45 +135,66 @@ const CategorizationView = ({ transactions }: CategorizationViewProps) => {
       </div>
 
       <div className="grid gap-4">
-        {transactions.map((transaction) => (
-          <Card key={transaction.id} className="p-6 bg-gradient-card shadow-card hover:shadow-elevated transition-all duration-300">
-            <div className="flex items-start justify-between">
-              <div className="flex items-start space-x-4">
-                <div className={`p-2 rounded-lg ${transaction.tipo === 'Entrada' ? 'bg-success/10' : 'bg-destructive/10'}`}>
-                  {transaction.tipo === 'Entrada' ? (
-                    <ArrowUpCircle className="h-5 w-5 text-success" />
-                  ) : (
-                    <ArrowDownCircle className="h-5 w-5 text-destructive" />
-                  )}
-                </div>
-                <div className="flex-1">
-                  <div className="flex items-center space-x-2 mb-2">
-                    <Badge variant={transaction.tipo === 'Entrada' ? 'default' : 'destructive'}>
-                      {transaction.tipo}
-                    </Badge>
-                    <span className="text-sm text-muted-foreground">{transaction.data}</span>
+        {transactions.map((transaction) => {
+          const detalhes = taxonomia ? categoryDetails(taxonomia, transaction.categoriaPath) : undefined;
+          return (
+            <Card key={transaction.id} className="p-6 bg-gradient-card shadow-card hover:shadow-elevated transition-all duration-300">
+              <div className="flex items-start justify-between">
+                <div className="flex items-start space-x-4">
+                  <div className={`p-2 rounded-lg ${transaction.tipo === 'Entrada' ? 'bg-success/10' : 'bg-destructive/10'}`}>
+                    {transaction.tipo === 'Entrada' ? (
+                      <ArrowUpCircle className="h-5 w-5 text-success" />
+                    ) : (
+                      <ArrowDownCircle className="h-5 w-5 text-destructive" />
+                    )}
                   </div>
-                  <h3 className="text-lg font-semibold mb-1">{transaction.descricao}</h3>
-                  <div className="flex items-center space-x-4 text-sm text-muted-foreground">
-                    <div className="flex items-center space-x-1">
-                      <Building className="h-4 w-4" />
-                      <span>{transaction.empresa}</span>
+                  <div className="flex-1">
+                    <div className="flex items-center space-x-2 mb-2">
+                      <Badge variant={transaction.tipo === 'Entrada' ? 'default' : 'destructive'}>
+                        {transaction.tipo}
+                      </Badge>
+                      <span className="text-sm text-muted-foreground">{transaction.data}</span>
+                      {transaction.origem && (
+                        <Badge variant="outline" className="font-normal">{transaction.origem}</Badge>
+                      )}
                     </div>
-                    <div className="flex items-center space-x-1">
-                      <Tag className="h-4 w-4" />
-                      <span>{transaction.categoria}</span>
+                    <h3 className="text-lg font-semibold mb-1">{transaction.descricao}</h3>
+                    <div className="flex items-center space-x-4 text-sm text-muted-foreground">
+                      <div className="flex items-center space-x-1">
+                        <Building className="h-4 w-4" />
+                        <span>{transaction.empresa}</span>
+                      </div>
+                      <div className="flex items-center space-x-1">
+                        {detalhes?.icone ? <span aria-hidden>{detalhes.icone}</span> : <Tag className="h-4 w-4" />}
+                        <span style={detalhes?.cor ? { color: detalhes.cor } : undefined}>{transaction.categoria}</span>
+                      </div>
                     </div>
                   </div>
                 </div>
-              </div>
-              <div className="text-right">
-                <div className={`text-2xl font-bold ${transaction.tipo === 'Entrada' ? 'text-success' : 'text-destructive'}`}>
-                  {transaction.tipo === 'Entrada' ? '+' : '-'}{formatarValorBrasileiro(transaction.valorCentavos)}
+                <div className="text-right">
+                  <div className={`text-2xl font-bold ${transaction.tipo === 'Entrada' ? 'text-success' : 'text-destructive'}`}>
+                    {transaction.tipo === 'Entrada' ? '+' : '-'}{formatarValorBrasileiro(transaction.valorCentavos)}
+                  </div>
+                  {onTransactionsChange && editingId !== transaction.id && (
+                    <Button variant="ghost" size="sm" className="mt-2" onClick={() => setEditingId(transaction.id)}>
+                      <Pencil className="h-4 w-4 mr-2" />
+                      Corrigir
+                    </Button>
+                  )}
                 </div>
               </div>
-            </div>
-          </Card>
-        ))}
+              {editingId === transaction.id && (
+                <TransactionEditForm
+                  transaction={transaction}
+                  sameMerchantCount={transacoesDoEstabelecimento(transactions, transaction).length}
+                  categorias={categorias}
+                  onSave={(correcao, aplicarAoEstabelecimento) => handleSave(transaction.id, correcao, aplicarAoEstabelecimento)}
+                  onCancel={() => setEditingId(null)}
+                />
+              )}
+            </Card>
+          );
+        })}
       </div>
     </div>
   );
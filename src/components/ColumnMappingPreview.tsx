@@ -0,0 +1,266 @@
+import { useMemo, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Columns, FileSpreadsheet } from 'lucide-react';
+import { parseCSV } from '@api/services/csv-parser';
+import { detectBankPreset, presetToColumnMapping, BANK_PRESETS } from '@api/services/bank-presets';
+import { detectColumnMapping, applyColumnMapping, isCompleteMapping, ColumnMapping, ColumnRole, COLUMN_ROLES } from '@api/services/column-mapping';
+import { detectStatementType, signConventionFor, StatementTypeOption } from '@api/services/statement-type';
+import { LoadedFile } from '@/services/api-client';
+import { formatarValorBrasileiro } from '@/utils/parse';
+
+interface ColumnMappingPreviewProps {
+  fileName: string;
+  loadedFile: LoadedFile;
+  onConfirm: (mapping: ColumnMapping | undefined, statementType: StatementTypeOption) => void;
+  onCancel: () => void;
+  onSheetChange?: (sheetName: string) => void;
+  allowAIFallback?: boolean; // Arquivos combinados precisam de colunas lidas localmente
+}
+
+const PREVIEW_ROWS = 10;
+const HEADER_CANDIDATES = 15;
+
+const ROLE_LABELS: Record<ColumnRole, string> = {
+  data: 'Data',
+  valor: 'Valor',
+  debito: 'Débito',
+  credito: 'Crédito',
+  descricao: 'Descrição',
+  estabelecimento: 'Estabelecimento',
+  ignorar: 'Ignorar',
+};
+
+const DELIMITER_LABELS: Record<string, string> = {
+  ',': 'vírgula (,)',
+  ';': 'ponto e vírgula (;)',
+  '\t': 'tabulação',
+  '|': 'barra vertical (|)',
+};
+
+const ColumnMappingPreview = ({ fileName, loadedFile, onConfirm, onCancel, onSheetChange, allowAIFallback = true }: ColumnMappingPreviewProps) => {
+  const parsed = useMemo(() => parseCSV(loadedFile.content), [loadedFile.content]);
+  const { rows } = parsed;
+
+  const [mapping, setMapping] = useState<ColumnMapping>(() => {
+    const presetMatch = detectBankPreset(rows);
+    if (presetMatch) return presetToColumnMapping(rows, presetMatch);
+
+    return detectColumnMapping(rows) || {
+      headerRow: 0,
+      roles: (rows[0] || []).map((): ColumnRole => 'ignorar'),
+      signConvention: 'positive-is-expense',
+    };
+  });
+
+  const [statementType, setStatementType] = useState<StatementTypeOption>('auto');
+
+  const preset = BANK_PRESETS.find(p => p.id === mapping.presetId);
+  const headers = rows[mapping.headerRow] || [];
+  const previewRows = rows.slice(mapping.headerRow + 1, mapping.headerRow + 1 + PREVIEW_ROWS);
+
+  // Automático: o formato do banco decide; senão, heurística sobre as linhas
+  const valorIdx = mapping.roles.indexOf('valor');
+  const detection = useMemo(
+    () => detectStatementType(rows, mapping.headerRow, valorIdx === -1 ? undefined : valorIdx),
+    [rows, mapping.headerRow, valorIdx]
+  );
+  const resolvedType = statementType !== 'auto' ? statementType : preset ? preset.statementType : detection.statementType;
+  const resolvedReason = preset ? `formato ${preset.name}` : detection.reason;
+  const effectiveMapping: ColumnMapping = { ...mapping, signConvention: signConventionFor(resolvedType) };
+
+  // Any manual change means the mapping is no longer the bank preset
+  const updateMapping = (changes: Partial<ColumnMapping>) => {
+    setMapping(current => {
+      const { presetId, ...rest } = current;
+      return { ...rest, ...changes };
+    });
+  };
+
+  const handleRoleChange = (columnIndex: number, role: ColumnRole) => {
+    const roles = [...mapping.roles];
+    roles[columnIndex] = role;
+    updateMapping({ roles });
+  };
+
+  const handleHeaderRowChange = (value: string) => {
+    const headerRow = Number(value);
+    updateMapping({ headerRow, roles: (rows[headerRow] || []).map((): ColumnRole => 'ignorar') });
+  };
+
+  // How each preview row will be read with the current mapping
+  const interpretRow = (row: string[]) => {
+    const [source] = applyColumnMapping([headers, row], { ...effectiveMapping, headerRow: 0 }).sources;
+    return source;
+  };
+
+  const canConfirm = isCompleteMapping(mapping);
+
+  if (rows.length === 0) {
+    return (
+      <Card className="p-8 bg-gradient-card shadow-card text-center">
+        <p className="text-lg text-muted-foreground">O arquivo está vazio.</p>
+        <Button variant="secondary" className="mt-4" onClick={onCancel}>Escolher outro arquivo</Button>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="p-6 bg-gradient-card shadow-card space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-start space-x-3">
+          <Columns className="h-6 w-6 text-primary mt-0.5" />
+          <div>
+            <h3 className="text-xl font-semibold">Confira as colunas antes de analisar</h3>
+            <p className="text-sm text-muted-foreground">{fileName}</p>
+          </div>
+        </div>
+        {preset && <Badge variant="secondary">Formato reconhecido: {preset.name}</Badge>}
+      </div>
+
+      <div className="flex flex-wrap gap-2 text-sm">
+        <Badge variant="outline">Separador: {DELIMITER_LABELS[parsed.delimiter] || parsed.delimiter}</Badge>
+        {loadedFile.encoding && <Badge variant="outline">Codificação: {loadedFile.encoding.toUpperCase()}</Badge>}
+        {loadedFile.sheetName && <Badge variant="outline">Aba: {loadedFile.sheetName}</Badge>}
+        <Badge variant="outline">{Math.max(rows.length - mapping.headerRow - 1, 0)} linhas de dados</Badge>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        {loadedFile.sheets && loadedFile.sheets.length > 1 && onSheetChange && (
+          <div className="space-y-2">
+            <Label className="flex items-center space-x-2">
+              <FileSpreadsheet className="h-4 w-4" />
+              <span>Aba da planilha</span>
+            </Label>
+            <Select value={loadedFile.sheetName} onValueChange={onSheetChange}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {loadedFile.sheets.map(sheet => (
+                  <SelectItem key={sheet} value={sheet}>{sheet}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label>Linha do cabeçalho</Label>
+          <Select value={String(mapping.headerRow)} onValueChange={handleHeaderRowChange}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {rows.slice(0, HEADER_CANDIDATES).map((row, idx) => (
+                <SelectItem key={idx} value={String(idx)}>
+                  Linha {idx + 1}: {row.filter(cell => cell !== '').slice(0, 4).join(' | ')}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Tipo de extrato</Label>
+        <RadioGroup
+          value={statementType}
+          onValueChange={(value) => setStatementType(value as StatementTypeOption)}
+          className="space-y-1"
+        >
+          <div className="flex items-center space-x-2">
+            <RadioGroupItem value="auto" id="statement-auto" />
+            <Label htmlFor="statement-auto" className="font-normal">
+              Detectar automaticamente
+              {statementType === 'auto' && (
+                <span className="text-muted-foreground">
+                  {' '}— {resolvedType === 'cartao' ? 'cartão de crédito' : 'conta corrente'} ({resolvedReason})
+                </span>
+              )}
+            </Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <RadioGroupItem value="cartao" id="statement-cartao" />
+            <Label htmlFor="statement-cartao" className="font-normal">Fatura de cartão (valores positivos são gastos)</Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <RadioGroupItem value="conta" id="statement-conta" />
+            <Label htmlFor="statement-conta" className="font-normal">Conta corrente (valores negativos são gastos)</Label>
+          </div>
+        </RadioGroup>
+      </div>
+
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {headers.map((header, idx) => (
+                <TableHead key={idx} className="min-w-[160px] align-top py-2">
+                  <p className="font-semibold text-foreground mb-2 truncate">{header || `Coluna ${idx + 1}`}</p>
+                  <Select value={mapping.roles[idx] || 'ignorar'} onValueChange={(value) => handleRoleChange(idx, value as ColumnRole)}>
+                    <SelectTrigger className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {COLUMN_ROLES.map(role => (
+                        <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableHead>
+              ))}
+              <TableHead className="min-w-[180px] align-top py-2">Interpretação</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {previewRows.map((row, rowIdx) => {
+              const source = canConfirm ? interpretRow(row) : undefined;
+              return (
+                <TableRow key={rowIdx}>
+                  {headers.map((_, idx) => (
+                    <TableCell key={idx} className={mapping.roles[idx] === 'ignorar' ? 'text-muted-foreground' : ''}>
+                      {row[idx]}
+                    </TableCell>
+                  ))}
+                  <TableCell>
+                    {source ? (
+                      <span className={source.tipo === 'Entrada' ? 'text-success' : 'text-destructive'}>
+                        {source.tipo === 'Entrada' ? '+' : '-'}{formatarValorBrasileiro(source.valorCentavos)} · {source.data}
+                      </span>
+                    ) : (
+                      <span className="text-muted-foreground">{canConfirm ? 'Linha ignorada' : '—'}</span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+
+      {!canConfirm && (
+        <p className="text-sm text-muted-foreground">
+          Indique ao menos a coluna de data, a de descrição e a de valor (ou débito/crédito).
+        </p>
+      )}
+
+      <div className="flex flex-wrap justify-end gap-2">
+        <Button variant="ghost" onClick={onCancel}>Cancelar</Button>
+        {!canConfirm && allowAIFallback && (
+          <Button variant="secondary" onClick={() => onConfirm(undefined, statementType)}>Deixar a IA interpretar</Button>
+        )}
+        <Button className="bg-gradient-primary hover:shadow-glow" disabled={!canConfirm} onClick={() => onConfirm(effectiveMapping, statementType)}>
+          Analisar
+        </Button>
+      </div>
+    </Card>
+  );
+};
+
+export default ColumnMappingPreview;
@@ -4,13 +4,18 @@ import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 
 interface FileUploadProps {
-  onFileUpload: (file: File) => void;
+  onFilesUpload: (files: File[]) => void;
   isUploading?: boolean;
 }
 
-const FileUpload = ({ onFileUpload, isUploading = false }: FileUploadProps) => {
+const isSupportedFile = (file: File) => {
+  const fileName = file.name.toLowerCase();
+  return file.type.includes('spreadsheet') || file.type.includes('excel') || fileName.endsWith('.xlsx') || fileName.endsWith('.xls') || fileName.endsWith('.csv') || fileName.endsWith('.ofx') || fileName.endsWith('.qfx');
+};
+
+const FileUpload = ({ onFilesUpload, isUploading = false }: FileUploadProps) => {
   const [isDragOver, setIsDragOver] = useState(false);
-  const [uploadedFile, setUploadedFile] = useState<File | null>(null);
+  const [uploadedFiles, setUploadedFiles] = useState<File[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleDragOver = (e: React.DragEvent) => {
@@ -27,22 +32,18 @@ const FileUpload = ({ onFileUpload, isUploading = false }: FileUploadProps) => {
     e.preventDefault();
     setIsDragOver(false);
     
-    const files = e.dataTransfer.files;
+    const files = Array.from(e.dataTransfer.files).filter(isSupportedFile);
     if (files.length > 0) {
-      const file = files[0];
-      if (file.type.includes('spreadsheet') || file.name.endsWith('.xlsx') || file.name.endsWith('.csv')) {
-        setUploadedFile(file);
-        onFileUpload(file);
-      }
+      setUploadedFiles(files);
+      onFilesUpload(files);
     }
   };
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = e.target.files;
-    if (files && files.length > 0) {
-      const file = files[0];
-      setUploadedFile(file);
-      onFileUpload(file);
+    const files = Array.from(e.target.files || []);
+    if (files.length > 0) {
+      setUploadedFiles(files);
+      onFilesUpload(files);
     }
   };
 
@@ -63,13 +64,14 @@ const FileUpload = ({ onFileUpload, isUploading = false }: FileUploadProps) => {
         <input
           ref={fileInputRef}
           type="file"
-          accept=".xlsx,.csv"
+          accept=".xlsx,.xls,.csv,.ofx,.qfx"
+          multiple
           onChange={handleFileSelect}
           className="hidden"
         />
         
         <div className="mb-6">
-          {uploadedFile ? (
+          {uploadedFiles.length > 0 ? (
             <div className="flex items-center justify-center mb-4">
               <CheckCircle className="h-16 w-16 text-success animate-pulse" />
             </div>
@@ -87,29 +89,29 @@ const FileUpload = ({ onFileUpload, isUploading = false }: FileUploadProps) => {
         </div>
 
         <h3 className="text-xl font-semibold mb-2">
-          {uploadedFile ? 'Arquivo Carregado!' : 'Envie sua Planilha'}
+          {uploadedFiles.length > 1 ? 'Arquivos Carregados!' : uploadedFiles.length === 1 ? 'Arquivo Carregado!' : 'Envie sua Planilha'}
         </h3>
         
         <p className="text-muted-foreground mb-6">
-          {uploadedFile 
-            ? `${uploadedFile.name} (${(uploadedFile.size / 1024 / 1024).toFixed(2)} MB)`
-            : 'Arraste e solte seu arquivo Excel ou CSV aqui, ou clique para selecionar'
+          {uploadedFiles.length > 0
+            ? uploadedFiles.map(file => `${file.name} (${(file.size / 1024 / 1024).toFixed(2)} MB)`).join(', ')
+            : 'Arraste e solte seus arquivos Excel, CSV ou OFX aqui, ou clique para selecionar'
           }
         </p>
 
         <div className="space-y-2">
           <Button 
             onClick={handleUploadClick}
-            variant={uploadedFile ? "secondary" : "default"}
+            variant={uploadedFiles.length > 0 ? "secondary" : "default"}
             size="lg"
             className="w-full sm:w-auto bg-gradient-primary hover:shadow-glow"
             disabled={isUploading}
           >
-            {isUploading ? 'Processando...' : uploadedFile ? 'Escolher Outro Arquivo' : 'Selecionar Arquivo'}
+            {isUploading ? 'Processando...' : uploadedFiles.length > 0 ? 'Escolher Outros Arquivos' : 'Selecionar Arquivos'}
           </Button>
           
           <p className="text-sm text-muted-foreground">
-            Suporte para arquivos .xlsx e .csv
+            Suporte para arquivos .xlsx, .xls, .csv e .ofx/.qfx — envie vários cartões e contas do mesmo período para analisá-los juntos
           </p>
         </div>
       </div>
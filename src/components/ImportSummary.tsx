@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ChevronDown, Copy } from 'lucide-react';
+import { DuplicateTransaction, ImportInfo } from '@/types/financial';
+import { formatarValorBrasileiro } from '@/utils/parse';
+
+interface ImportSummaryProps {
+  importInfo: ImportInfo;
+}
+
+const formatLabel = (info: ImportInfo) => {
+  if (info.preset) return `Formato reconhecido: ${info.preset.name}`;
+  if (info.format === 'ofx') return 'Extrato OFX';
+  if (info.columns) return 'Colunas detectadas automaticamente';
+  return 'CSV genérico (colunas interpretadas pela IA)';
+};
+
+const StatementTypeBadge = ({ info }: { info: ImportInfo }) => {
+  if (!info.statementType) return null;
+  return (
+    <Badge variant="outline" title={info.statementTypeReason}>
+      {info.statementType === 'cartao' ? 'Fatura de cartão' : 'Conta corrente'}
+      {info.statementTypeSource === 'detected' ? ' (detectado)' : ''}
+    </Badge>
+  );
+};
+
+const SkippedRows = ({ info }: { info: ImportInfo }) =>
+  info.skippedRows ? (
+    <span className="text-xs text-muted-foreground">
+      {info.skippedRows} linhas ignoradas (saldos, totais ou sem data/valor)
+    </span>
+  ) : null;
+
+// Cópias descartadas: entre arquivos, ou repetidas dentro do mesmo OFX (mesmo FITID, data e valor)
+const DuplicateList = ({ duplicates }: { duplicates: DuplicateTransaction[] }) => {
+  const [showDuplicates, setShowDuplicates] = useState(false);
+
+  return (
+    <Collapsible open={showDuplicates} onOpenChange={setShowDuplicates}>
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" size="sm" className="px-2">
+          <Copy className="h-4 w-4 mr-2" />
+          {duplicates.length} {duplicates.length === 1 ? 'transação duplicada removida' : 'transações duplicadas removidas'}
+          <ChevronDown className={`h-4 w-4 ml-2 transition-transform ${showDuplicates ? 'rotate-180' : ''}`} />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <ul className="space-y-1 text-xs text-muted-foreground mt-2">
+          {duplicates.map((duplicate, idx) => (
+            <li key={idx}>
+              {duplicate.data} · {duplicate.descricao} · {duplicate.tipo === 'Entrada' ? '+' : '-'}
+              {formatarValorBrasileiro(duplicate.valorCentavos)} — {duplicate.origem === duplicate.duplicateOf
+                ? `repetida${duplicate.origem ? ` em ${duplicate.origem}` : ' no arquivo'}`
+                : `em ${duplicate.origem}, já presente em ${duplicate.duplicateOf}`}
+              {duplicate.reason === 'externalId' ? ' (mesmo identificador)' : ''}
+            </li>
+          ))}
+        </ul>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+const ImportSummary = ({ importInfo }: ImportSummaryProps) => {
+  const duplicates = importInfo.duplicates || [];
+
+  if (importInfo.format !== 'multi') {
+    return (
+      <div className="space-y-2 mt-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <Badge variant="secondary">{formatLabel(importInfo)}</Badge>
+          <StatementTypeBadge info={importInfo} />
+          <SkippedRows info={importInfo} />
+        </div>
+        {duplicates.length > 0 && <DuplicateList duplicates={duplicates} />}
+      </div>
+    );
+  }
+
+  const files = importInfo.files || [];
+
+  return (
+    <div className="space-y-3 mt-3">
+      <Badge variant="secondary">{files.length} arquivos combinados</Badge>
+
+      <ul className="space-y-2">
+        {files.map(file => (
+          <li key={file.name} className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="font-medium">{file.name}</span>
+            <span className="text-muted-foreground">{file.transactionCount} transações</span>
+            <Badge variant="outline">{formatLabel(file)}</Badge>
+            <StatementTypeBadge info={file} />
+            <SkippedRows info={file} />
+          </li>
+        ))}
+      </ul>
+
+      {duplicates.length > 0 ? (
+        <DuplicateList duplicates={duplicates} />
+      ) : (
+        <p className="text-xs text-muted-foreground">Nenhuma transação duplicada entre os arquivos.</p>
+      )}
+    </div>
+  );
+};
+
+export default ImportSummary;
@@ -1,17 +1,20 @@
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
-import { TrendingUp, TrendingDown, AlertCircle, Target, DollarSign, PieChart, Brain } from 'lucide-react';
+import { TrendingUp, TrendingDown, AlertCircle, Target, DollarSign, PieChart, Brain, CalendarClock, Scale } from 'lucide-react';
 import { PieChart as RechartsPieChart, Cell, ResponsiveContainer, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Pie } from 'recharts';
 import { FinancialInsights, TransactionData } from '@/types/financial';
 import { formatarValorBrasileiro } from '@/utils/parse';
+import { projectInstallmentCommitments, splitEssentialSpending } from '@/utils/aggregate';
+import { CategoryTaxonomy, categoryDetails, resolveCategory } from '@api/services/category-taxonomy';
 
 interface InsightsViewProps {
   insights: FinancialInsights | null;
   transactions: TransactionData[];
+  taxonomia?: CategoryTaxonomy; // Cores e ícones das categorias, e o que é gasto essencial
 }
 
-const InsightsView = ({ insights, transactions }: InsightsViewProps) => {
+const InsightsView = ({ insights, transactions, taxonomia }: InsightsViewProps) => {
   // Show loading or empty state if no insights
   if (!insights) {
     return (
@@ -52,8 +55,20 @@ const InsightsView = ({ insights, transactions }: InsightsViewProps) => {
     { mes: currentMonth, entradas: insights.totalEntradas, saidas: insights.totalSaidas }
   ];
 
+  // Parcelas que ainda vão vencer nos próximos meses
+  const installments = projectInstallmentCommitments(transactions);
+  const maiorMesCentavos = Math.max(...installments.meses.map(mes => mes.totalCentavos), 1);
+  const formatarMes = (mes: string) => {
+    const [ano, mesNumero] = mes.split('-').map(Number);
+    return new Date(ano, mesNumero - 1, 1).toLocaleDateString('pt-BR', { month: 'short', year: 'numeric' });
+  };
+
   const COLORS = ['hsl(0 84% 60%)', 'hsl(38 92% 50%)', 'hsl(158 64% 52%)', 'hsl(204 94% 94%)', 'hsl(142 76% 36%)'];
 
+  // Cor e ícone da categoria na taxonomia, quando ela é conhecida
+  const detalhesDe = (nome: string) => taxonomia ? categoryDetails(taxonomia, resolveCategory(taxonomia, nome).categoriaPath) : undefined;
+  const essenciais = taxonomia ? splitEssentialSpending(transactions, taxonomia) : undefined;
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -118,7 +133,7 @@ const InsightsView = ({ insights, transactions }: InsightsViewProps) => {
                 dataKey="value"
               >
                 {chartData.map((entry, index) => (
-                  <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                  <Cell key={`cell-${index}`} fill={detalhesDe(entry.name)?.cor || COLORS[index % COLORS.length]} />
                 ))}
               </Pie>
               <Tooltip 
@@ -147,6 +162,65 @@ const InsightsView = ({ insights, transactions }: InsightsViewProps) => {
           </ResponsiveContainer>
         </Card>
       </div>
+
+      {/* Essenciais x supérfluos */}
+      {essenciais && insights.totalSaidas > 0 && (
+        <Card className="p-6 bg-gradient-card shadow-card">
+          <div className="flex items-center space-x-2 mb-4">
+            <Scale className="h-5 w-5 text-primary" />
+            <h3 className="text-lg font-semibold">Essenciais x Supérfluos</h3>
+          </div>
+          <div className="flex items-center justify-between mb-2 text-sm">
+            <span>Essenciais: <span className="font-semibold">{formatarValorBrasileiro(essenciais.essenciaisCentavos)}</span></span>
+            <span>Supérfluos: <span className="font-semibold text-destructive">{formatarValorBrasileiro(essenciais.superfluosCentavos)}</span></span>
+          </div>
+          <Progress value={essenciais.percentualEssencial} className="h-2" />
+          <p className="text-xs text-muted-foreground mt-2">
+            {essenciais.percentualEssencial}% dos gastos foram em categorias essenciais (marcadas em Categorias)
+          </p>
+        </Card>
+      )}
+
+      {/* Parcelas futuras */}
+      {installments.comprasParceladas > 0 && (
+        <Card className="p-6 bg-gradient-card shadow-card">
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center space-x-2">
+              <CalendarClock className="h-5 w-5 text-primary" />
+              <h3 className="text-lg font-semibold">Parcelas a Vencer</h3>
+            </div>
+            <div className="text-right">
+              <p className="text-sm text-muted-foreground">
+                {installments.comprasParceladas} {installments.comprasParceladas === 1 ? 'compra parcelada' : 'compras parceladas'}
+              </p>
+              <p className="font-semibold text-destructive">
+                {formatarValorBrasileiro(installments.totalComprometidoCentavos)} já comprometidos
+              </p>
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            {installments.meses.map(mes => (
+              <div key={mes.mes} className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium capitalize">{formatarMes(mes.mes)}</span>
+                  <div className="text-right">
+                    <span className="font-semibold">{formatarValorBrasileiro(mes.totalCentavos)}</span>
+                    <span className="text-sm text-muted-foreground ml-2">
+                      ({mes.parcelas.length} {mes.parcelas.length === 1 ? 'parcela' : 'parcelas'})
+                    </span>
+                  </div>
+                </div>
+                <Progress value={(mes.totalCentavos / maiorMesCentavos) * 100} className="h-2" />
+                <p className="text-xs text-muted-foreground">
+                  {mes.parcelas.map(parcela => `${parcela.empresa} ${parcela.numero}/${parcela.total}`).join(' · ')}
+                </p>
+              </div>
+            ))}
+          </div>
+        </Card>
+      )}
+
       <Card className="p-6 bg-gradient-card shadow-card">
         <div className="flex items-center space-x-2 mb-6">
           <PieChart className="h-5 w-5 text-primary" />
@@ -161,6 +235,7 @@ const InsightsView = ({ insights, transactions }: InsightsViewProps) => {
                   <Badge variant={categoria.tipo === 'entrada' ? 'default' : 'destructive'} className="text-xs">
                     {categoria.tipo === 'entrada' ? 'Entrada' : 'Saída'}
                   </Badge>
+                  {detalhesDe(categoria.nome)?.icone && <span aria-hidden>{detalhesDe(categoria.nome).icone}</span>}
                   <span className="font-medium">{categoria.nome}</span>
                 </div>
                 <div className="text-right">
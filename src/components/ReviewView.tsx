@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, Building, Check, CheckCheck, Pencil, Tag } from 'lucide-react';
+import { TransactionData } from '@/types/financial';
+import { formatarValorBrasileiro } from '@/utils/parse';
+import { CorrecaoTransacao, ResultadoCorrecao, aplicarCorrecao, confirmarClassificacao, transacoesDoEstabelecimento } from '@/utils/corrections';
+import { filaDeRevisao } from '@/utils/review';
+import { TransactionEditForm } from '@/components/CategorizationView';
+import { CategoryTaxonomy, categoryDetails, taxonomyPaths } from '@api/services/category-taxonomy';
+
+interface ReviewViewProps {
+  transactions: TransactionData[];
+  onTransactionsChange: (result: ResultadoCorrecao) => void;
+  taxonomia?: CategoryTaxonomy;
+}
+
+const ORIGENS: Record<NonNullable<TransactionData['classificadoPor']>, string> = {
+  regra: 'Regra',
+  memoria: 'Memória',
+  ia: 'IA',
+  dicionario: 'Dicionário',
+  usuario: 'Você',
+};
+
+const ReviewView = ({ transactions, onTransactionsChange, taxonomia }: ReviewViewProps) => {
+  const [editingId, setEditingId] = useState<number | null>(null);
+
+  const fila = filaDeRevisao(transactions);
+  const categorias = Array.from(new Set([
+    ...(taxonomia ? taxonomyPaths(taxonomia) : []),
+    ...transactions.map(transaction => transaction.categoria),
+  ])).sort();
+
+  const handleSave = (id: number, correcao: CorrecaoTransacao, aplicarAoEstabelecimento: boolean) => {
+    onTransactionsChange(aplicarCorrecao(transactions, id, correcao, aplicarAoEstabelecimento, taxonomia));
+    setEditingId(null);
+  };
+
+  if (fila.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-lg text-muted-foreground">
+          Nada para revisar.
+        </p>
+        <p className="text-sm text-muted-foreground mt-2">
+          Todas as transações foram classificadas com confiança e sem divergir das suas regras.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-2xl font-bold">Revisar Classificação</h2>
+          <p className="text-sm text-muted-foreground">
+            Divergências com suas regras primeiro, depois as classificações menos confiáveis.
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => onTransactionsChange(confirmarClassificacao(transactions, fila.map(t => t.id)))}>
+          <CheckCheck className="h-4 w-4 mr-2" />
+          Confirmar todas ({fila.length})
+        </Button>
+      </div>
+
+      <div className="grid gap-4">
+        {fila.map((transaction) => {
+          const detalhes = taxonomia ? categoryDetails(taxonomia, transaction.categoriaPath) : undefined;
+          return (
+            <Card key={transaction.id} className="p-6 bg-gradient-card shadow-card">
+              <div className="flex items-start justify-between gap-4">
+                <div className="flex-1 min-w-0">
+                  <div className="flex flex-wrap items-center gap-2 mb-2">
+                    {transaction.confianca !== undefined && (
+                      <Badge variant={transaction.confianca < 0.5 ? 'destructive' : 'secondary'}>
+                        {Math.round(transaction.confianca * 100)}% de confiança
+                      </Badge>
+                    )}
+                    {transaction.classificadoPor && (
+                      <Badge variant="outline" className="font-normal">{ORIGENS[transaction.classificadoPor]}</Badge>
+                    )}
+                    <span className="text-sm text-muted-foreground">{transaction.data}</span>
+                  </div>
+                  <h3 className="text-lg font-semibold mb-1 truncate">{transaction.descricao}</h3>
+                  <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+                    <div className="flex items-center space-x-1">
+                      <Building className="h-4 w-4" />
+                      <span>{transaction.empresa}</span>
+                    </div>
+                    <div className="flex items-center space-x-1">
+                      {detalhes?.icone ? <span aria-hidden>{detalhes.icone}</span> : <Tag className="h-4 w-4" />}
+                      <span style={detalhes?.cor ? { color: detalhes.cor } : undefined}>{transaction.categoria}</span>
+                    </div>
+                  </div>
+                  {transaction.motivo && (
+                    <p className="text-sm text-muted-foreground mt-2">{transaction.motivo}</p>
+                  )}
+                  {transaction.conflito && (
+                    <div className="flex flex-wrap items-center gap-2 mt-2 text-sm">
+                      <AlertTriangle className="h-4 w-4 text-warning" />
+                      <span>Suas regras sugerem <strong>{transaction.conflito}</strong></span>
+                      <Button variant="link" size="sm" className="h-auto p-0" onClick={() => handleSave(transaction.id, { categoria: transaction.conflito }, false)}>
+                        Usar {transaction.conflito}
+                      </Button>
+                    </div>
+                  )}
+                </div>
+                <div className="text-right shrink-0">
+                  <div className={`text-xl font-bold ${transaction.tipo === 'Entrada' ? 'text-success' : 'text-destructive'}`}>
+                    {transaction.tipo === 'Entrada' ? '+' : '-'}{formatarValorBrasileiro(transaction.valorCentavos)}
+                  </div>
+                  {editingId !== transaction.id && (
+                    <div className="flex justify-end gap-1 mt-2">
+                      <Button variant="ghost" size="sm" onClick={() => onTransactionsChange(confirmarClassificacao(transactions, [transaction.id]))}>
+                        <Check className="h-4 w-4 mr-2" />
+                        Confirmar
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => setEditingId(transaction.id)}>
+                        <Pencil className="h-4 w-4 mr-2" />
+                        Corrigir
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              </div>
+              {editingId === transaction.id && (
+                <TransactionEditForm
+                  transaction={transaction}
+                  sameMerchantCount={transacoesDoEstabelecimento(transactions, transaction).length}
+                  categorias={categorias}
+                  onSave={(correcao, aplicarAoEstabelecimento) => handleSave(transaction.id, correcao, aplicarAoEstabelecimento)}
+                  onCancel={() => setEditingId(null)}
+                />
+              )}
+            </Card>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ReviewView;
@@ -0,0 +1,277 @@
+import { useRef, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { AlertCircle, Download, ListChecks, Plus, RotateCcw, Trash2, Upload } from 'lucide-react';
+import { ClassificationRule, RuleCondition, parseRulesInput } from '@api/services/classification-rules';
+import { parseValorBrasileiro } from '@api/services/value-parsers';
+import { RuleStats } from '@/types/financial';
+import { REGRAS_PADRAO, exportarRegras, importarRegras } from '@/utils/rules';
+import { formatarValorBrasileiro } from '@/utils/parse';
+
+interface RulesManagerProps {
+  rules: ClassificationRule[];
+  onChange: (rules: ClassificationRule[]) => void;
+  ruleStats?: RuleStats | null; // Acertos da última análise
+}
+
+const CONDITION_LABELS: Record<RuleCondition['type'], string> = {
+  contains: 'Descrição contém',
+  regex: 'Expressão regular',
+  'merchant-equals': 'Estabelecimento igual a',
+  'amount-range': 'Valor entre',
+};
+
+const describeCondition = (condition: RuleCondition): string => {
+  switch (condition.type) {
+    case 'contains':
+    case 'merchant-equals':
+      return `${CONDITION_LABELS[condition.type]} "${condition.value}"`;
+    case 'regex':
+      return `Regex /${condition.pattern}/${condition.flags ?? 'i'}`;
+    case 'amount-range':
+      return `Valor ${condition.minCentavos !== undefined ? `≥ ${formatarValorBrasileiro(condition.minCentavos)}` : ''}` +
+        `${condition.minCentavos !== undefined && condition.maxCentavos !== undefined ? ' e ' : ''}` +
+        `${condition.maxCentavos !== undefined ? `≤ ${formatarValorBrasileiro(condition.maxCentavos)}` : ''}`;
+  }
+};
+
+const describeAction = (rule: ClassificationRule): string => {
+  if (rule.action.ignore) return 'Ignorar transação';
+  const parts = [
+    rule.action.categoria,
+    rule.action.empresa && `empresa "${rule.action.empresa}"`,
+    rule.action.tipo && `sempre ${rule.action.tipo}`,
+  ].filter(Boolean);
+  return parts.join(' · ');
+};
+
+const emptyForm = {
+  name: '',
+  conditionType: 'contains' as RuleCondition['type'],
+  value: '',
+  min: '',
+  max: '',
+  categoria: '',
+  tipo: 'manter' as 'manter' | 'Entrada' | 'Saída',
+  ignore: false,
+};
+
+const RulesManager = ({ rules, onChange, ruleStats }: RulesManagerProps) => {
+  const [form, setForm] = useState(emptyForm);
+  const [error, setError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const hitsById = new Map((ruleStats?.hits || []).map(hit => [hit.ruleId, hit.hits]));
+
+  const updateForm = (changes: Partial<typeof emptyForm>) => setForm(current => ({ ...current, ...changes }));
+
+  const handleAdd = () => {
+    const condition: Record<string, unknown> = { type: form.conditionType };
+    if (form.conditionType === 'amount-range') {
+      if (form.min.trim() !== '') condition.minCentavos = Math.abs(parseValorBrasileiro(form.min));
+      if (form.max.trim() !== '') condition.maxCentavos = Math.abs(parseValorBrasileiro(form.max));
+    } else if (form.conditionType === 'regex') {
+      condition.pattern = form.value;
+    } else {
+      condition.value = form.value;
+    }
+
+    const candidate = {
+      id: `regra-${Date.now()}`,
+      name: form.name || form.value || 'Nova regra',
+      enabled: true,
+      conditions: [condition],
+      action: {
+        ...(form.ignore ? { ignore: true } : {}),
+        ...(!form.ignore && form.categoria.trim() ? { categoria: form.categoria } : {}),
+        ...(!form.ignore && form.tipo !== 'manter' ? { tipo: form.tipo } : {}),
+      },
+    };
+
+    try {
+      onChange(parseRulesInput([...rules, candidate]));
+      setForm(emptyForm);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Regra inválida');
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      onChange(importarRegras(await file.text()));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Não foi possível importar as regras');
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportarRegras(rules)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'regras-classificacao.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const toggleRule = (id: string, enabled: boolean) =>
+    onChange(rules.map(rule => (rule.id === id ? { ...rule, enabled } : rule)));
+
+  const removeRule = (id: string) => onChange(rules.filter(rule => rule.id !== id));
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <ListChecks className="h-4 w-4 mr-2" />
+          Regras de classificação ({rules.filter(rule => rule.enabled).length})
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Regras de classificação</DialogTitle>
+          <DialogDescription>
+            Transações que batem com uma regra são classificadas sem passar pela IA. A primeira regra que bater vale.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-2">
+          <input ref={importInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+          <Button variant="secondary" size="sm" onClick={() => importInputRef.current?.click()}>
+            <Upload className="h-4 w-4 mr-2" />
+            Importar JSON
+          </Button>
+          <Button variant="secondary" size="sm" onClick={handleExport}>
+            <Download className="h-4 w-4 mr-2" />
+            Exportar JSON
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => onChange(REGRAS_PADRAO)}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Restaurar padrão
+          </Button>
+        </div>
+
+        {error && (
+          <Alert className="border-destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <ul className="space-y-2">
+          {rules.length === 0 && <li className="text-sm text-muted-foreground">Nenhuma regra cadastrada.</li>}
+          {rules.map(rule => (
+            <li key={rule.id} className="flex items-center gap-3 rounded-md border p-3">
+              <Switch checked={rule.enabled} onCheckedChange={(checked) => toggleRule(rule.id, checked)} />
+              <div className="flex-1 min-w-0">
+                <p className="font-medium truncate">{rule.name}</p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {rule.conditions.map(describeCondition).join(' e ')} → {describeAction(rule)}
+                </p>
+              </div>
+              {ruleStats && (
+                <Badge variant={hitsById.get(rule.id) ? 'secondary' : 'outline'}>
+                  {hitsById.get(rule.id) || 0} acertos
+                </Badge>
+              )}
+              <Button variant="ghost" size="icon" onClick={() => removeRule(rule.id)} aria-label={`Remover ${rule.name}`}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+
+        <div className="space-y-3 rounded-md border p-4">
+          <p className="font-medium">Nova regra</p>
+          <div className="grid gap-3 md:grid-cols-2">
+            <div className="space-y-1">
+              <Label>Nome</Label>
+              <Input value={form.name} onChange={(e) => updateForm({ name: e.target.value })} placeholder="Ex: Academia" />
+            </div>
+            <div className="space-y-1">
+              <Label>Condição</Label>
+              <Select value={form.conditionType} onValueChange={(value) => updateForm({ conditionType: value as RuleCondition['type'] })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(CONDITION_LABELS).map(([type, label]) => (
+                    <SelectItem key={type} value={type}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {form.conditionType === 'amount-range' ? (
+              <div className="grid grid-cols-2 gap-2 md:col-span-2">
+                <div className="space-y-1">
+                  <Label>Valor mínimo (R$)</Label>
+                  <Input value={form.min} onChange={(e) => updateForm({ min: e.target.value })} placeholder="0,00" />
+                </div>
+                <div className="space-y-1">
+                  <Label>Valor máximo (R$)</Label>
+                  <Input value={form.max} onChange={(e) => updateForm({ max: e.target.value })} placeholder="100,00" />
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-1 md:col-span-2">
+                <Label>{form.conditionType === 'regex' ? 'Expressão regular' : 'Texto'}</Label>
+                <Input
+                  value={form.value}
+                  onChange={(e) => updateForm({ value: e.target.value })}
+                  placeholder={form.conditionType === 'regex' ? 'smart ?fit' : 'SMARTFIT'}
+                />
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label>Categoria</Label>
+              <Input
+                value={form.categoria}
+                disabled={form.ignore}
+                onChange={(e) => updateForm({ categoria: e.target.value })}
+                placeholder="Saúde > Academia"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Tipo</Label>
+              <Select value={form.tipo} disabled={form.ignore} onValueChange={(value) => updateForm({ tipo: value as typeof form.tipo })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="manter">Manter pelo sinal do valor</SelectItem>
+                  <SelectItem value="Entrada">Sempre Entrada</SelectItem>
+                  <SelectItem value="Saída">Sempre Saída</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <Checkbox id="rule-ignore" checked={form.ignore} onCheckedChange={(checked) => updateForm({ ignore: checked === true })} />
+              <Label htmlFor="rule-ignore" className="font-normal">Ignorar a transação (não entra nos totais)</Label>
+            </div>
+            <Button size="sm" onClick={handleAdd}>
+              <Plus className="h-4 w-4 mr-2" />
+              Adicionar
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RulesManager;
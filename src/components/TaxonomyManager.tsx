@@ -0,0 +1,222 @@
+import { useRef, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertCircle, Download, FolderTree, Plus, RotateCcw, Trash2, Upload } from 'lucide-react';
+import { CategoryNode, CategoryTaxonomy, DEFAULT_TAXONOMY, categoryDetails } from '@api/services/category-taxonomy';
+import { adicionarCategoria, exportarTaxonomia, importarTaxonomia, removerCategoria } from '@/utils/taxonomy';
+
+interface TaxonomyManagerProps {
+  taxonomia: CategoryTaxonomy;
+  onChange: (taxonomia: CategoryTaxonomy) => void;
+}
+
+// Categoria com o caminho de ids e de nomes desde a raiz, para listar a árvore achatada
+interface CategoriaListada {
+  categoria: CategoryNode;
+  ids: string[];
+  nomes: string[];
+}
+
+const RAIZ = '__raiz__';
+
+const listar = (taxonomia: CategoryTaxonomy, ids: string[] = [], nomes: string[] = []): CategoriaListada[] =>
+  taxonomia.flatMap(categoria => [
+    { categoria, ids: [...ids, categoria.id], nomes: [...nomes, categoria.nome] },
+    ...listar(categoria.subcategorias || [], [...ids, categoria.id], [...nomes, categoria.nome]),
+  ]);
+
+const emptyForm = {
+  nome: '',
+  pai: RAIZ, // Ids do caminho separados por "/", ou RAIZ
+  icone: '',
+  cor: '',
+  essencial: false,
+  sinonimos: '',
+};
+
+const TaxonomyManager = ({ taxonomia, onChange }: TaxonomyManagerProps) => {
+  const [form, setForm] = useState(emptyForm);
+  const [error, setError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const categorias = listar(taxonomia);
+
+  const updateForm = (changes: Partial<typeof emptyForm>) => setForm(current => ({ ...current, ...changes }));
+
+  const handleAdd = () => {
+    const sinonimos = form.sinonimos.split(',').map(sinonimo => sinonimo.trim()).filter(Boolean);
+    try {
+      onChange(adicionarCategoria(taxonomia, {
+        nome: form.nome,
+        ...(form.icone.trim() ? { icone: form.icone.trim() } : {}),
+        ...(form.cor.trim() ? { cor: form.cor.trim() } : {}),
+        essencial: form.essencial,
+        ...(sinonimos.length > 0 ? { sinonimos } : {}),
+      }, form.pai === RAIZ ? [] : form.pai.split('/')));
+      setForm(emptyForm);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Categoria inválida');
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      onChange(importarTaxonomia(await file.text()));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Não foi possível importar as categorias');
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportarTaxonomia(taxonomia)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'categorias.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <FolderTree className="h-4 w-4 mr-2" />
+          Categorias ({categorias.length})
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Categorias</DialogTitle>
+          <DialogDescription>
+            A classificação usa só estas categorias. Nomes parecidos e sinônimos são mapeados para elas, então os totais não se espalham em variações do mesmo nome.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-2">
+          <input ref={importInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+          <Button variant="secondary" size="sm" onClick={() => importInputRef.current?.click()}>
+            <Upload className="h-4 w-4 mr-2" />
+            Importar JSON
+          </Button>
+          <Button variant="secondary" size="sm" onClick={handleExport}>
+            <Download className="h-4 w-4 mr-2" />
+            Exportar JSON
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => onChange(DEFAULT_TAXONOMY)}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Restaurar padrão
+          </Button>
+        </div>
+
+        {error && (
+          <Alert className="border-destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <ul className="space-y-1">
+          {categorias.map(({ categoria, ids }) => {
+            const detalhes = categoryDetails(taxonomia, ids);
+            return (
+              <li
+                key={ids.join('/')}
+                className="flex items-center gap-3 rounded-md border p-2"
+                style={{ marginLeft: `${(ids.length - 1) * 1.5}rem` }}
+              >
+                <span
+                  className="h-3 w-3 shrink-0 rounded-full"
+                  style={{ backgroundColor: detalhes.cor || 'hsl(var(--muted))' }}
+                  aria-hidden
+                />
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium truncate">
+                    {detalhes.icone && <span aria-hidden className="mr-1">{detalhes.icone}</span>}
+                    {categoria.nome}
+                  </p>
+                  {categoria.sinonimos && (
+                    <p className="text-xs text-muted-foreground truncate">{categoria.sinonimos.join(', ')}</p>
+                  )}
+                </div>
+                <Badge variant={detalhes.essencial ? 'secondary' : 'outline'}>
+                  {detalhes.essencial ? 'Essencial' : 'Supérfluo'}
+                </Badge>
+                <Button variant="ghost" size="icon" onClick={() => onChange(removerCategoria(taxonomia, ids))} aria-label={`Remover ${categoria.nome}`}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="space-y-3 rounded-md border p-4">
+          <p className="font-medium">Nova categoria</p>
+          <div className="grid gap-3 md:grid-cols-2">
+            <div className="space-y-1">
+              <Label>Nome</Label>
+              <Input value={form.nome} onChange={(e) => updateForm({ nome: e.target.value })} placeholder="Ex: Academia" />
+            </div>
+            <div className="space-y-1">
+              <Label>Dentro de</Label>
+              <Select
+                value={form.pai}
+                onValueChange={(value) => updateForm({ pai: value, essencial: value !== RAIZ && categoryDetails(taxonomia, value.split('/')).essencial })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={RAIZ}>Nenhuma (categoria principal)</SelectItem>
+                  {categorias.map(({ ids, nomes }) => (
+                    <SelectItem key={ids.join('/')} value={ids.join('/')}>{nomes.join(' > ')}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Ícone</Label>
+              <Input value={form.icone} onChange={(e) => updateForm({ icone: e.target.value })} placeholder="🏋️ (opcional, herda da categoria de cima)" />
+            </div>
+            <div className="space-y-1">
+              <Label>Cor</Label>
+              <Input value={form.cor} onChange={(e) => updateForm({ cor: e.target.value })} placeholder="#10b981 (opcional, herda da categoria de cima)" />
+            </div>
+            <div className="space-y-1 md:col-span-2">
+              <Label>Sinônimos</Label>
+              <Input
+                value={form.sinonimos}
+                onChange={(e) => updateForm({ sinonimos: e.target.value })}
+                placeholder="gym, musculação (separados por vírgula)"
+              />
+            </div>
+          </div>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <Checkbox id="category-essential" checked={form.essencial} onCheckedChange={(checked) => updateForm({ essencial: checked === true })} />
+              <Label htmlFor="category-essential" className="font-normal">Gasto essencial (moradia, saúde, contas...)</Label>
+            </div>
+            <Button size="sm" disabled={form.nome.trim() === ''} onClick={handleAdd}>
+              <Plus className="h-4 w-4 mr-2" />
+              Adicionar
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TaxonomyManager;
@@ -1,54 +1,218 @@
 import { useState } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
-import { Download, BarChart, FileText, AlertCircle, Brain, Flame } from 'lucide-react';
+import { Download, BarChart, FileText, AlertCircle, Brain, Flame, Eraser, ListChecks } from 'lucide-react';
 import { Card } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Input } from '@/components/ui/input';
 import FileUpload from '@/components/FileUpload';
+import ColumnMappingPreview from '@/components/ColumnMappingPreview';
 import CategorizationView from '@/components/CategorizationView';
+import ReviewView from '@/components/ReviewView';
 import InsightsView from '@/components/InsightsView';
 import GeneralAnalysisView from '@/components/GeneralAnalysisView';
-import { TransactionData, FinancialInsights, GeneralAnalysis } from '@/types/financial';
-import { getFileContent, analyzeCSVWithAI } from '@/services/api-client';
+import ImportSummary from '@/components/ImportSummary';
+import RulesManager from '@/components/RulesManager';
+import TaxonomyManager from '@/components/TaxonomyManager';
+import { TransactionData, FinancialInsights, GeneralAnalysis, ImportInfo, RuleStats, OutputValidationReport, CacheReport } from '@/types/financial';
+import { loadFile, analyzeCSVWithAI, analyzeFilesWithAI, LoadedFile, ProgressCallback } from '@/services/api-client';
+import type { ColumnMapping } from '@api/services/column-mapping';
+import type { StatementTypeOption } from '@api/services/statement-type';
+import type { AnalysisFile } from '@api/services/source-merge';
+import type { ClassificationRule } from '@api/services/classification-rules';
+import type { CategoryTaxonomy } from '@api/services/category-taxonomy';
+import type { MerchantMemoryEntry } from '@api/services/merchant-memory';
+import type { RowReconciliation } from '@api/services/row-reconciliation';
+import type { RedactionReport } from '@api/services/pii-redaction';
+import type { UsageReport } from '@api/services/llm-usage';
+import { carregarRegras, salvarRegras } from '@/utils/rules';
+import { carregarTaxonomia, salvarTaxonomia } from '@/utils/taxonomy';
+import { aprenderComAnalise, carregarMemoria, registrarCorrecao, salvarMemoria } from '@/utils/merchant-memory';
+import { aggregateTransactions, generateFinancialInsights } from '@/utils/aggregate';
+import type { ResultadoCorrecao } from '@/utils/corrections';
+import { filaDeRevisao } from '@/utils/review';
 
 const Index = () => {
-  const [uploadedFile, setUploadedFile] = useState<File | null>(null);
+  const [uploadedFiles, setUploadedFiles] = useState<string[]>([]);
+  // Arquivos aguardando confirmação das colunas, um de cada vez
+  const [pendingFiles, setPendingFiles] = useState<{ file: File; loaded: LoadedFile }[]>([]);
+  const [confirmedFiles, setConfirmedFiles] = useState<AnalysisFile[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [transactions, setTransactions] = useState<TransactionData[]>([]);
   const [insights, setInsights] = useState<FinancialInsights | null>(null);
   const [generalAnalysis, setGeneralAnalysis] = useState<GeneralAnalysis | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [aiSummary, setAiSummary] = useState<string | null>(null);
+  const [importInfo, setImportInfo] = useState<ImportInfo | null>(null);
   const [processingProgress, setProcessingProgress] = useState<{ current: number; total: number } | null>(null);
+  const [rules, setRules] = useState<ClassificationRule[]>(carregarRegras);
+  const [ruleStats, setRuleStats] = useState<RuleStats | null>(null);
+  // Categorias canônicas: a classificação é restrita a elas
+  const [taxonomy, setTaxonomy] = useState<CategoryTaxonomy>(carregarTaxonomia);
+  // Estabelecimentos já classificados em análises anteriores
+  const [merchantMemory, setMerchantMemory] = useState<MerchantMemoryEntry[]>(carregarMemoria);
+  const [memoryHits, setMemoryHits] = useState<number | null>(null);
+  // Sem IA: dicionário de estabelecimentos e análise montada a partir dos números
+  const [offlineMode, setOfflineMode] = useState(false);
+  const [analysisMode, setAnalysisMode] = useState<'llm' | 'offline' | null>(null);
+  const [validation, setValidation] = useState<OutputValidationReport | null>(null);
+  const [reconciliation, setReconciliation] = useState<RowReconciliation | null>(null);
+  const [cacheReport, setCacheReport] = useState<CacheReport | null>(null);
+  const [redaction, setRedaction] = useState<RedactionReport | null>(null);
+  const [usage, setUsage] = useState<UsageReport | null>(null);
+  const [budget, setBudget] = useState(''); // Limite de custo em US$ ('' = sem limite)
 
-  const handleFileUpload = async (file: File) => {
-    console.log('File uploaded:', file.name);
-    setUploadedFile(file);
+  const handleRulesChange = (updated: ClassificationRule[]) => {
+    setRules(updated);
+    salvarRegras(updated);
+  };
+
+  const handleTaxonomyChange = (updated: CategoryTaxonomy) => {
+    setTaxonomy(updated);
+    salvarTaxonomia(updated);
+  };
+
+  const handleMerchantMemoryChange = (updated: MerchantMemoryEntry[]) => {
+    setMerchantMemory(updated);
+    salvarMemoria(updated);
+  };
+
+  // Correções manuais: totais e insights recalculados localmente, sem nova chamada à API
+  const handleTransactionsChange = ({ transactions: updated, alteradas }: ResultadoCorrecao) => {
+    const anteriores = new Map(transactions.map(transaction => [transaction.id, transaction]));
+    // Confirmações também vão para a memória, como escolha do usuário
+    const corrigidas = alteradas.filter(transaction =>
+      transaction.categoria !== anteriores.get(transaction.id)?.categoria ||
+      transaction.empresa !== anteriores.get(transaction.id)?.empresa ||
+      (transaction.classificadoPor === 'usuario' && anteriores.get(transaction.id)?.classificadoPor !== 'usuario')
+    );
+
+    setTransactions(updated);
+    setInsights(generateFinancialInsights(aggregateTransactions(updated)));
+    if (corrigidas.length > 0) {
+      handleMerchantMemoryChange(corrigidas.reduce(registrarCorrecao, merchantMemory));
+    }
+  };
+
+  // Transações com classificação duvidosa; com alguma, a aba Revisar abre primeiro
+  const reviewCount = filaDeRevisao(transactions).length;
+
+  const pendingFile = pendingFiles[0];
+  const totalFiles = pendingFiles.length + confirmedFiles.length;
+
+  const handleFilesUpload = async (files: File[]) => {
+    console.log('Files uploaded:', files.map(file => file.name));
+    setError(null);
+
+    try {
+      // Get file contents
+      console.log('Reading file contents...');
+      const loadedFiles = await Promise.all(files.map(async file => ({ file, loaded: await loadFile(file) })));
+
+      // OFX has a fixed structure: no columns to confirm
+      const ready = loadedFiles
+        .filter(({ loaded }) => loaded.format === 'ofx')
+        .map(({ file, loaded }): AnalysisFile => ({ name: file.name, content: loaded.content }));
+      const toConfirm = loadedFiles.filter(({ loaded }) => loaded.format !== 'ofx');
+
+      if (toConfirm.length === 0) {
+        await runAnalysis(ready);
+        return;
+      }
+
+      setConfirmedFiles(ready);
+      setPendingFiles(toConfirm);
+    } catch (err) {
+      console.error('Error reading file:', err);
+      setError(err instanceof Error ? err.message : 'Erro ao ler o arquivo');
+    }
+  };
+
+  const handleSheetChange = async (sheetName: string) => {
+    if (!pendingFile) return;
+
+    try {
+      const loaded = await loadFile(pendingFile.file, { sheetName });
+      setPendingFiles([{ file: pendingFile.file, loaded }, ...pendingFiles.slice(1)]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erro ao ler a aba da planilha');
+    }
+  };
+
+  const handleMappingConfirm = (columnMapping: ColumnMapping | undefined, statementType: StatementTypeOption) => {
+    if (!pendingFile) return;
+
+    const { file, loaded } = pendingFile;
+    const confirmed = [...confirmedFiles, { name: file.name, content: loaded.content, columnMapping, statementType }];
+    const remaining = pendingFiles.slice(1);
+
+    setPendingFiles(remaining);
+    setConfirmedFiles(remaining.length > 0 ? confirmed : []);
+    if (remaining.length === 0) {
+      runAnalysis(confirmed);
+    }
+  };
+
+  const handleMappingCancel = () => {
+    setPendingFiles([]);
+    setConfirmedFiles([]);
+  };
+
+  const runAnalysis = async (files: AnalysisFile[]) => {
+    setUploadedFiles(files.map(file => file.name));
     setIsProcessing(true);
     setError(null);
     setAiSummary(null);
+    setImportInfo(null);
+    setRuleStats(null);
+    setUsage(null);
     setProcessingProgress(null);
 
     try {
-      // Get file content
-      console.log('Reading file content...');
-      const fileContent = await getFileContent(file);
-      console.log('File content length:', fileContent.length);
-      
       // Analyze with backend API
       console.log('Analyzing with backend API...');
       setProcessingProgress({ current: 0, total: 1 }); // Initialize progress
-      
-      const analysisResult = await analyzeCSVWithAI(fileContent, {
+
+      // Os batches rodam em paralelo: o progresso conta os concluídos, em qualquer ordem
+      const concluidos = (totalBatches: number, incremento: number) =>
+        setProcessingProgress(prev => ({
+          current: (prev && prev.total === totalBatches ? prev.current : 0) + incremento,
+          total: totalBatches,
+        }));
+      const progressCallback: ProgressCallback = {
         onBatchStart: (batchNumber: number, totalBatches: number) => {
           console.log(`Starting batch ${batchNumber} of ${totalBatches}`);
-          setProcessingProgress({ current: batchNumber - 1, total: totalBatches });
+          concluidos(totalBatches, 0);
         },
-        onBatchComplete: (batchNumber: number, totalBatches: number) => {
+        onBatchComplete: (batchNumber: number, totalBatches: number, _batchResult, usoParcial?: UsageReport) => {
           console.log(`Completed batch ${batchNumber} of ${totalBatches}`);
-          setProcessingProgress({ current: batchNumber, total: totalBatches });
+          concluidos(totalBatches, 1);
+          if (usoParcial) setUsage(usoParcial);
+        },
+        onBatchFailed: (batchNumber: number, totalBatches: number, error: string) => {
+          console.warn(`Batch ${batchNumber} of ${totalBatches} failed: ${error}`);
+          concluidos(totalBatches, 1);
         }
-      });
+      };
+
+      // Vários arquivos são combinados e deduplicados no backend
+      const mode = offlineMode ? 'offline' : 'auto';
+      const budgetUSD = Number(budget.replace(',', '.')) > 0 ? Number(budget.replace(',', '.')) : undefined;
+      const [single] = files;
+      const analysisResult = files.length === 1
+        ? await analyzeCSVWithAI(single.content, progressCallback, {
+            columnMapping: single.columnMapping,
+            statementType: single.statementType,
+            rules,
+            merchantMemory,
+            mode,
+            budgetUSD,
+            taxonomy,
+          })
+        : await analyzeFilesWithAI(files, progressCallback, { rules, merchantMemory, mode, budgetUSD, taxonomy });
       console.log('Analysis completed:', analysisResult);
       
       // Update state with AI-analyzed data
@@ -56,6 +220,18 @@ const Index = () => {
       setInsights(analysisResult.insights);
       setGeneralAnalysis(analysisResult.generalAnalysis);
       setAiSummary(analysisResult.summary);
+      setImportInfo(analysisResult.importInfo || null);
+      setRuleStats(analysisResult.ruleStats || null);
+      setMemoryHits(analysisResult.merchantMemory?.hits ?? null);
+      setAnalysisMode(analysisResult.analysisMode || null);
+      setValidation(analysisResult.validation || null);
+      setReconciliation(analysisResult.reconciliation || null);
+      setCacheReport(analysisResult.cache || null);
+      setRedaction(analysisResult.redaction || null);
+      setUsage(analysisResult.usage || null);
+      if (analysisResult.merchantMemory?.learned.length) {
+        handleMerchantMemoryChange(aprenderComAnalise(merchantMemory, analysisResult.merchantMemory.learned));
+      }
       
       console.log('Processing completed successfully with backend analysis');
     } catch (err) {
@@ -86,12 +262,58 @@ const Index = () => {
         </div>
 
         {/* File Upload Section */}
-        {!uploadedFile && (
-          <div className="max-w-2xl mx-auto mb-12">
+        {uploadedFiles.length === 0 && !pendingFile && (
+          <div className="max-w-2xl mx-auto mb-12 space-y-4">
             <FileUpload 
-              onFileUpload={handleFileUpload} 
+              onFilesUpload={handleFilesUpload} 
               isUploading={isProcessing}
             />
+            <div className="flex flex-wrap items-center justify-center gap-2">
+              <RulesManager rules={rules} onChange={handleRulesChange} />
+              <TaxonomyManager taxonomia={taxonomy} onChange={handleTaxonomyChange} />
+              <div className="flex items-center space-x-2 px-2">
+                <Switch id="offline-mode" checked={offlineMode} onCheckedChange={setOfflineMode} />
+                <Label htmlFor="offline-mode" className="font-normal">Analisar sem IA (offline)</Label>
+              </div>
+              {!offlineMode && (
+                <div className="flex items-center space-x-2 px-2">
+                  <Label htmlFor="budget" className="font-normal">Limite de custo (US$)</Label>
+                  <Input
+                    id="budget"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={budget}
+                    onChange={e => setBudget(e.target.value)}
+                    placeholder="sem limite"
+                    className="h-8 w-28"
+                  />
+                </div>
+              )}
+              {merchantMemory.length > 0 && (
+                <Button variant="ghost" size="sm" onClick={() => handleMerchantMemoryChange([])}>
+                  <Eraser className="h-4 w-4 mr-2" />
+                  Esquecer estabelecimentos ({merchantMemory.length})
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Column Mapping Preview */}
+        {pendingFile && (
+          <div className="mb-12">
+            <ColumnMappingPreview
+              key={`${pendingFile.file.name}-${pendingFile.loaded.sheetName || ''}`}
+              fileName={totalFiles > 1
+                ? `${pendingFile.file.name} (arquivo ${confirmedFiles.length + 1} de ${totalFiles})`
+                : pendingFile.file.name}
+              loadedFile={pendingFile.loaded}
+              allowAIFallback={totalFiles === 1}
+              onConfirm={handleMappingConfirm}
+              onCancel={handleMappingCancel}
+              onSheetChange={handleSheetChange}
+            />
           </div>
         )}
 
@@ -102,7 +324,7 @@ const Index = () => {
             <AlertDescription>{error}</AlertDescription>
           </Alert>
         )}
-        {(uploadedFile || isProcessing) && !error && (
+        {(uploadedFiles.length > 0 || isProcessing) && !error && (
           <div className="space-y-8">
             {isProcessing ? (
               <div className="flex items-center justify-center py-12">
@@ -113,7 +335,7 @@ const Index = () => {
                     {processingProgress && (
                       <div className="mt-3">
                         <p className="text-sm text-muted-foreground mb-2">
-                          Processando batch {processingProgress.current} de {processingProgress.total}
+                          {processingProgress.current} de {processingProgress.total} batches concluídos
                         </p>
                         <div className="w-64 bg-muted rounded-full h-2">
                           <div 
@@ -124,6 +346,9 @@ const Index = () => {
                         <p className="text-xs text-muted-foreground mt-1">
                           {Math.round((processingProgress.current / processingProgress.total) * 100)}% concluído
                         </p>
+                        {usage && usage.requests > 0 && (
+                          <p className="text-xs text-muted-foreground">Custo até agora: US$ {usage.costUSD.toFixed(4)}</p>
+                        )}
                       </div>
                     )}
                   </div>
@@ -137,15 +362,76 @@ const Index = () => {
                     <div className="flex items-start space-x-3">
                       <Brain className="h-6 w-6 text-primary mt-0.5" />
                       <div>
-                        <h3 className="text-lg font-semibold text-primary mb-2">Análise IA</h3>
+                        <h3 className="text-lg font-semibold text-primary mb-2">
+                          {analysisMode === 'offline' ? 'Análise offline' : 'Análise IA'}
+                          {analysisMode === 'offline' && (
+                            <Badge variant="outline" className="ml-2 font-normal">sem IA: dicionário de estabelecimentos</Badge>
+                          )}
+                        </h3>
                         <p className="text-sm leading-relaxed">{aiSummary}</p>
+                        {importInfo && <ImportSummary importInfo={importInfo} />}
+                        {ruleStats && (
+                          <div className="flex flex-wrap items-center gap-2 mt-3">
+                            <span className="text-xs text-muted-foreground">
+                              {ruleStats.classifiedByRules} classificadas por regras
+                              {memoryHits ? `, ${memoryHits} pela memória de estabelecimentos` : ''}
+                              , {ruleStats.ignored} ignoradas, {ruleStats.sentToLLM} enviadas à IA
+                            </span>
+                            <RulesManager rules={rules} onChange={handleRulesChange} ruleStats={ruleStats} />
+                          </div>
+                        )}
+                        {validation && (validation.repairs > 0 || validation.coercions.length > 0) && (
+                          <p
+                            className="text-xs text-muted-foreground mt-2"
+                            title={validation.coercions.slice(0, 10).map(c => `${c.path}: ${c.issue}`).join('\n')}
+                          >
+                            A resposta da IA precisou de {validation.repairs} pedido(s) de correção
+                            {validation.coercions.length > 0 && `; ${validation.coercions.length} campo(s) ajustado(s) automaticamente`}
+                          </p>
+                        )}
+                        {reconciliation && (reconciliation.retried > 0 || reconciliation.unclassifiable > 0 || reconciliation.duplicates > 0 || reconciliation.invented > 0) && (
+                          <p className="text-xs text-muted-foreground mt-1">
+                            Conferência de linhas: {reconciliation.classified} de {reconciliation.inputRows} classificadas pela IA
+                            {reconciliation.retried > 0 && `, ${reconciliation.retried} reenviada(s) individualmente`}
+                            {reconciliation.unclassifiable > 0 && `, ${reconciliation.unclassifiable} sem classificação da IA`}
+                            {reconciliation.failedBatches > 0 && ` (${reconciliation.failedBatches} batch(es) falharam)`}
+                            {reconciliation.duplicates + reconciliation.invented > 0 &&
+                              `; ${reconciliation.duplicates} duplicada(s) e ${reconciliation.invented} inventada(s) descartadas`}
+                          </p>
+                        )}
+                        {cacheReport && cacheReport.classification.hits + cacheReport.analysis.hits > 0 && (
+                          <p className="text-xs text-muted-foreground mt-1">
+                            Cache: {cacheReport.classification.hits} de {cacheReport.classification.hits + cacheReport.classification.misses} pedidos de classificação
+                            {cacheReport.analysis.hits > 0 && ' e a análise geral'} reaproveitados de uma análise anterior, sem custo
+                          </p>
+                        )}
+                        {redaction && Object.values(redaction).some(total => total > 0) && (
+                          <p className="text-xs text-muted-foreground mt-1">
+                            Dados pessoais mascarados antes de enviar à IA:{' '}
+                            {Object.entries(redaction)
+                              .filter(([, total]) => total > 0)
+                              .map(([tipo, total]) => `${total} ${tipo.replace('_', ' ').toLowerCase()}`)
+                              .join(', ')}
+                          </p>
+                        )}
+                        {usage && usage.requests > 0 && (
+                          <p className="text-xs text-muted-foreground mt-1">
+                            Custo estimado: US$ {usage.costUSD.toFixed(4)} ({(usage.promptTokens + usage.completionTokens).toLocaleString('pt-BR')} tokens em {usage.requests} chamada(s))
+                            {usage.unpricedModels.length > 0 && ` — sem preço para ${usage.unpricedModels.join(', ')}`}
+                            {usage.budgetExceeded && `; limite de US$ ${usage.budgetUSD?.toFixed(2)} atingido, o restante foi classificado sem IA`}
+                          </p>
+                        )}
                       </div>
                     </div>
                   </Card>
                 )}
                 
-                <Tabs defaultValue="general" className="w-full">
-                <TabsList className="grid w-full grid-cols-3 mb-8">
+                <Tabs defaultValue={reviewCount > 0 ? 'review' : 'general'} className="w-full">
+                <TabsList className="grid w-full grid-cols-4 mb-8">
+                  <TabsTrigger value="review" className="flex items-center space-x-2">
+                    <ListChecks className="h-4 w-4" />
+                    <span>Revisar ({reviewCount})</span>
+                  </TabsTrigger>
                   <TabsTrigger value="general" className="flex items-center space-x-2">
                     <Flame className="h-4 w-4" />
                     <span>Análise Geral</span>
@@ -160,16 +446,20 @@ const Index = () => {
                   </TabsTrigger>
                 </TabsList>
                 
+                <TabsContent value="review">
+                  <ReviewView transactions={transactions} onTransactionsChange={handleTransactionsChange} taxonomia={taxonomy} />
+                </TabsContent>
+                
                 <TabsContent value="general">
                   <GeneralAnalysisView analysis={generalAnalysis} />
                 </TabsContent>
                 
                 <TabsContent value="categorization">
-                  <CategorizationView transactions={transactions} />
+                  <CategorizationView transactions={transactions} onTransactionsChange={handleTransactionsChange} taxonomia={taxonomy} />
                 </TabsContent>
                 
                 <TabsContent value="insights">
-                  <InsightsView insights={insights} transactions={transactions} />
+                  <InsightsView insights={insights} transactions={transactions} taxonomia={taxonomy} />
                                   </TabsContent>
                 </Tabs>
               </>
@@ -1,4 +1,17 @@
-import { TransactionData, FinancialInsights, GeneralAnalysis } from '@/types/financial';
+import { TransactionData, FinancialInsights, GeneralAnalysis, ImportInfo, RuleStats, OutputValidationReport, CacheReport } from '@/types/financial';
+import { convertExcelToCSV, ExcelConversionOptions } from '@/utils/excel';
+import { decodeTextBuffer, TextEncodingName } from '@api/services/csv-parser';
+import type { ColumnMapping } from '@api/services/column-mapping';
+import type { StatementTypeOption } from '@api/services/statement-type';
+import type { AnalysisFile } from '@api/services/source-merge';
+import type { ClassificationRule } from '@api/services/classification-rules';
+import type { MerchantMemoryEntry, MerchantMemoryStats } from '@api/services/merchant-memory';
+import type { AnalysisMode } from '@api/services/offline-analysis';
+import type { RowReconciliation } from '@api/services/row-reconciliation';
+import type { RedactionReport } from '@api/services/pii-redaction';
+import type { UsageReport } from '@api/services/llm-usage';
+import type { PromptVersions } from '@api/services/prompt-templates';
+import type { CategoryTaxonomy } from '@api/services/category-taxonomy';
 
 // API Client for communicating with the Vercel backend
 class APIClient {
@@ -25,7 +38,7 @@ class APIClient {
   /**
    * Analyze CSV content using the backend API
    */
-  async analyzeCSV(csvContent: string, progressCallback?: ProgressCallback): Promise<CSVAnalysisResult> {
+  async analyzeCSV(csvContent: string, progressCallback?: ProgressCallback, options: AnalysisOptions = {}): Promise<CSVAnalysisResult> {
     console.log('📡 Sending CSV to backend for analysis...');
     
     const response = await fetch(`${this.baseURL}/analyze`, {
@@ -34,7 +47,8 @@ class APIClient {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
-        csvContent: csvContent
+        csvContent: csvContent,
+        ...options
       })
     });
 
@@ -57,9 +71,23 @@ class APIClient {
   /**
    * Analyze CSV content with real-time progress using Server-Sent Events
    */
-  async analyzeCSVWithProgress(csvContent: string, progressCallback?: ProgressCallback): Promise<CSVAnalysisResult> {
+  async analyzeCSVWithProgress(csvContent: string, progressCallback?: ProgressCallback, options: AnalysisOptions = {}): Promise<CSVAnalysisResult> {
     console.log('📡 Starting CSV analysis with progress streaming...');
-    
+    return this.streamAnalysis({ csvContent, ...options }, progressCallback);
+  }
+
+  /**
+   * Analyze several files as one merged statement, with real-time progress
+   */
+  async analyzeFilesWithProgress(files: AnalysisFile[], progressCallback?: ProgressCallback, options: SharedAnalysisOptions = {}): Promise<CSVAnalysisResult> {
+    console.log(`📡 Starting analysis of ${files.length} files with progress streaming...`);
+    return this.streamAnalysis({ files, ...options }, progressCallback);
+  }
+
+  /**
+   * Post a request body to the streaming endpoint and follow its Server-Sent Events
+   */
+  private streamAnalysis(body: object, progressCallback?: ProgressCallback): Promise<CSVAnalysisResult> {
     return new Promise(async (resolve, reject) => {
       try {
         // Start the streaming request
@@ -69,9 +97,7 @@ class APIClient {
             'Content-Type': 'application/json',
             'Accept': 'text/event-stream',
           },
-          body: JSON.stringify({
-            csvContent: csvContent
-          })
+          body: JSON.stringify(body)
         });
 
         if (!response.ok) {
@@ -117,7 +143,13 @@ class APIClient {
                   progressCallback?.onBatchStart?.(data.current, data.total);
                 } else if (data.current && data.total && data.batchTransactions !== undefined) {
                   console.log(`✅ Batch ${data.current}/${data.total} completed`);
-                  progressCallback?.onBatchComplete?.(data.current, data.total, []);
+                  progressCallback?.onBatchComplete?.(data.current, data.total, [], data.usage);
+                } else if (data.current && data.total && data.error) {
+                  console.warn(`⚠️ Batch ${data.current}/${data.total} failed:`, data.error);
+                  progressCallback?.onBatchFailed?.(data.current, data.total, data.error);
+                } else if (data.classification && data.analysis) {
+                  console.log('🗄️', data.message);
+                  progressCallback?.onCacheStats?.({ classification: data.classification, analysis: data.analysis });
                 } else if (data.success === true && data.data) {
                   console.log('✅ Analysis completed successfully');
                   resolve(data.data);
@@ -147,60 +179,125 @@ export interface CSVAnalysisResult {
   insights: FinancialInsights;
   generalAnalysis: GeneralAnalysis;
   summary: string;
+  importInfo?: ImportInfo;
+  ruleStats?: RuleStats;
+  merchantMemory?: MerchantMemoryStats;
+  analysisMode?: 'llm' | 'offline';
+  validation?: OutputValidationReport; // Present when the LLM was used
+  reconciliation?: RowReconciliation; // Rows sent to the LLM vs rows it returned
+  cache?: CacheReport; // Responses reused from the server cache
+  redaction?: RedactionReport; // Personal data masked before anything was sent to the LLM
+  usage?: UsageReport; // Tokens and estimated cost of the LLM calls
+  promptVersions?: PromptVersions; // Prompt template versions the LLM was given
+}
+
+// Options sent to the backend alongside the content
+export interface AnalysisOptions {
+  columnMapping?: ColumnMapping; // Mapping confirmed in the preview step
+  statementType?: StatementTypeOption; // Cartão, conta corrente or 'auto'
+  rules?: ClassificationRule[]; // User rules applied before the LLM
+  merchantMemory?: MerchantMemoryEntry[]; // Merchants already classified in earlier analyses
+  mode?: AnalysisMode; // 'offline' classifies with the merchant dictionary, without the LLM
+  budgetUSD?: number; // The backend stops calling the LLM once this much is spent
+  promptVersions?: Partial<PromptVersions>; // Prompt versions to try instead of the server's
+  taxonomy?: CategoryTaxonomy; // User's categories; every classification is mapped onto them
 }
 
+// Options that apply to every file of a multi-file analysis
+export type SharedAnalysisOptions = Pick<AnalysisOptions, 'rules' | 'merchantMemory' | 'mode' | 'budgetUSD' | 'promptVersions' | 'taxonomy'>;
+
 // Progress callback interface (for future use with streaming/websockets)
 export interface ProgressCallback {
   onBatchStart?: (batchNumber: number, totalBatches: number) => void;
-  onBatchComplete?: (batchNumber: number, totalBatches: number, batchResult: TransactionData[]) => void;
+  onBatchComplete?: (batchNumber: number, totalBatches: number, batchResult: TransactionData[], usage?: UsageReport) => void;
+  onBatchFailed?: (batchNumber: number, totalBatches: number, error: string) => void;
+  onCacheStats?: (cache: CacheReport) => void;
+}
+
+// File content plus what was detected while reading it (shown in the preview step)
+export interface LoadedFile {
+  content: string;
+  format: 'csv' | 'excel' | 'ofx';
+  encoding?: TextEncodingName;
+  sheetName?: string;
+  sheets?: string[];
 }
 
 // File handling utilities
 export class FileHandler {
   /**
-   * Read CSV file content as text
+   * Read the raw bytes of a file
    */
-  static readCSVFile(file: File): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      
-      reader.onload = (e) => {
-        const content = e.target?.result as string;
-        resolve(content);
-      };
-      
-      reader.onerror = () => {
-        reject(new Error('Erro ao ler o arquivo'));
-      };
-      
-      reader.readAsText(file, 'UTF-8');
-    });
+  private static async readBuffer(file: File): Promise<ArrayBuffer> {
+    try {
+      return await file.arrayBuffer();
+    } catch {
+      throw new Error('Erro ao ler o arquivo');
+    }
+  }
+
+  /**
+   * Read CSV file content as text, detecting UTF-8/UTF-16/Windows-1252 encoding
+   */
+  static async readCSVFile(file: File): Promise<string> {
+    const { text, encoding } = decodeTextBuffer(await this.readBuffer(file));
+    console.log(`📄 CSV decoded as ${encoding}`);
+    return text;
+  }
+
+  /**
+   * Read Excel file (.xlsx/.xls) and convert the transactions sheet to CSV
+   */
+  static async readExcelFile(file: File, options?: ExcelConversionOptions): Promise<string> {
+    const result = convertExcelToCSV(await this.readBuffer(file), options);
+    console.log(`📗 Excel sheet "${result.sheetName}" converted (header at row ${result.headerRow + 1})`);
+    return result.csv;
   }
 
   /**
    * Validate if file is supported format
    */
   static validateFileFormat(file: File): boolean {
-    const validExtensions = ['.csv', '.xlsx', '.xls'];
+    const validExtensions = ['.csv', '.xlsx', '.xls', '.ofx', '.qfx'];
     const fileName = file.name.toLowerCase();
     return validExtensions.some(ext => fileName.endsWith(ext));
   }
 
   /**
-   * Get file content based on file type
+   * Load a file with the metadata detected while reading it (encoding, sheets)
    */
-  static async getFileContent(file: File): Promise<string> {
+  static async loadFile(file: File, options?: ExcelConversionOptions): Promise<LoadedFile> {
     if (!this.validateFileFormat(file)) {
-      throw new Error('Formato de arquivo não suportado. Use .csv, .xlsx ou .xls');
+      throw new Error('Formato de arquivo não suportado. Use .csv, .xlsx, .xls, .ofx ou .qfx');
     }
 
-    if (file.name.toLowerCase().endsWith('.csv')) {
-      return this.readCSVFile(file);
-    } else {
-      // For Excel files, we'll need to convert to CSV first
-      // For now, let's focus on CSV support
-      throw new Error('Suporte para arquivos Excel será adicionado em breve. Por favor, use arquivos CSV.');
+    const fileName = file.name.toLowerCase();
+
+    // OFX/QFX are text documents parsed by the backend, so they are decoded like CSV
+    if (fileName.endsWith('.csv') || fileName.endsWith('.ofx') || fileName.endsWith('.qfx')) {
+      const { text, encoding } = decodeTextBuffer(await this.readBuffer(file));
+      return {
+        content: text,
+        format: fileName.endsWith('.csv') ? 'csv' : 'ofx',
+        encoding,
+      };
     }
+
+    const result = convertExcelToCSV(await this.readBuffer(file), options);
+    return {
+      content: result.csv,
+      format: 'excel',
+      sheetName: result.sheetName,
+      sheets: result.sheets.map(sheet => sheet.nome),
+    };
+  }
+
+  /**
+   * Get file content based on file type
+   */
+  static async getFileContent(file: File, options?: ExcelConversionOptions): Promise<string> {
+    const loaded = await this.loadFile(file, options);
+    return loaded.content;
   }
 }
 
@@ -209,10 +306,20 @@ export const apiClient = new APIClient();
 
 // Export convenience functions to match the old API
 export const getFileContent = FileHandler.getFileContent.bind(FileHandler);
+export const loadFile = FileHandler.loadFile.bind(FileHandler);
 
 export const analyzeCSVWithAI = async (
   csvContent: string, 
-  progressCallback?: ProgressCallback
+  progressCallback?: ProgressCallback,
+  options?: AnalysisOptions
+): Promise<CSVAnalysisResult> => {
+  return apiClient.analyzeCSVWithProgress(csvContent, progressCallback, options);
+};
+
+export const analyzeFilesWithAI = async (
+  files: AnalysisFile[],
+  progressCallback?: ProgressCallback,
+  options?: SharedAnalysisOptions
 ): Promise<CSVAnalysisResult> => {
-  return apiClient.analyzeCSVWithProgress(csvContent, progressCallback);
+  return apiClient.analyzeFilesWithProgress(files, progressCallback, options);
 };
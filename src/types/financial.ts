@@ -7,6 +7,18 @@ export interface TransactionData {
   empresa: string;
   descricao: string;
   data: string; // Formato YYYY-MM-DD
+  externalId?: string; // Id estável do arquivo de origem (ex: FITID do OFX)
+  origem?: string; // Arquivo de origem, quando vários arquivos são analisados juntos
+  merchantKey?: string; // Chave do estabelecimento na memória (vem do arquivo, não da IA)
+  parcela?: {
+    atual: number; // Parcela cobrada neste extrato
+    total: number;
+    valorOriginalCentavos: number; // Valor da compra (parcela × total)
+  };
+  confianca?: number; // 0 a 1: o quanto a classificação é confiável
+  motivo?: string; // Por que a transação caiu nessa categoria
+  classificadoPor?: 'regra' | 'memoria' | 'ia' | 'dicionario' | 'usuario'; // Quem classificou
+  conflito?: string; // Categoria sugerida por uma regra ou pelo dicionário, quando diverge da escolhida
 }
 
 // Backward compatibility - remover depois que todos os componentes forem atualizados
@@ -94,11 +106,73 @@ export interface GeneralAnalysis {
   com_isso_voce_podia: string[];
 }
 
+// Transação descartada por aparecer em mais de um arquivo (ou repetida dentro do mesmo OFX)
+export interface DuplicateTransaction {
+  origem: string; // Arquivo da cópia descartada ('' quando um único arquivo foi enviado)
+  duplicateOf: string; // Arquivo da cópia mantida (igual a origem quando repetida no mesmo arquivo)
+  reason: 'externalId' | 'same-transaction';
+  tipo: 'Entrada' | 'Saída';
+  data: string;
+  valorCentavos: number;
+  descricao: string;
+}
+
+// Como o arquivo enviado foi lido pelo backend
+export interface ImportInfo {
+  format: 'csv' | 'ofx' | 'multi';
+  delimiter?: string;
+  statementType?: 'cartao' | 'conta';
+  statementTypeSource?: 'user' | 'preset' | 'ofx' | 'detected';
+  statementTypeReason?: string;
+  preset?: {
+    id: string;
+    name: string;
+  };
+  columns?: {
+    header: string;
+    role: 'data' | 'valor' | 'debito' | 'credito' | 'descricao' | 'estabelecimento' | 'ignorar';
+  }[];
+  skippedRows?: number;
+  files?: (ImportInfo & { name: string; transactionCount: number })[]; // Detalhes por arquivo quando vários foram combinados
+  duplicates?: DuplicateTransaction[];
+}
+
+// Resultado das regras do usuário aplicadas antes da IA
+export interface RuleStats {
+  classifiedByRules: number;
+  ignored: number;
+  sentToLLM: number;
+  hits: {
+    ruleId: string;
+    name: string;
+    hits: number;
+  }[];
+}
+
+// Campos da resposta da IA que precisaram ser corrigidos automaticamente
+export interface OutputValidationReport {
+  repairs: number; // Pedidos de correção enviados à IA
+  coercions: {
+    stage: 'classification' | 'analysis';
+    batch?: number;
+    path: string; // "transactions.3.tipo"
+    issue: string;
+  }[];
+}
+
+// Respostas da IA reaproveitadas do cache do servidor, por etapa
+export interface CacheReport {
+  classification: { hits: number; misses: number };
+  analysis: { hits: number; misses: number };
+}
+
 export interface CSVAnalysisResult {
   transactions: TransactionData[];
   insights: FinancialInsights;
   generalAnalysis: GeneralAnalysis;
   summary: string;
+  importInfo?: ImportInfo;
+  ruleStats?: RuleStats;
 }
 
 // Raw data from Excel/CSV (flexible field names)
@@ -4,12 +4,14 @@
 
 import { TransactionData, FinancialInsights, CategoryData, Recommendation } from '@/types/financial';
 import { formatarValorBrasileiro } from './parse';
+import { CategoryTaxonomy, categoryDetails } from '@api/services/category-taxonomy';
 
 /**
  * Interface para agregações por categoria (com hierarquia)
  */
 export interface CategoryAggregate {
-  categoria: string;
+  categoria: string; // Chave: o path unido por " > "
+  nome: string; // Nome de exibição (ex: "Alimentação > Supermercado")
   categoriaPath: string[];
   totalCentavos: number;
   tipo: 'entrada' | 'saida';
@@ -97,6 +99,7 @@ const aggregateByCategory = (
   totalSaidas: number
 ): CategoryAggregate[] => {
   const categoryMap = new Map<string, {
+    nome: string;
     entrada: number;
     saida: number;
     categoriaPath: string[];
@@ -106,11 +109,14 @@ const aggregateByCategory = (
   // Agregar por todos os níveis da hierarquia - COM SINAIS CORRETOS
   transactions.forEach(transaction => {
     const path = transaction.categoriaPath;
+    // Nomes de exibição de cada nível, quando batem com o path (ids da taxonomia)
+    const nomes = transaction.categoria.split(/[>/:]/).map(nome => nome.trim()).filter(Boolean);
     
     // Para cada nível da hierarquia, criar uma entrada
     for (let i = 0; i < path.length; i++) {
       const categoryKey = path.slice(0, i + 1).join(' > ');
       const existing = categoryMap.get(categoryKey) || {
+        nome: nomes.length === path.length ? nomes.slice(0, i + 1).join(' > ') : categoryKey,
         entrada: 0,
         saida: 0,
         categoriaPath: path.slice(0, i + 1),
@@ -137,6 +143,7 @@ const aggregateByCategory = (
     if (values.entrada > 0) {
       result.push({
         categoria: categoryKey,
+        nome: values.nome,
         categoriaPath: values.categoriaPath,
         totalCentavos: values.entrada,
         tipo: 'entrada',
@@ -149,6 +156,7 @@ const aggregateByCategory = (
     if (values.saida > 0) {
       result.push({
         categoria: categoryKey,
+        nome: values.nome,
         categoriaPath: values.categoriaPath,
         totalCentavos: values.saida,
         tipo: 'saida',
@@ -197,6 +205,154 @@ const aggregateByMonth = (transactions: TransactionData[]): MonthlyAggregate[] =
     .sort((a, b) => a.mes.localeCompare(b.mes));
 };
 
+/**
+ * Parcela futura de uma compra parcelada
+ */
+export interface InstallmentCommitmentItem {
+  empresa: string;
+  descricao: string;
+  numero: number; // Qual parcela vence no mês
+  total: number;
+  valorCentavos: number;
+}
+
+/**
+ * Valor já comprometido em um mês futuro
+ */
+export interface InstallmentCommitment {
+  mes: string; // YYYY-MM
+  totalCentavos: number;
+  parcelas: InstallmentCommitmentItem[];
+}
+
+/**
+ * Projeção das parcelas que ainda vão vencer
+ */
+export interface InstallmentProjection {
+  mesReferencia: string; // Último mês presente no extrato (YYYY-MM)
+  comprasParceladas: number; // Compras com parcelas restantes
+  totalComprometidoCentavos: number;
+  meses: InstallmentCommitment[];
+}
+
+/**
+ * Soma meses a um YYYY-MM
+ */
+const addMonths = (mes: string, quantidade: number): string => {
+  const [ano, mesNumero] = mes.split('-').map(Number);
+  const indice = ano * 12 + (mesNumero - 1) + quantidade;
+  return `${Math.floor(indice / 12)}-${String((indice % 12) + 1).padStart(2, '0')}`;
+};
+
+/**
+ * Projeta quanto já está comprometido em cada mês seguinte com compras parceladas.
+ * Cada parcela é considerada paga no mês da própria transação; as restantes caem uma por
+ * mês a partir do mês seguinte a ela. Quando a mesma compra aparece em mais de um extrato
+ * (ex: 3/10 em janeiro e 4/10 em fevereiro), vale a parcela mais recente.
+ *
+ * A mesma compra é reconhecida pelo estabelecimento, valor da parcela, número de parcelas
+ * e mês da primeira parcela. Parcelas com o mesmo número nesse grupo são compras distintas
+ * (duas compras iguais na mesma loja e no mesmo mês). Continua ambíguo quando um extrato
+ * traz só uma de duas compras idênticas: conta-se o maior número de cópias vistas num
+ * mesmo número de parcela.
+ */
+export const projectInstallmentCommitments = (transactions: TransactionData[]): InstallmentProjection => {
+  const mesReferencia = transactions.reduce(
+    (maior, t) => (t.data.substring(0, 7) > maior ? t.data.substring(0, 7) : maior),
+    ''
+  ) || new Date().toISOString().substring(0, 7);
+
+  const parceladas = transactions.flatMap(transaction =>
+    transaction.tipo === 'Saída' && transaction.parcela && transaction.parcela.atual < transaction.parcela.total
+      ? [{ transaction, parcela: transaction.parcela, mes: transaction.data.substring(0, 7) || mesReferencia }]
+      : []
+  );
+
+  // Agrupa as aparições de cada compra; dentro do grupo, uma lista por número de parcela
+  const grupos = new Map<string, Map<number, (typeof parceladas)[number][]>>();
+  parceladas.forEach(compra => {
+    const { transaction, parcela, mes } = compra;
+    const primeiroMes = addMonths(mes, 1 - parcela.atual);
+    const chave = `${transaction.empresa.toLowerCase()}|${transaction.valorCentavos}|${parcela.total}|${primeiroMes}`;
+    const porParcela = grupos.get(chave) || new Map<number, (typeof parceladas)[number][]>();
+    porParcela.set(parcela.atual, [...(porParcela.get(parcela.atual) || []), compra]);
+    grupos.set(chave, porParcela);
+  });
+
+  // Uma entrada por compra, com a aparição mais recente de cada uma
+  const compras: (typeof parceladas)[number][] = [];
+  grupos.forEach(porParcela => {
+    const quantidade = Math.max(...Array.from(porParcela.values()).map(aparicoes => aparicoes.length));
+    const escolhidas = Array.from(porParcela.entries())
+      .sort(([a], [b]) => b - a)
+      .flatMap(([, aparicoes]) => aparicoes)
+      .slice(0, quantidade);
+    compras.push(...escolhidas);
+  });
+
+  const mesesMap = new Map<string, InstallmentCommitment>();
+  compras.forEach(({ transaction, parcela, mes: mesDaParcela }) => {
+    const { atual, total } = parcela;
+    for (let numero = atual + 1; numero <= total; numero++) {
+      const mes = addMonths(mesDaParcela, numero - atual);
+      const existente = mesesMap.get(mes) || { mes, totalCentavos: 0, parcelas: [] };
+      existente.totalCentavos += transaction.valorCentavos;
+      existente.parcelas.push({
+        empresa: transaction.empresa,
+        descricao: transaction.descricao,
+        numero,
+        total,
+        valorCentavos: transaction.valorCentavos,
+      });
+      mesesMap.set(mes, existente);
+    }
+  });
+
+  const meses = Array.from(mesesMap.values()).sort((a, b) => a.mes.localeCompare(b.mes));
+
+  return {
+    mesReferencia,
+    comprasParceladas: compras.length,
+    totalComprometidoCentavos: meses.reduce((sum, mes) => sum + mes.totalCentavos, 0),
+    meses,
+  };
+};
+
+/**
+ * Gastos essenciais x supérfluos, pela marcação de cada categoria na taxonomia
+ */
+export interface EssentialSpending {
+  essenciaisCentavos: number;
+  superfluosCentavos: number;
+  percentualEssencial: number; // 0–100 dos gastos
+}
+
+/**
+ * Separa as saídas em essenciais e supérfluas. Categorias fora da taxonomia contam
+ * como supérfluas.
+ */
+export const splitEssentialSpending = (transactions: TransactionData[], taxonomia: CategoryTaxonomy): EssentialSpending => {
+  let essenciaisCentavos = 0;
+  let superfluosCentavos = 0;
+
+  transactions
+    .filter(transaction => transaction.tipo === 'Saída')
+    .forEach(transaction => {
+      if (categoryDetails(taxonomia, transaction.categoriaPath).essencial) {
+        essenciaisCentavos += transaction.valorCentavos;
+      } else {
+        superfluosCentavos += transaction.valorCentavos;
+      }
+    });
+
+  const total = essenciaisCentavos + superfluosCentavos;
+  return {
+    essenciaisCentavos,
+    superfluosCentavos,
+    percentualEssencial: total > 0 ? Math.round((essenciaisCentavos / total) * 1000) / 10 : 0,
+  };
+};
+
 /**
  * Converte agregações para formato de insights compatível com componentes
  */
@@ -217,7 +373,7 @@ export const generateFinancialInsights = (aggregation: AggregationResult): Finan
     ...categoriasSeparadas.saidas, // Saídas primeiro (mais importantes)
     ...categoriasSeparadas.entradas // Depois entradas
   ].map(cat => ({
-    nome: cat.categoria,
+    nome: cat.nome,
     valor: cat.totalCentavos / 100, // Converter para reais
     tipo: cat.tipo,
     percentual: Math.round(cat.percentual * 10) / 10, // 1 casa decimal
@@ -247,8 +403,8 @@ const generateRecommendations = (aggregation: AggregationResult): Recommendation
     if (maiorGasto.percentual > 40) {
       recomendacoes.push({
         tipo: 'otimizacao',
-        titulo: `Gastos Elevados em ${maiorGasto.categoria}`,
-        descricao: `Seus gastos com ${maiorGasto.categoria.toLowerCase()} representam ${maiorGasto.percentual.toFixed(1)}% do total. Considere revisar estes gastos.`,
+        titulo: `Gastos Elevados em ${maiorGasto.nome}`,
+        descricao: `Seus gastos com ${maiorGasto.nome.toLowerCase()} representam ${maiorGasto.percentual.toFixed(1)}% do total. Considere revisar estes gastos.`,
         impacto: `Economia potencial: ${formatarValorBrasileiro(Math.round(maiorGasto.totalCentavos * 0.15))}/mês`,
       });
     }
@@ -0,0 +1,107 @@
+/**
+ * Correções manuais de transações já classificadas (sem chamar a API de novo)
+ */
+
+import { normalizeMerchant } from '@api/services/merchant-memory';
+import { CategoryTaxonomy, resolveCategory } from '@api/services/category-taxonomy';
+import { TransactionData } from '@/types/financial';
+import { parseCategoriaPath } from './parse';
+
+/**
+ * Campos que o usuário pode corrigir
+ */
+export type CorrecaoTransacao = Partial<Pick<TransactionData, 'categoria' | 'tipo' | 'empresa' | 'descricao'>>;
+
+/**
+ * Resultado de uma correção: lista completa atualizada e as transações alteradas
+ */
+export interface ResultadoCorrecao {
+  transactions: TransactionData[];
+  alteradas: TransactionData[];
+}
+
+// O que o usuário confirma ou corrige deixa de precisar de revisão
+const CORRIGIDA = { confianca: 1, motivo: 'Corrigido por você', classificadoPor: 'usuario' } as const;
+const CONFIRMADA = { confianca: 1, motivo: 'Confirmado por você', classificadoPor: 'usuario' } as const;
+
+/**
+ * Chave do estabelecimento de uma transação: a da memória de estabelecimentos quando
+ * o backend a enviou, senão a empresa (ou descrição) normalizada
+ */
+export const chaveEstabelecimento = (transaction: Pick<TransactionData, 'empresa' | 'descricao' | 'merchantKey'>): string =>
+  transaction.merchantKey || normalizeMerchant(transaction.empresa) || normalizeMerchant(transaction.descricao);
+
+/**
+ * Transações do mesmo estabelecimento da transação informada (incluindo ela)
+ */
+export const transacoesDoEstabelecimento = (
+  transactions: TransactionData[],
+  transaction: TransactionData
+): TransactionData[] => {
+  const chave = chaveEstabelecimento(transaction);
+  return chave ? transactions.filter(t => chaveEstabelecimento(t) === chave) : [transaction];
+};
+
+/**
+ * Aplica a correção a uma transação ou, com aplicarAoEstabelecimento, a todas do mesmo
+ * estabelecimento. A descrição é própria de cada transação e só muda na transação editada.
+ * Com a taxonomia, a categoria digitada vira a categoria canônica correspondente.
+ */
+export const aplicarCorrecao = (
+  transactions: TransactionData[],
+  id: number,
+  correcao: CorrecaoTransacao,
+  aplicarAoEstabelecimento = false,
+  taxonomia?: CategoryTaxonomy
+): ResultadoCorrecao => {
+  const original = transactions.find(t => t.id === id);
+  if (!original) {
+    return { transactions, alteradas: [] };
+  }
+
+  const alvos = new Set(
+    (aplicarAoEstabelecimento ? transacoesDoEstabelecimento(transactions, original) : [original]).map(t => t.id)
+  );
+  const { descricao, ...compartilhada } = correcao;
+  const alteradas: TransactionData[] = [];
+
+  const atualizadas = transactions.map(transaction => {
+    if (!alvos.has(transaction.id)) return transaction;
+
+    const digitada = compartilhada.categoria?.trim() || transaction.categoria;
+    const categoria = taxonomia ? resolveCategory(taxonomia, digitada).categoria : digitada;
+    const { conflito: _, ...semConflito } = transaction;
+    const atualizada: TransactionData = {
+      ...semConflito,
+      ...compartilhada,
+      categoria,
+      categoriaPath: parseCategoriaPath(digitada, taxonomia),
+      empresa: compartilhada.empresa?.trim() ?? transaction.empresa,
+      ...(transaction.id === id && descricao !== undefined ? { descricao: descricao.trim() } : {}),
+      ...CORRIGIDA,
+    };
+    alteradas.push(atualizada);
+    return atualizada;
+  });
+
+  return { transactions: atualizadas, alteradas };
+};
+
+/**
+ * Confirma a classificação das transações informadas como está, sem mudar a categoria
+ */
+export const confirmarClassificacao = (transactions: TransactionData[], ids: number[]): ResultadoCorrecao => {
+  const alvos = new Set(ids);
+  const alteradas: TransactionData[] = [];
+
+  const atualizadas = transactions.map(transaction => {
+    if (!alvos.has(transaction.id)) return transaction;
+
+    const { conflito: _, ...semConflito } = transaction;
+    const atualizada: TransactionData = { ...semConflito, ...CONFIRMADA };
+    alteradas.push(atualizada);
+    return atualizada;
+  });
+
+  return { transactions: atualizadas, alteradas };
+};
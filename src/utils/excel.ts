@@ -0,0 +1,223 @@
+/**
+ * Utilitários para importação de planilhas Excel (.xlsx/.xls)
+ *
+ * Converte a planilha de transações para o mesmo CSV que o analisador consome,
+ * escolhendo a aba certa quando o extrato tem capa/resumo em outras abas.
+ */
+
+import * as XLSX from 'xlsx';
+
+/**
+ * Informações de cada aba da planilha
+ */
+export interface ExcelSheetInfo {
+  nome: string;
+  linhas: number;
+  pontuacao: number; // Quantas linhas parecem transações (data + valor)
+}
+
+/**
+ * Opções de conversão
+ */
+export interface ExcelConversionOptions {
+  sheetName?: string; // Força uma aba específica; sem isso, detecta automaticamente
+}
+
+/**
+ * Resultado da conversão de uma planilha para CSV
+ */
+export interface ExcelConversionResult {
+  csv: string;
+  sheetName: string;
+  headerRow: number; // Índice (0-based) da linha de cabeçalho na aba
+  sheets: ExcelSheetInfo[];
+}
+
+const DATE_LIKE = /^(\d{4}-\d{2}-\d{2}|\d{1,2}\/\d{1,2}\/\d{2,4})$/;
+const NUMBER_LIKE = /^[-(]?\s*(R\$)?\s*-?[\d.,]+\)?$/;
+const HEADER_SCAN_LIMIT = 20;
+
+/**
+ * Converte serial de data do Excel para YYYY-MM-DD
+ */
+const excelSerialToISO = (serial: number): string => {
+  const parsed = XLSX.SSF.parse_date_code(serial);
+  if (!parsed) return '';
+  return `${parsed.y}-${String(parsed.m).padStart(2, '0')}-${String(parsed.d).padStart(2, '0')}`;
+};
+
+/**
+ * Converte uma célula para texto no formato que o analisador entende
+ * - Datas (serial ou Date) → YYYY-MM-DD
+ * - Números → ponto decimal, no máximo 2 casas
+ */
+const cellToText = (cell: XLSX.CellObject | undefined): string => {
+  if (!cell || cell.v === undefined || cell.v === null) return '';
+
+  switch (cell.t) {
+    case 'n': {
+      const valor = cell.v as number;
+      if (cell.z && XLSX.SSF.is_date(cell.z)) {
+        return excelSerialToISO(valor);
+      }
+      return Number.isInteger(valor) ? String(valor) : String(Math.round(valor * 100) / 100);
+    }
+    case 'd': {
+      const data = cell.v as Date;
+      return `${data.getFullYear()}-${String(data.getMonth() + 1).padStart(2, '0')}-${String(data.getDate()).padStart(2, '0')}`;
+    }
+    case 'b':
+      return cell.v ? 'true' : 'false';
+    case 'e':
+      return '';
+    default:
+      return String(cell.v).replace(/\s+/g, ' ').trim();
+  }
+};
+
+/**
+ * Lê a aba como matriz de texto, repetindo o valor de células mescladas
+ * em todas as posições da mesclagem
+ */
+const sheetToMatrix = (sheet: XLSX.WorkSheet): string[][] => {
+  if (!sheet['!ref']) return [];
+
+  const range = XLSX.utils.decode_range(sheet['!ref']);
+  const matrix: string[][] = [];
+
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    const row: string[] = [];
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      row.push(cellToText(sheet[XLSX.utils.encode_cell({ r, c })]));
+    }
+    matrix.push(row);
+  }
+
+  (sheet['!merges'] || []).forEach(merge => {
+    const valor = matrix[merge.s.r - range.s.r]?.[merge.s.c - range.s.c] ?? '';
+    for (let r = merge.s.r; r <= merge.e.r; r++) {
+      for (let c = merge.s.c; c <= merge.e.c; c++) {
+        const row = matrix[r - range.s.r];
+        if (row) row[c - range.s.c] = valor;
+      }
+    }
+  });
+
+  return matrix;
+};
+
+const isDataRow = (row: string[]): boolean => {
+  const temData = row.some(cell => DATE_LIKE.test(cell));
+  const temValor = row.some(cell => !DATE_LIKE.test(cell) && NUMBER_LIKE.test(cell));
+  return temData && temValor;
+};
+
+const isHeaderCandidate = (row: string[]): boolean => {
+  const preenchidas = row.filter(cell => cell !== '');
+  return preenchidas.length >= 2 && preenchidas.every(cell => !DATE_LIKE.test(cell) && !NUMBER_LIKE.test(cell));
+};
+
+/**
+ * Encontra a linha de cabeçalho: a última linha só de texto antes da primeira linha de dados
+ */
+const findHeaderRow = (matrix: string[][]): number => {
+  const limite = Math.min(matrix.length, HEADER_SCAN_LIMIT);
+  let header = -1;
+
+  for (let i = 0; i < limite; i++) {
+    if (isDataRow(matrix[i])) break;
+    if (isHeaderCandidate(matrix[i])) header = i;
+  }
+
+  return header === -1 ? matrix.findIndex(row => row.some(cell => cell !== '')) : header;
+};
+
+/**
+ * Cabeçalhos em duas linhas (ex: "Valor" mesclado sobre "Débito | Crédito")
+ * viram "Valor Débito" e "Valor Crédito"
+ */
+const buildHeaders = (sheet: XLSX.WorkSheet, matrix: string[][], headerRow: number): string[] => {
+  const range = XLSX.utils.decode_range(sheet['!ref'] as string);
+  const headers = [...matrix[headerRow]];
+  const linhaGrupo = headerRow + range.s.r - 1;
+
+  (sheet['!merges'] || [])
+    .filter(merge => merge.s.r === linhaGrupo && merge.e.r === linhaGrupo && merge.e.c > merge.s.c)
+    .forEach(merge => {
+      const grupo = matrix[headerRow - 1][merge.s.c - range.s.c];
+      for (let c = merge.s.c; c <= merge.e.c; c++) {
+        const idx = c - range.s.c;
+        if (grupo && headers[idx] && headers[idx] !== grupo) {
+          headers[idx] = `${grupo} ${headers[idx]}`;
+        }
+      }
+    });
+
+  return headers;
+};
+
+/**
+ * Escapa um campo CSV (RFC 4180)
+ */
+const toCSVField = (valor: string): string =>
+  /[",\r\n]/.test(valor) ? `"${valor.replace(/"/g, '""')}"` : valor;
+
+/**
+ * Lista as abas com a pontuação usada na detecção automática
+ */
+export const listExcelSheets = (workbook: XLSX.WorkBook): ExcelSheetInfo[] =>
+  workbook.SheetNames.map(nome => {
+    const matrix = sheetToMatrix(workbook.Sheets[nome]);
+    return {
+      nome,
+      linhas: matrix.length,
+      pontuacao: matrix.filter(isDataRow).length,
+    };
+  });
+
+/**
+ * Converte o conteúdo binário de um arquivo Excel para CSV
+ */
+export const convertExcelToCSV = (
+  data: ArrayBuffer,
+  options: ExcelConversionOptions = {}
+): ExcelConversionResult => {
+  const workbook = XLSX.read(data, { type: 'array', cellNF: true });
+  const sheets = listExcelSheets(workbook);
+
+  if (sheets.length === 0) {
+    throw new Error('A planilha não contém nenhuma aba');
+  }
+
+  let sheetName = options.sheetName;
+  if (sheetName && !workbook.Sheets[sheetName]) {
+    throw new Error(`Aba "${sheetName}" não encontrada na planilha`);
+  }
+  if (!sheetName) {
+    sheetName = [...sheets].sort((a, b) => b.pontuacao - a.pontuacao)[0].nome;
+  }
+
+  const sheet = workbook.Sheets[sheetName];
+  const matrix = sheetToMatrix(sheet);
+  const headerRow = findHeaderRow(matrix);
+
+  if (headerRow === -1) {
+    throw new Error(`A aba "${sheetName}" está vazia`);
+  }
+
+  const headers = buildHeaders(sheet, matrix, headerRow);
+  const dataRows = matrix
+    .slice(headerRow + 1)
+    .filter(row => row.some(cell => cell !== ''));
+
+  // Remove colunas sem cabeçalho e sem dados
+  const colunasUsadas = headers
+    .map((_, idx) => idx)
+    .filter(idx => headers[idx] !== '' || dataRows.some(row => row[idx] !== ''));
+
+  const csv = [headers, ...dataRows]
+    .map(row => colunasUsadas.map(idx => toCSVField(row[idx] ?? '')).join(','))
+    .join('\n');
+
+  return { csv, sheetName, headerRow, sheets };
+};
@@ -0,0 +1,58 @@
+/**
+ * Memória de estabelecimentos: guarda no navegador a última classificação confirmada
+ * de cada estabelecimento, enviada a cada análise para evitar reclassificação pela IA
+ */
+
+import { MerchantMemoryEntry, mergeMerchantMemory, parseMerchantMemoryInput } from '@api/services/merchant-memory';
+import { TransactionData } from '@/types/financial';
+import { chaveEstabelecimento } from './corrections';
+
+const STORAGE_KEY = 'analise-centavos:memoria-estabelecimentos';
+
+/**
+ * Carrega a memória salva (vazia na primeira vez ou se estiver corrompida)
+ */
+export const carregarMemoria = (): MerchantMemoryEntry[] => {
+  try {
+    const salvo = localStorage.getItem(STORAGE_KEY);
+    return salvo ? parseMerchantMemoryInput(JSON.parse(salvo)) : [];
+  } catch (error) {
+    console.warn('⚠️ Memória de estabelecimentos inválida, começando do zero:', error);
+    return [];
+  }
+};
+
+/**
+ * Salva a memória no navegador
+ */
+export const salvarMemoria = (memoria: MerchantMemoryEntry[]): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(memoria));
+};
+
+/**
+ * Incorpora o que a IA aprendeu numa análise (sem sobrescrever correções do usuário)
+ */
+export const aprenderComAnalise = (
+  memoria: MerchantMemoryEntry[],
+  aprendidos: MerchantMemoryEntry[]
+): MerchantMemoryEntry[] => mergeMerchantMemory(memoria, aprendidos);
+
+/**
+ * Registra a correção do usuário para o estabelecimento da transação
+ */
+export const registrarCorrecao = (
+  memoria: MerchantMemoryEntry[],
+  transaction: Pick<TransactionData, 'empresa' | 'descricao' | 'categoria' | 'categoriaPath' | 'merchantKey'>
+): MerchantMemoryEntry[] => {
+  const key = chaveEstabelecimento(transaction);
+  if (!key) return memoria;
+
+  return mergeMerchantMemory(memoria, [{
+    key,
+    categoria: transaction.categoria,
+    categoriaPath: transaction.categoriaPath,
+    empresa: transaction.empresa,
+    source: 'user',
+    updatedAt: new Date().toISOString(),
+  }]);
+};
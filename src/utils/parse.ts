@@ -2,6 +2,8 @@
  * Utilitários para parsing de valores financeiros brasileiros
  */
 
+import { CategoryTaxonomy, resolveCategory } from '@api/services/category-taxonomy';
+
 /**
  * Parse de valor monetário brasileiro para centavos (inteiro)
  * Exemplos:
@@ -162,8 +164,14 @@ export const normalizeCategoria = (categoria: string): string => {
 /**
  * Parse de categoria hierárquica
  * Exemplo: "Transporte > Apps > Uber" → ["transporte", "apps", "uber"]
+ * Com a taxonomia, o texto livre vira os ids da categoria canônica
+ * (ex: "Alimentacao > Mercado" → ["alimentacao", "supermercado"])
  */
-export const parseCategoriaPath = (categoria: string): string[] => {
+export const parseCategoriaPath = (categoria: string, taxonomia?: CategoryTaxonomy): string[] => {
+  if (taxonomia) {
+    return resolveCategory(taxonomia, categoria).categoriaPath;
+  }
+
   if (!categoria || typeof categoria !== 'string') {
     return ['outros'];
   }
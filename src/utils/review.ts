@@ -0,0 +1,24 @@
+/**
+ * Fila de revisão: transações com classificação duvidosa, para confirmar ou corrigir antes
+ * de ler os insights
+ */
+
+import { TransactionData } from '@/types/financial';
+
+// Abaixo disso a classificação vai para a revisão
+export const LIMIAR_CONFIANCA = 0.7;
+
+/**
+ * Transações a revisar: as que divergem de uma regra ou do dicionário primeiro, depois as de
+ * menor confiança. O que o usuário já confirmou ou corrigiu fica de fora.
+ */
+export const filaDeRevisao = (transactions: TransactionData[], limiar = LIMIAR_CONFIANCA): TransactionData[] =>
+  transactions
+    .filter(transaction =>
+      transaction.classificadoPor !== 'usuario' &&
+      (transaction.conflito !== undefined || (transaction.confianca !== undefined && transaction.confianca < limiar))
+    )
+    .sort((a, b) =>
+      Number(b.conflito !== undefined) - Number(a.conflito !== undefined) ||
+      (a.confianca ?? 1) - (b.confianca ?? 1)
+    );
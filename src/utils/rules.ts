@@ -0,0 +1,96 @@
+/**
+ * Regras de classificação do usuário: persistência no navegador e import/export em JSON
+ */
+
+import { ClassificationRule, RuleSetFile, parseRulesInput } from '@api/services/classification-rules';
+
+const STORAGE_KEY = 'analise-centavos:regras';
+
+/**
+ * Regras iniciais para estabelecimentos que sempre caem na mesma categoria
+ */
+export const REGRAS_PADRAO: ClassificationRule[] = [
+  {
+    id: 'uber',
+    name: 'Uber',
+    enabled: true,
+    conditions: [{ type: 'regex', pattern: '\\buber\\b(?!\\s*eats)' }],
+    action: { categoria: 'Transporte > Apps > Uber', empresa: 'Uber' },
+  },
+  {
+    id: '99',
+    name: '99 App',
+    enabled: true,
+    conditions: [{ type: 'regex', pattern: '\\b99\\s*(app|pop|taxi)\\b' }],
+    action: { categoria: 'Transporte > Apps > 99', empresa: '99' },
+  },
+  {
+    id: 'netflix',
+    name: 'Netflix',
+    enabled: true,
+    conditions: [{ type: 'contains', value: 'netflix' }],
+    action: { categoria: 'Lazer > Streaming', empresa: 'Netflix' },
+  },
+  {
+    id: 'spotify',
+    name: 'Spotify',
+    enabled: true,
+    conditions: [{ type: 'contains', value: 'spotify' }],
+    action: { categoria: 'Lazer > Streaming', empresa: 'Spotify' },
+  },
+  {
+    id: 'ifood',
+    name: 'iFood',
+    enabled: true,
+    conditions: [{ type: 'contains', value: 'ifood' }],
+    action: { categoria: 'Alimentação > Delivery', empresa: 'iFood' },
+  },
+  {
+    id: 'pagamento-recebido',
+    name: 'Pagamento da fatura recebido (cartão)',
+    enabled: true,
+    conditions: [{ type: 'contains', value: 'pagamento recebido' }],
+    action: { ignore: true },
+  },
+];
+
+/**
+ * Carrega as regras salvas (ou as padrão, na primeira vez)
+ */
+export const carregarRegras = (): ClassificationRule[] => {
+  try {
+    const salvo = localStorage.getItem(STORAGE_KEY);
+    return salvo ? parseRulesInput(JSON.parse(salvo)) : REGRAS_PADRAO;
+  } catch (error) {
+    console.warn('⚠️ Regras salvas inválidas, usando as padrão:', error);
+    return REGRAS_PADRAO;
+  }
+};
+
+/**
+ * Salva as regras no navegador
+ */
+export const salvarRegras = (regras: ClassificationRule[]): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(regras));
+};
+
+/**
+ * Gera o JSON exportado (mesmo formato aceito na importação e pela API)
+ */
+export const exportarRegras = (regras: ClassificationRule[]): string => {
+  const arquivo: RuleSetFile = { version: 1, rules: regras };
+  return JSON.stringify(arquivo, null, 2);
+};
+
+/**
+ * Lê um JSON importado; lança erro com a mensagem de validação se estiver inválido
+ */
+export const importarRegras = (conteudo: string): ClassificationRule[] => {
+  let json: unknown;
+  try {
+    json = JSON.parse(conteudo);
+  } catch {
+    throw new Error('O arquivo de regras não é um JSON válido');
+  }
+  return parseRulesInput(json);
+};
@@ -0,0 +1,89 @@
+/**
+ * Categorias do usuário (taxonomia): persistência no navegador e import/export em JSON
+ */
+
+import { CategoryNode, CategoryTaxonomy, DEFAULT_TAXONOMY, TaxonomyFile, categorySlug, parseTaxonomyInput } from '@api/services/category-taxonomy';
+
+const STORAGE_KEY = 'analise-centavos:categorias';
+
+/**
+ * Carrega as categorias salvas (ou as padrão, na primeira vez)
+ */
+export const carregarTaxonomia = (): CategoryTaxonomy => {
+  try {
+    const salvo = localStorage.getItem(STORAGE_KEY);
+    return salvo ? parseTaxonomyInput(JSON.parse(salvo)) : DEFAULT_TAXONOMY;
+  } catch (error) {
+    console.warn('⚠️ Categorias salvas inválidas, usando as padrão:', error);
+    return DEFAULT_TAXONOMY;
+  }
+};
+
+/**
+ * Salva as categorias no navegador
+ */
+export const salvarTaxonomia = (taxonomia: CategoryTaxonomy): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(taxonomia));
+};
+
+/**
+ * Gera o JSON exportado (mesmo formato aceito na importação e pela API)
+ */
+export const exportarTaxonomia = (taxonomia: CategoryTaxonomy): string => {
+  const arquivo: TaxonomyFile = { version: 1, categorias: taxonomia };
+  return JSON.stringify(arquivo, null, 2);
+};
+
+/**
+ * Lê um JSON importado; lança erro com a mensagem de validação se estiver inválido
+ */
+export const importarTaxonomia = (conteudo: string): CategoryTaxonomy => {
+  let json: unknown;
+  try {
+    json = JSON.parse(conteudo);
+  } catch {
+    throw new Error('O arquivo de categorias não é um JSON válido');
+  }
+  return parseTaxonomyInput(json);
+};
+
+/**
+ * Adiciona uma categoria na raiz ou como subcategoria do caminho de ids informado.
+ * Lança erro se já existir uma irmã com o mesmo id.
+ */
+export const adicionarCategoria = (
+  taxonomia: CategoryTaxonomy,
+  categoria: Omit<CategoryNode, 'id'>,
+  caminhoPai: string[] = []
+): CategoryTaxonomy => {
+  const nova: CategoryNode = { id: categorySlug(categoria.nome), ...categoria };
+
+  if (caminhoPai.length === 0) {
+    if (taxonomia.some(existente => existente.id === nova.id)) {
+      throw new Error(`Já existe a categoria "${categoria.nome}"`);
+    }
+    return parseTaxonomyInput([...taxonomia, nova]);
+  }
+
+  const [id, ...resto] = caminhoPai;
+  return taxonomia.map(existente => existente.id !== id ? existente : {
+    ...existente,
+    subcategorias: adicionarCategoria(existente.subcategorias || [], categoria, resto),
+  });
+};
+
+/**
+ * Remove a categoria (e suas subcategorias) do caminho de ids informado
+ */
+export const removerCategoria = (taxonomia: CategoryTaxonomy, caminho: string[]): CategoryTaxonomy => {
+  const [id, ...resto] = caminho;
+  if (resto.length === 0) {
+    return taxonomia.filter(existente => existente.id !== id);
+  }
+  return taxonomia.map(existente => {
+    if (existente.id !== id) return existente;
+    const subcategorias = removerCategoria(existente.subcategorias || [], resto);
+    const { subcategorias: _, ...semFilhas } = existente;
+    return subcategorias.length > 0 ? { ...existente, subcategorias } : semFilhas;
+  });
+};
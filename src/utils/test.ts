@@ -3,7 +3,15 @@
  */
 
 import { parseValorBrasileiro, parseDateBrasileira, parseCategoriaPath, testesParseFunctions } from './parse';
-import { aggregateTransactions, testeAggregationFunctions } from './aggregate';
+import { aggregateTransactions, generateFinancialInsights, projectInstallmentCommitments, testeAggregationFunctions } from './aggregate';
+import { aplicarCorrecao, chaveEstabelecimento, confirmarClassificacao } from './corrections';
+import { registrarCorrecao } from './merchant-memory';
+import { filaDeRevisao } from './review';
+import { parseInstallment } from '@api/services/installments';
+import { parseOFX } from '@api/services/ofx-parser';
+import { redactRows } from '@api/services/pii-redaction';
+import { applyRules, parseRulesInput } from '@api/services/classification-rules';
+import { DEFAULT_TAXONOMY, resolveCategory } from '@api/services/category-taxonomy';
 import { TransactionData } from '@/types/financial';
 
 /**
@@ -141,6 +149,277 @@ export const testeAgregacaoCompleta = () => {
   return entradasOK && saidasOK && saldoOK && categoriaOK;
 };
 
+/**
+ * Testa a leitura de OFX: valores no formato brasileiro e FITIDs repetidos
+ */
+export const testeLeituraOFX = () => {
+  console.log('🧪 Testando leitura de OFX...');
+
+  const bloco = (fitId: string, data: string, valor: string, nome: string) =>
+    `<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>${data}<TRNAMT>${valor}<FITID>${fitId}<NAME>${nome}</STMTTRN>`;
+  const ofx = [
+    'OFXHEADER:100',
+    '<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKTRANLIST>',
+    bloco('1', '20240110', '-1.234,56', 'Aluguel'),
+    bloco('2', '20240111', '1234,56', 'Salario'),
+    bloco('3', '20240112', '-50.00', 'Mercado'),
+    // Mesmo FITID em compras diferentes (banco que reutiliza o id): as duas ficam
+    bloco('4', '20240113', '-30,00', 'Padaria'),
+    bloco('4', '20240113', '-12,00', 'Padaria'),
+    // Bloco repetido de verdade (mesmo FITID, data e valor): descartado e informado
+    bloco('3', '20240112', '-50.00', 'Mercado'),
+    '</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>',
+  ].join('\n');
+
+  const extrato = parseOFX(ofx);
+  const valores = extrato.transactions.map(transaction => transaction.valorCentavos).join(', ');
+  console.log('💰 Valores lidos:', valores);
+
+  const valoresOK = valores === '-123456, 123456, -5000, -3000, -1200';
+  const duplicadasOK = extrato.duplicates.length === 1 && extrato.duplicates[0].fitId === '3';
+  console.log(`✅ Valores no formato brasileiro: ${valoresOK ? 'OK' : 'FALHOU'}`);
+  console.log(`✅ FITIDs repetidos: ${duplicadasOK ? 'OK' : 'FALHOU'}`);
+
+  return valoresOK && duplicadasOK;
+};
+
+/**
+ * Testa as regras com regex: padrões com repetição aninhada são recusados e o texto testado
+ * tem tamanho limitado, então nenhum padrão trava o servidor
+ */
+export const testeRegrasRegex = () => {
+  console.log('🧪 Testando regras com regex...');
+
+  const regra = (pattern: string) => [{ conditions: [{ type: 'regex', pattern }], action: { categoria: 'Lazer' } }];
+  const recusa = (pattern: string) => {
+    try {
+      parseRulesInput(regra(pattern));
+      return false;
+    } catch {
+      return true;
+    }
+  };
+
+  const patologicosOK = ['(a+)+$', '(\\w*x)*y', '([a-z]+\\d)+', '(?:a|b+){2,}'].every(recusa);
+  const validosOK = ['^PIX (ENVIADO|RECEBIDO)', 'UBER\\s*\\*?TRIP', '(\\d+)/(\\d+)', '[(+]+x'].every(pattern => !recusa(pattern));
+
+  const inicio = Date.now();
+  const rules = parseRulesInput(regra('a+b$'));
+  const { classified } = applyRules(
+    [{ id: 1, tipo: 'Saída', data: '2024-01-10', valorCentavos: 1000, descricao: `${'a'.repeat(50000)}!` }],
+    rules
+  );
+  const limiteOK = classified.length === 0 && Date.now() - inicio < 1000;
+
+  console.log(`✅ Padrões com repetição aninhada recusados: ${patologicosOK ? 'OK' : 'FALHOU'}`);
+  console.log(`✅ Padrões comuns aceitos: ${validosOK ? 'OK' : 'FALHOU'}`);
+  console.log(`✅ Texto longo testado rápido (${Date.now() - inicio}ms): ${limiteOK ? 'OK' : 'FALHOU'}`);
+
+  return patologicosOK && validosOK && limiteOK;
+};
+
+/**
+ * Testa a máscara de dados pessoais: só o texto é mascarado, datas e valores vão intactos,
+ * mas um número que só parece valor (CPF, conta) é mascarado
+ */
+export const testeRedacaoDados = () => {
+  console.log('🧪 Testando máscara de dados pessoais...');
+
+  // CSV bruto (colunas desconhecidas), já com a coluna de id
+  const linhas = [
+    ['id', 'Data', 'Histórico', 'Valor', 'Saldo'],
+    ['1', '15/01/2024', 'PIX ENVIADO JOAO DA SILVA CPF 123.456.789-09', '-1.234,56', '10.000,00'],
+    ['2', '2024-01-16', 'TED 11 98765-4321', '12345678901', '(50,00)'],
+  ];
+  const { rows, report } = redactRows(linhas);
+  console.log('📤 Linhas enviadas:', rows.slice(1).map(row => row.join(' | ')).join(' / '));
+
+  // '12345678901' parece valor, mas sem centavos nem moeda é documento/conta e vai mascarado
+  const intactosOK = [1, 2].every(linha => [1, 4].every(coluna => rows[linha][coluna] === linhas[linha][coluna]))
+    && rows[1][3] === linhas[1][3];
+  const mascaradoOK = !rows[1][2].includes('123.456.789-09') && !rows[1][2].includes('JOAO')
+    && rows[2][3] === '[CPF_2]' && report.CPF === 2 && report.NOME === 1;
+
+  console.log(`✅ Datas e valores intactos: ${intactosOK ? 'OK' : 'FALHOU'}`);
+  console.log(`✅ Dados pessoais mascarados: ${mascaradoOK ? 'OK' : 'FALHOU'}`);
+
+  return intactosOK && mascaradoOK;
+};
+
+/**
+ * Testa a leitura de parcelas e a projeção dos meses seguintes
+ */
+export const testeProjecaoParcelas = () => {
+  console.log('🧪 Testando parcelas e projeção de compromissos...');
+
+  // Em conta corrente, "05/12" no fim da descrição é data; só os marcadores explícitos valem
+  const marcadores: Array<[string, 'cartao' | 'conta', string | null]> = [
+    ['NETSHOES PARC 03/10', 'cartao', '3/10'],
+    ['Magazine Luiza - Parcela 2 de 12', 'cartao', '2/12'],
+    ['AMAZON 01/03', 'cartao', '1/3'],
+    ['Compra 15/01/2024', 'cartao', null],
+    ['Uber trip', 'cartao', null],
+    ['PIX TRANSF JOAO 05/12', 'conta', null],
+    ['CARNE LOJAS PARC 03/10', 'conta', '3/10'],
+  ];
+  const marcadoresOK = marcadores.every(([texto, tipoExtrato, esperado]) => {
+    const parcela = parseInstallment(texto, tipoExtrato);
+    const obtido = parcela ? `${parcela.atual}/${parcela.total}` : null;
+    console.log(`- "${texto}" (${tipoExtrato}): ${obtido} ${obtido === esperado ? 'OK' : `FALHOU (esperado ${esperado})`}`);
+    return obtido === esperado;
+  });
+
+  const base = { categoria: 'Compras', categoriaPath: ['compras'], descricao: 'Compra parcelada' };
+  const transactions: TransactionData[] = [
+    // Mesma compra em duas faturas: vale a parcela mais recente (4/5)
+    { ...base, id: 1, tipo: 'Saída', valorCentavos: 10000, empresa: 'Netshoes', data: '2024-01-10', parcela: { atual: 3, total: 5, valorOriginalCentavos: 50000 } },
+    { ...base, id: 2, tipo: 'Saída', valorCentavos: 10000, empresa: 'Netshoes', data: '2024-02-10', parcela: { atual: 4, total: 5, valorOriginalCentavos: 50000 } },
+    { ...base, id: 3, tipo: 'Saída', valorCentavos: 5000, empresa: 'Amazon', data: '2024-02-05', parcela: { atual: 1, total: 3, valorOriginalCentavos: 15000 } },
+    // Última parcela: nada a projetar
+    { ...base, id: 4, tipo: 'Saída', valorCentavos: 7000, empresa: 'Fast Shop', data: '2024-02-01', parcela: { atual: 6, total: 6, valorOriginalCentavos: 42000 } },
+  ];
+
+  const projecao = projectInstallmentCommitments(transactions);
+  const meses = projecao.meses.map(mes => `${mes.mes}:${mes.totalCentavos}`).join(', ');
+  console.log('📅 Meses projetados:', meses);
+
+  const projecaoOK = projecao.mesReferencia === '2024-02'
+    && projecao.comprasParceladas === 2
+    && meses === '2024-03:15000, 2024-04:5000'
+    && projecao.totalComprometidoCentavos === 20000;
+
+  // Extrato de vários meses: cada compra parte do próprio mês; duas compras iguais no mesmo
+  // mês (mesma parcela) continuam sendo duas
+  const variosMeses = projectInstallmentCommitments([
+    { ...base, id: 5, tipo: 'Saída', valorCentavos: 2000, empresa: 'Loja A', data: '2024-01-15', parcela: { atual: 3, total: 4, valorOriginalCentavos: 8000 } },
+    { ...base, id: 6, tipo: 'Saída', valorCentavos: 3000, empresa: 'Loja B', data: '2024-03-02', parcela: { atual: 1, total: 2, valorOriginalCentavos: 6000 } },
+    { ...base, id: 7, tipo: 'Saída', valorCentavos: 3000, empresa: 'Loja B', data: '2024-03-20', parcela: { atual: 1, total: 2, valorOriginalCentavos: 6000 } },
+  ]);
+  const mesesVarios = variosMeses.meses.map(mes => `${mes.mes}:${mes.totalCentavos}`).join(', ');
+  console.log('📅 Meses projetados (vários meses):', mesesVarios);
+  const variosMesesOK = variosMeses.comprasParceladas === 3 && mesesVarios === '2024-02:2000, 2024-04:6000';
+
+  console.log(`✅ Marcadores de parcela: ${marcadoresOK ? 'OK' : 'FALHOU'}`);
+  console.log(`✅ Projeção: ${projecaoOK ? 'OK' : 'FALHOU'}`);
+  console.log(`✅ Projeção por mês da compra e compras iguais: ${variosMesesOK ? 'OK' : 'FALHOU'}`);
+
+  return marcadoresOK && projecaoOK && variosMesesOK;
+};
+
+/**
+ * Testa a correção manual de categoria (uma transação e todo o estabelecimento) e o recálculo dos totais
+ */
+export const testeCorrecaoCategoria = () => {
+  console.log('🧪 Testando correção manual de categoria...');
+
+  const base = { tipo: 'Saída' as const, data: '2024-01-10' };
+  const transactions: TransactionData[] = [
+    { ...base, id: 1, valorCentavos: 4990, categoria: 'Lazer > Streaming', categoriaPath: ['lazer', 'streaming'], empresa: 'LinkedIn', descricao: 'LINKEDIN PREMIUM' },
+    { ...base, id: 2, valorCentavos: 4990, categoria: 'Lazer > Streaming', categoriaPath: ['lazer', 'streaming'], empresa: 'LinkedIn', descricao: 'LINKEDIN PREMIUM' },
+    { ...base, id: 3, valorCentavos: 3990, categoria: 'Lazer > Streaming', categoriaPath: ['lazer', 'streaming'], empresa: 'Netflix', descricao: 'NETFLIX.COM' },
+  ];
+
+  const individual = aplicarCorrecao(transactions, 1, { categoria: 'Trabalho > Networking', descricao: 'LinkedIn Premium' });
+  const individualOK = individual.alteradas.length === 1
+    && individual.transactions[0].descricao === 'LinkedIn Premium'
+    && individual.transactions[1].categoria === 'Lazer > Streaming';
+
+  const emLote = aplicarCorrecao(transactions, 1, { categoria: 'Trabalho > Networking', descricao: 'LinkedIn Premium' }, true);
+  const insights = generateFinancialInsights(aggregateTransactions(emLote.transactions));
+  const trabalho = insights.categorias.find(categoria => categoria.nome === 'Trabalho');
+  const loteOK = emLote.alteradas.length === 2
+    && emLote.transactions[1].descricao === 'LINKEDIN PREMIUM' // Descrição só muda na transação editada
+    && emLote.transactions[1].categoriaPath.join('/') === 'trabalho/networking'
+    && trabalho?.valor === 99.8
+    && insights.totalSaidas === 139.7;
+
+  console.log(`✅ Correção individual: ${individualOK ? 'OK' : 'FALHOU'}`);
+  console.log(`✅ Correção do estabelecimento e recálculo: ${loteOK ? 'OK' : 'FALHOU'}`);
+
+  return individualOK && loteOK;
+};
+
+/**
+ * Testa a memória de estabelecimentos com transferências: dois destinatários de PIX nunca
+ * dividem a mesma entrada
+ */
+export const testeMemoriaTransferencias = () => {
+  console.log('🧪 Testando memória de estabelecimentos com transferências...');
+
+  const pix = (descricao: string) => ({ empresa: descricao, descricao, categoria: 'Família', categoriaPath: ['familia'] });
+  const joao = pix('PIX TRANSF JOAO 05/12');
+  const maria = pix('PIX TRANSF MARIA 06/12');
+  const semNome = [pix('PIX TRANSF 12345678901'), pix('TED 033 0001 987654')];
+
+  const chavesOK = chaveEstabelecimento(joao) !== chaveEstabelecimento(maria) && semNome.every(t => chaveEstabelecimento(t) === '');
+
+  const memoria = registrarCorrecao(registrarCorrecao([], joao), semNome[0]);
+  const memoriaOK = memoria.length === 1 && memoria[0].key === chaveEstabelecimento(joao)
+    && !memoria.some(entry => entry.key === chaveEstabelecimento(maria));
+
+  console.log(`✅ Chaves distintas por destinatário: ${chavesOK ? 'OK' : 'FALHOU'}`);
+  console.log(`✅ Transferência sem nome não entra na memória: ${memoriaOK ? 'OK' : 'FALHOU'}`);
+
+  return chavesOK && memoriaOK;
+};
+
+/**
+ * Testa o mapeamento de categorias livres na taxonomia: um nome conhecido em outro ramo não
+ * tira a categoria do ancestral citado antes dele
+ */
+export const testeResolucaoCategorias = () => {
+  console.log('🧪 Testando mapeamento de categorias na taxonomia...');
+
+  const casos: Array<[string, string]> = [
+    ['Lazer > Casa', 'Lazer'],
+    ['Compras > Casa', 'Compras > Casa'],
+    ['Lazer > Casa > Cinema', 'Lazer > Cinema'],
+    ['Assinaturas > Apps', 'Assinaturas > Apps'],
+    ['Despesas > Uber', 'Transporte > Apps > Uber'],
+    ['Moradia > Contas > Internet/Telefone', 'Moradia > Internet e Telefone'],
+  ];
+
+  const todosOK = casos.every(([texto, esperado]) => {
+    const { categoria } = resolveCategory(DEFAULT_TAXONOMY, texto);
+    const ok = categoria === esperado;
+    console.log(`- "${texto}": ${categoria} ${ok ? 'OK' : `FALHOU (esperado ${esperado})`}`);
+    return ok;
+  });
+
+  console.log(`✅ Categorias mapeadas: ${todosOK ? 'OK' : 'FALHOU'}`);
+  return todosOK;
+};
+
+/**
+ * Testa a fila de revisão: divergências primeiro, depois menor confiança, e o que o usuário
+ * confirmou sai da fila
+ */
+export const testeFilaRevisao = () => {
+  console.log('🧪 Testando fila de revisão...');
+
+  const base = { tipo: 'Saída' as const, data: '2024-01-10', valorCentavos: 1000, categoriaPath: ['outros'], categoria: 'Outros', descricao: 'COMPRA' };
+  const transactions: TransactionData[] = [
+    { ...base, id: 1, empresa: 'Padaria', confianca: 0.95, classificadoPor: 'ia' },
+    { ...base, id: 2, empresa: 'Loja X', confianca: 0.6, classificadoPor: 'ia' },
+    { ...base, id: 3, empresa: 'Posto', confianca: 0.3, classificadoPor: 'ia' },
+    { ...base, id: 4, empresa: 'Uber', confianca: 0.9, classificadoPor: 'ia', conflito: 'Transporte > Apps > Uber' },
+    { ...base, id: 5, empresa: 'Aluguel', confianca: 0.2, classificadoPor: 'usuario' },
+  ];
+
+  const fila = filaDeRevisao(transactions);
+  const ordemOK = fila.map(transaction => transaction.id).join(',') === '4,3,2';
+
+  const confirmadas = confirmarClassificacao(transactions, [4]);
+  const confirmadaOK = filaDeRevisao(confirmadas.transactions).map(transaction => transaction.id).join(',') === '3,2'
+    && confirmadas.transactions[3].conflito === undefined
+    && confirmadas.transactions[3].categoria === 'Outros';
+
+  console.log(`✅ Ordem da fila: ${ordemOK ? 'OK' : 'FALHOU'}`);
+  console.log(`✅ Confirmação remove da fila: ${confirmadaOK ? 'OK' : 'FALHOU'}`);
+
+  return ordemOK && confirmadaOK;
+};
+
 /**
  * Executa todos os testes
  */
@@ -158,9 +437,33 @@ export const executarTodosTestes = () => {
   
   console.log('\n=== TESTE DE AGREGAÇÃO (UTILITÁRIO) ===');
   testeAggregationFunctions();
+
+  console.log('\n=== TESTE DE OFX ===');
+  const testeOFX = testeLeituraOFX();
+
+  console.log('\n=== TESTE DE REGRAS COM REGEX ===');
+  const testeRegras = testeRegrasRegex();
+
+  console.log('\n=== TESTE DE MÁSCARA DE DADOS PESSOAIS ===');
+  const testeRedacao = testeRedacaoDados();
+
+  console.log('\n=== TESTE DE PARCELAS ===');
+  const teste3 = testeProjecaoParcelas();
+
+  console.log('\n=== TESTE DE CORREÇÃO MANUAL ===');
+  const teste4 = testeCorrecaoCategoria();
+
+  console.log('\n=== TESTE DE CATEGORIAS NA TAXONOMIA ===');
+  const testeCategorias = testeResolucaoCategorias();
+
+  console.log('\n=== TESTE DE MEMÓRIA COM TRANSFERÊNCIAS ===');
+  const testeMemoria = testeMemoriaTransferencias();
+
+  console.log('\n=== TESTE DE FILA DE REVISÃO ===');
+  const teste5 = testeFilaRevisao();
   
   console.log('\n=== RESULTADO FINAL ===');
-  const todosOK = teste1 && teste2;
+  const todosOK = teste1 && teste2 && teste3 && teste4 && teste5 && testeOFX && testeRegras && testeRedacao && testeMemoria && testeCategorias;
   console.log(`🎯 Todos os testes: ${todosOK ? '✅ PASSARAM' : '❌ FALHARAM'}`);
   
   if (todosOK) {